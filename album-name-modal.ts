@@ -0,0 +1,57 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * 相册名称输入对话框
+ * 用于新建和重命名相册
+ */
+export class AlbumNameModal extends Modal {
+  private title: string;
+  private value: string;
+  private submitText: string;
+  private onSubmit: (name: string) => void;
+
+  constructor(app: App, title: string, value: string, submitText: string, onSubmit: (name: string) => void) {
+    super(app);
+    this.title = title;
+    this.value = value;
+    this.submitText = submitText;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.title);
+    contentEl.addClass('album-name-modal');
+
+    const input = contentEl.createEl('input', { type: 'text', cls: 'album-name-input', value: this.value, placeholder: '相册名称' });
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.submit(input.value);
+      }
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText(this.submitText)
+        .setCta()
+        .onClick(() => this.submit(input.value)));
+
+    input.focus();
+    input.select();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private submit(value: string) {
+    const name = value.trim();
+    if (!name) return;
+    this.close();
+    this.onSubmit(name);
+  }
+}
@@ -0,0 +1,302 @@
+import { ItemView, WorkspaceLeaf, Menu, Notice, TFile, ViewStateResult, debounce, setIcon } from 'obsidian';
+import { ImageDataManager, MediaAlbum, MediaData } from './image-data-model';
+import { ImageTaggingPlugin } from './utils';
+import { AlbumNameModal } from './album-name-modal';
+import { ConfirmModal } from './confirm-modal';
+import { ALBUM_VIEW_TYPE } from './constants';
+
+// 视图状态：当前打开的相册
+interface AlbumViewState {
+  albumId?: string;
+}
+
+/**
+ * 相册视图
+ * 左侧列出相册（封面、名称和数量），右侧按相册顺序显示媒体，拖动卡片调整顺序
+ * 相册与标签无关，同一文件可以加入多个相册
+ */
+export class AlbumView extends ItemView {
+  private plugin: ImageTaggingPlugin;
+  private imageDataManager: ImageDataManager;
+  private albumId: string | null = null;
+  private draggedId: string | null = null; // 正在拖动的媒体ID
+  private listEl: HTMLElement;
+  private contentAreaEl: HTMLElement;
+  private scheduleRender = debounce(() => this.render(), 100);
+
+  constructor(leaf: WorkspaceLeaf, plugin: ImageTaggingPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.imageDataManager = plugin.imageDataManager;
+  }
+
+  getViewType(): string {
+    return ALBUM_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    const album = this.albumId ? this.imageDataManager.getAlbum(this.albumId) : undefined;
+    return album ? `相册: ${album.name}` : '相册';
+  }
+
+  getIcon(): string {
+    return 'book-image';
+  }
+
+  getState(): Record<string, unknown> {
+    const state: AlbumViewState = { albumId: this.albumId || undefined };
+    return { ...super.getState(), ...state };
+  }
+
+  async setState(state: AlbumViewState, result: ViewStateResult): Promise<void> {
+    if (state && typeof state.albumId === 'string') {
+      this.albumId = state.albumId;
+      if (this.listEl) this.render();
+    }
+    await super.setState(state, result);
+  }
+
+  async onOpen() {
+    this.createView();
+
+    // 相册或记录变化（删除、改名、外部修改合并）后重新绘制
+    this.registerEvent(this.imageDataManager.on('albums', () => this.scheduleRender()));
+    for (const name of ['updated', 'removed', 'bulk'] as const) {
+      this.registerEvent(this.imageDataManager.on(name, () => this.scheduleRender()));
+    }
+
+    this.render();
+  }
+
+  async onClose() {
+    this.scheduleRender.cancel();
+  }
+
+  /**
+   * 缩略图缓存或设置变化后重新绘制
+   */
+  refreshPreviews() {
+    this.render();
+  }
+
+  /**
+   * 打开指定相册
+   */
+  showAlbum(albumId: string) {
+    this.albumId = albumId;
+    this.render();
+    this.app.workspace.requestSaveLayout();
+  }
+
+  private createView() {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('album-view');
+
+    const sidebar = container.createDiv({ cls: 'album-sidebar' });
+    const header = sidebar.createDiv({ cls: 'album-sidebar-header' });
+    header.createEl('h4', { text: '相册' });
+    const createButton = header.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': '新建相册' } });
+    setIcon(createButton, 'plus');
+    createButton.addEventListener('click', () => this.promptCreate());
+
+    this.listEl = sidebar.createDiv({ cls: 'album-list' });
+    this.contentAreaEl = container.createDiv({ cls: 'album-content' });
+  }
+
+  private render() {
+    const albums = this.imageDataManager.getAlbums();
+    if (this.albumId && !albums.some(album => album.id === this.albumId)) {
+      this.albumId = null;
+    }
+    if (!this.albumId && albums.length > 0) {
+      this.albumId = albums[0].id;
+    }
+
+    this.listEl.empty();
+    if (albums.length === 0) {
+      this.listEl.createDiv({ cls: 'album-empty', text: '暂无相册' });
+    }
+    albums.forEach(album => this.renderAlbumItem(album));
+
+    this.renderContent(albums.find(album => album.id === this.albumId));
+    // 更新标签页标题
+    (this.leaf as WorkspaceLeaf & { updateHeader?: () => void }).updateHeader?.();
+  }
+
+  private renderAlbumItem(album: MediaAlbum) {
+    const item = this.listEl.createDiv({ cls: 'album-list-item' });
+    item.toggleClass('is-active', album.id === this.albumId);
+
+    const coverEl = item.createDiv({ cls: 'album-list-cover' });
+    this.renderThumbnail(coverEl, this.imageDataManager.getAlbumCover(album.id), 'book-image');
+
+    const info = item.createDiv({ cls: 'album-list-info' });
+    info.createDiv({ cls: 'album-list-name', text: album.name });
+    info.createDiv({ cls: 'album-list-count', text: `${this.imageDataManager.getAlbumItems(album.id).length} 项` });
+
+    item.addEventListener('click', () => this.showAlbum(album.id));
+    item.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      const menu = new Menu();
+      menu.addItem(menuItem => menuItem
+        .setTitle('重命名')
+        .setIcon('pencil')
+        .onClick(() => this.promptRename(album)));
+      menu.addItem(menuItem => menuItem
+        .setTitle('删除相册')
+        .setIcon('trash')
+        .onClick(() => this.deleteAlbum(album)));
+      menu.showAtMouseEvent(e);
+    });
+  }
+
+  private renderContent(album: MediaAlbum | undefined) {
+    this.contentAreaEl.empty();
+    if (!album) {
+      const empty = this.contentAreaEl.createDiv({ cls: 'album-empty' });
+      empty.createDiv({ text: '新建相册后，在图库中选择媒体并点击“添加到相册”' });
+      return;
+    }
+
+    const items = this.imageDataManager.getAlbumItems(album.id);
+    const header = this.contentAreaEl.createDiv({ cls: 'album-content-header' });
+    header.createEl('h3', { text: album.name });
+    header.createSpan({ cls: 'album-content-count', text: `${items.length} 项，拖动卡片调整顺序` });
+
+    if (items.length === 0) {
+      this.contentAreaEl.createDiv({ cls: 'album-empty', text: '相册中还没有媒体' });
+      return;
+    }
+
+    const cover = this.imageDataManager.getAlbumCover(album.id);
+    const grid = this.contentAreaEl.createDiv({ cls: 'album-grid' });
+    items.forEach(mediaData => this.renderCard(grid, album, mediaData, mediaData.id === cover?.id));
+  }
+
+  private renderCard(grid: HTMLElement, album: MediaAlbum, mediaData: MediaData, isCover: boolean) {
+    const card = grid.createDiv({ cls: 'album-card', attr: { draggable: 'true', title: mediaData.path } });
+    const thumbnail = card.createDiv({ cls: 'album-card-thumbnail' });
+    this.renderThumbnail(thumbnail, mediaData, mediaData.type === 'video' ? 'film' : 'music');
+    if (isCover) {
+      thumbnail.createSpan({ cls: 'album-cover-badge', text: '封面' });
+    }
+    card.createDiv({ cls: 'album-card-title', text: mediaData.title || mediaData.originalName });
+
+    card.addEventListener('dragstart', (e) => {
+      this.draggedId = mediaData.id;
+      card.addClass('is-dragging');
+      e.dataTransfer?.setData('text/plain', mediaData.id);
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+    });
+    card.addEventListener('dragend', () => {
+      this.draggedId = null;
+      card.removeClass('is-dragging');
+      grid.querySelectorAll('.is-drop-before, .is-drop-after').forEach(el => el.removeClass('is-drop-before', 'is-drop-after'));
+    });
+    card.addEventListener('dragover', (e) => {
+      if (!this.draggedId || this.draggedId === mediaData.id) return;
+      e.preventDefault();
+      const after = this.isAfter(card, e);
+      card.toggleClass('is-drop-before', !after);
+      card.toggleClass('is-drop-after', after);
+    });
+    card.addEventListener('dragleave', () => card.removeClass('is-drop-before', 'is-drop-after'));
+    card.addEventListener('drop', async (e) => {
+      e.preventDefault();
+      card.removeClass('is-drop-before', 'is-drop-after');
+      const draggedId = this.draggedId;
+      if (!draggedId || draggedId === mediaData.id) return;
+
+      this.imageDataManager.moveAlbumItem(album.id, draggedId, mediaData.id, this.isAfter(card, e));
+      await this.plugin.saveDataToFile();
+    });
+
+    card.addEventListener('dblclick', () => this.openFile(mediaData));
+    card.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      const menu = new Menu();
+      menu.addItem(menuItem => menuItem
+        .setTitle('打开文件')
+        .setIcon('file')
+        .onClick(() => this.openFile(mediaData)));
+      menu.addItem(menuItem => menuItem
+        .setTitle(isCover ? '取消封面' : '设为封面')
+        .setIcon('image')
+        .onClick(async () => {
+          this.imageDataManager.setAlbumCover(album.id, isCover ? undefined : mediaData.id);
+          await this.plugin.saveDataToFile();
+        }));
+      menu.addItem(menuItem => menuItem
+        .setTitle('从相册移除')
+        .setIcon('x')
+        .onClick(async () => {
+          this.imageDataManager.removeFromAlbum(album.id, [mediaData.id]);
+          await this.plugin.saveDataToFile();
+        }));
+      menu.showAtMouseEvent(e);
+    });
+  }
+
+  // 拖动位置是否在卡片的后半部分
+  private isAfter(card: HTMLElement, e: DragEvent): boolean {
+    const rect = card.getBoundingClientRect();
+    return e.clientX > rect.left + rect.width / 2;
+  }
+
+  private renderThumbnail(container: HTMLElement, mediaData: MediaData | undefined, fallbackIcon: string) {
+    if (mediaData && mediaData.type === 'image') {
+      const img = container.createEl('img', { attr: { draggable: 'false' } });
+      this.plugin.thumbnails.loadImage(img, mediaData.path, this.plugin.settings.thumbnailSize);
+    } else if (mediaData && mediaData.type === 'video') {
+      // 封面截取完成前先显示图标
+      setIcon(container, 'film');
+      const { thumbnailSize, videoPosterTime } = this.plugin.settings;
+      this.plugin.thumbnails.getPoster(mediaData.path, thumbnailSize, videoPosterTime).then(poster => {
+        if (!poster) return;
+        container.querySelector('svg')?.remove();
+        container.prepend(createEl('img', { attr: { src: poster.url, draggable: 'false' } }));
+      });
+    } else {
+      setIcon(container, mediaData ? 'music' : fallbackIcon);
+    }
+  }
+
+  private async openFile(mediaData: MediaData) {
+    const file = this.app.vault.getAbstractFileByPath(mediaData.path);
+    if (file instanceof TFile) {
+      await this.app.workspace.getLeaf(true).openFile(file);
+    } else {
+      new Notice('文件不存在');
+    }
+  }
+
+  private promptCreate() {
+    new AlbumNameModal(this.app, '新建相册', '', '创建', async (name) => {
+      const album = this.imageDataManager.createAlbum(name);
+      this.showAlbum(album.id);
+      await this.plugin.saveDataToFile();
+    }).open();
+  }
+
+  private promptRename(album: MediaAlbum) {
+    new AlbumNameModal(this.app, `重命名相册“${album.name}”`, album.name, '重命名', async (name) => {
+      if (name === album.name) return;
+      this.imageDataManager.renameAlbum(album.id, name);
+      await this.plugin.saveDataToFile();
+    }).open();
+  }
+
+  private deleteAlbum(album: MediaAlbum) {
+    new ConfirmModal(this.app, {
+      title: '删除相册',
+      message: `确定要删除相册“${album.name}”吗？相册中的媒体文件和标签不受影响。`,
+      confirmText: '删除',
+      warning: true
+    }, async () => {
+      this.imageDataManager.deleteAlbum(album.id);
+      await this.plugin.saveDataToFile();
+      new Notice(`已删除相册“${album.name}”`);
+    }).open();
+  }
+}
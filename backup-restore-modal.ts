@@ -0,0 +1,70 @@
+import { App, SuggestModal } from 'obsidian';
+import { BackupInfo } from './save-scheduler';
+import { DataMigration } from './data-migration';
+import { Logger } from './logger';
+
+// 带预读信息的备份条目
+export interface BackupEntry extends BackupInfo {
+  itemCount: number | null; // 备份中的记录数，无法解析时为 null
+}
+
+/**
+ * 备份选择对话框
+ * 列出数据文件的备份及其记录数和时间，选中后交由调用方恢复
+ */
+export class BackupRestoreModal extends SuggestModal<BackupEntry> {
+  private entries: BackupEntry[];
+  private onChoose: (entry: BackupEntry) => void;
+
+  constructor(app: App, entries: BackupEntry[], onChoose: (entry: BackupEntry) => void) {
+    super(app);
+    this.entries = entries;
+    this.onChoose = onChoose;
+    this.setPlaceholder('选择要恢复的标签数据备份...');
+  }
+
+  /**
+   * 读取每个备份并统计其中的记录数
+   */
+  static async loadEntries(app: App, backups: BackupInfo[]): Promise<BackupEntry[]> {
+    const entries: BackupEntry[] = [];
+    for (const backup of backups) {
+      let itemCount: number | null = null;
+      try {
+        const content = await app.vault.adapter.read(backup.path);
+        itemCount = DataMigration.parseLibrary(content).envelope.items.length;
+      } catch (error) {
+        Logger.warn(`无法读取备份文件: ${backup.path}`, error);
+      }
+      entries.push({ ...backup, itemCount });
+    }
+    return entries;
+  }
+
+  getSuggestions(query: string): BackupEntry[] {
+    const lowerQuery = query.toLowerCase();
+    return this.entries.filter(entry =>
+      entry.name.toLowerCase().includes(lowerQuery) ||
+      new Date(entry.timestamp).toLocaleString().includes(query)
+    );
+  }
+
+  renderSuggestion(entry: BackupEntry, el: HTMLElement) {
+    el.addClass('backup-suggestion-item');
+    el.createEl('div', {
+      cls: 'backup-suggestion-title',
+      text: new Date(entry.timestamp).toLocaleString()
+    });
+
+    const kindText = entry.kind === 'pre-migration' ? '迁移前备份' : '自动备份';
+    const countText = entry.itemCount === null ? '无法读取' : `${entry.itemCount} 条记录`;
+    el.createEl('small', {
+      cls: 'backup-suggestion-info',
+      text: `${kindText} · ${countText} · ${entry.name}`
+    });
+  }
+
+  onChooseSuggestion(entry: BackupEntry) {
+    this.onChoose(entry);
+  }
+}
@@ -0,0 +1,230 @@
+import { App, Modal, Setting, setIcon } from 'obsidian';
+import { MediaData, SmartCollection, CustomFieldDefinition } from './image-data-model';
+import { CustomFields } from './custom-fields';
+import { SmartCollections, MEDIA_TYPE_NAMES } from './smart-collections';
+import { TagHierarchy } from './tag-hierarchy';
+
+export interface CollectionEditOptions {
+  collections: SmartCollection[];            // 全部收藏集（用于选择上级收藏集）
+  fieldDefinitions: CustomFieldDefinition[];
+  getTags: () => string[];                   // 自动补全使用的已有标签
+  resolveTag: (tag: string) => string;       // 将别名转换为标准标签
+  countMatches: (collection: SmartCollection, collections: SmartCollection[]) => number;
+}
+
+/**
+ * 收藏集编辑对话框
+ * 编辑收藏集的名称、上级收藏集、是否固定和查询条件，并实时显示匹配的记录数
+ */
+export class CollectionEditModal extends Modal {
+  private collection: SmartCollection;
+  private options: CollectionEditOptions;
+  private onSubmit: (collection: SmartCollection) => void;
+  private countEl: HTMLElement;
+
+  constructor(app: App, collection: SmartCollection, options: CollectionEditOptions, onSubmit: (collection: SmartCollection) => void) {
+    super(app);
+    // 编辑副本，取消时不影响原收藏集
+    this.collection = {
+      ...collection,
+      query: SmartCollections.createQuery({
+        ...collection.query,
+        fields: collection.query.fields.map(filter => ({ ...filter }))
+      })
+    };
+    this.options = options;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl, collection, options } = this;
+    const query = collection.query;
+    const isNew = !options.collections.some(item => item.id === collection.id);
+    this.titleEl.setText(isNew ? '新建收藏集' : `编辑收藏集“${collection.name}”`);
+    contentEl.addClass('collection-edit-modal');
+
+    new Setting(contentEl)
+      .setName('名称')
+      .addText(text => text
+        .setValue(collection.name)
+        .onChange(value => collection.name = value.trim()));
+
+    // 上级收藏集不能是自身或自身的下级
+    const excluded = SmartCollections.getDescendantIds(collection.id, options.collections).add(collection.id);
+    new Setting(contentEl)
+      .setName('上级收藏集')
+      .setDesc('子收藏集只包含同时满足上级收藏集条件的媒体')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', '（无）');
+        for (const item of options.collections) {
+          if (!excluded.has(item.id)) dropdown.addOption(item.id, item.name);
+        }
+        dropdown
+          .setValue(collection.parentId || '')
+          .onChange(value => {
+            collection.parentId = value || undefined;
+            this.updateCount();
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('固定到侧边栏')
+      .setDesc('固定的收藏集显示在图库侧边栏顶部')
+      .addToggle(toggle => toggle
+        .setValue(collection.pinned === true)
+        .onChange(value => collection.pinned = value || undefined));
+
+    new Setting(contentEl).setName('条件').setHeading();
+
+    this.addTagSetting('包含全部标签', '同时带有这些标签（含子标签）', query.allTags, tags => query.allTags = tags);
+    this.addTagSetting('包含任一标签', '至少带有其中一个标签（含子标签）', query.anyTags, tags => query.anyTags = tags);
+    this.addTagSetting('排除标签', '不带有这些标签（含子标签）', query.excludeTags, tags => query.excludeTags = tags);
+
+    const typeSetting = new Setting(contentEl)
+      .setName('媒体类型')
+      .setDesc('都不勾选时不限');
+    for (const type of Object.keys(MEDIA_TYPE_NAMES) as MediaData['type'][]) {
+      const label = typeSetting.controlEl.createEl('label', { cls: 'collection-type-option' });
+      const checkbox = label.createEl('input', { type: 'checkbox' });
+      checkbox.checked = query.types.includes(type);
+      label.appendText(MEDIA_TYPE_NAMES[type]);
+      checkbox.addEventListener('change', () => {
+        query.types = checkbox.checked ? [...query.types, type] : query.types.filter(item => item !== type);
+        this.updateCount();
+      });
+    }
+
+    new Setting(contentEl)
+      .setName('格式')
+      .setDesc('文件扩展名，用逗号分隔，例如 jpg, png')
+      .addText(text => text
+        .setValue(query.formats.join(', ').toLowerCase())
+        .onChange(value => {
+          query.formats = value.split(',').map(format => format.trim().replace(/^\./, '').toUpperCase()).filter(format => format.length > 0);
+          this.updateCount();
+        }));
+
+    new Setting(contentEl)
+      .setName('文件夹')
+      .setDesc('只包含该文件夹（含子文件夹）中的媒体')
+      .addText(text => text
+        .setPlaceholder('例如 Attachments/Photos')
+        .setValue(query.folder)
+        .onChange(value => {
+          query.folder = value.trim().replace(/^\/+|\/+$/g, '');
+          this.updateCount();
+        }));
+
+    const dateSetting = new Setting(contentEl)
+      .setName('添加日期')
+      .setDesc('按媒体加入库的日期筛选，留空表示不限');
+    const dateFrom = dateSetting.controlEl.createEl('input', { type: 'date', value: query.dateFrom });
+    dateSetting.controlEl.createSpan({ text: '~' });
+    const dateTo = dateSetting.controlEl.createEl('input', { type: 'date', value: query.dateTo });
+    dateFrom.addEventListener('input', () => {
+      query.dateFrom = dateFrom.value;
+      this.updateCount();
+    });
+    dateTo.addEventListener('input', () => {
+      query.dateTo = dateTo.value;
+      this.updateCount();
+    });
+
+    if (options.fieldDefinitions.length > 0) {
+      const fieldsSetting = new Setting(contentEl)
+        .setName('自定义字段')
+        .setDesc('每个条件都需满足');
+      const fieldsContainer = contentEl.createDiv({ cls: 'collection-field-conditions' });
+      this.renderFieldConditions(fieldsContainer);
+      fieldsSetting.addButton(button => button
+        .setButtonText('添加条件')
+        .onClick(() => {
+          query.fields.push({ key: options.fieldDefinitions[0].key, value: '', min: '', max: '' });
+          this.renderFieldConditions(fieldsContainer);
+          this.updateCount();
+        }));
+    }
+
+    const footer = new Setting(contentEl);
+    this.countEl = footer.infoEl.createDiv({ cls: 'collection-match-count' });
+    this.updateCount();
+    footer
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('保存')
+        .setCta()
+        .onClick(() => {
+          if (!collection.name) {
+            this.countEl.setText('请输入收藏集名称');
+            return;
+          }
+          this.close();
+          this.onSubmit(collection);
+        }));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  // 标签列表输入框：逗号分隔，按层级自动补全，别名转换为标准标签
+  private addTagSetting(name: string, desc: string, tags: string[], onChange: (tags: string[]) => void) {
+    new Setting(this.contentEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text => {
+        text
+          .setPlaceholder('用逗号分隔')
+          .setValue(tags.join(', '))
+          .onChange(value => {
+            onChange(value.split(',').map(tag => this.options.resolveTag(tag)).filter(tag => tag.length > 0));
+            this.updateCount();
+          });
+        TagHierarchy.attachAutocomplete(text.inputEl, text.inputEl.parentElement!, this.options.getTags, true);
+      });
+  }
+
+  private renderFieldConditions(container: HTMLElement) {
+    container.empty();
+    const { query } = this.collection;
+    const definitions = this.options.fieldDefinitions;
+
+    query.fields.forEach((filter, index) => {
+      const row = container.createDiv({ cls: 'collection-field-condition' });
+      const select = row.createEl('select', { cls: 'dropdown' });
+      for (const definition of definitions) {
+        select.createEl('option', { value: definition.key, text: definition.name });
+      }
+      select.value = filter.key;
+      select.addEventListener('change', () => {
+        query.fields[index] = { key: select.value, value: '', min: '', max: '' };
+        this.renderFieldConditions(container);
+        this.updateCount();
+      });
+
+      const definition = definitions.find(item => item.key === filter.key);
+      if (definition) {
+        CustomFields.renderFilterInput(row.createDiv({ cls: 'field-filter-value' }), definition, filter, () => this.updateCount());
+      }
+
+      const removeButton = row.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': '删除条件' } });
+      setIcon(removeButton, 'trash');
+      removeButton.addEventListener('click', () => {
+        query.fields.splice(index, 1);
+        this.renderFieldConditions(container);
+        this.updateCount();
+      });
+    });
+  }
+
+  private updateCount() {
+    if (!this.countEl) return;
+    const collections = [
+      ...this.options.collections.filter(item => item.id !== this.collection.id),
+      this.collection
+    ];
+    this.countEl.setText(`当前匹配 ${this.options.countMatches(this.collection, collections)} 条记录`);
+  }
+}
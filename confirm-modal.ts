@@ -0,0 +1,48 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export interface ConfirmModalOptions {
+  title: string;
+  message: string;
+  confirmText: string;
+  warning?: boolean;    // 确认按钮使用警告样式（删除、覆盖数据等）
+}
+
+/**
+ * 确认对话框
+ * 代替浏览器的 confirm()，不阻塞界面；只有点击确认按钮时才调用 onConfirm
+ */
+export class ConfirmModal extends Modal {
+  private options: ConfirmModalOptions;
+  private onConfirm: () => void;
+
+  constructor(app: App, options: ConfirmModalOptions, onConfirm: () => void) {
+    super(app);
+    this.options = options;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl, options } = this;
+    this.titleEl.setText(options.title);
+    contentEl.addClass('confirm-modal');
+    contentEl.createEl('p', { text: options.message });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => {
+        button
+          .setButtonText(options.confirmText)
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          });
+        if (options.warning) button.setWarning(); else button.setCta();
+      });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -5,11 +5,56 @@
 // 视图类型常量
 export const GALLERY_VIEW_TYPE = 'image-gallery-view';
 export const IMAGE_INFO_VIEW_TYPE = 'image-info-view';
+export const TAG_MANAGER_VIEW_TYPE = 'tag-manager-view';
+export const ALBUM_VIEW_TYPE = 'media-album-view';
 
 // 缓存相关常量
 export const CACHE_EXPIRY_TIME = 30 * 60 * 1000; // 30分钟
 export const MAX_RECENT_TAGS = 20;
 export const MAX_CONCURRENT_PRELOAD = 5;
+export const MAX_PATCHED_CARDS = 200; // 图库一次最多逐个更新的卡片数，超过时整体重新渲染
+export const GALLERY_MIN_CARD_WIDTH = 200; // 图库卡片的最小宽度（与 .gallery-grid 的 minmax() 一致）
+export const GALLERY_GRID_GAP = 15; // 图库卡片间距（与 .gallery-grid 的 gap 一致）
+export const GALLERY_OVERSCAN_ROWS = 3; // 图库可见区域上下额外挂载的行数
+export const SEARCH_INPUT_DELAY = 250; // 停止输入多久后按搜索框内容重新筛选
+export const MAX_UNDO_STEPS = 100; // 可撤销的编辑步数
+export const UNDO_NOTICE_DURATION = 8000; // 批量操作后“撤销”提示的显示时间
+export const MAX_RATING = 5; // 星级评分的最高星数
+export const TAG_SUGGESTION_LIMIT = 8; // 标签自动补全最多显示的候选项数
+export const TAG_PREVIEW_LIMIT = 50; // 标签管理器中预览的媒体数量上限
+
+// 保存与备份相关常量
+export const SAVE_DEBOUNCE_DELAY = 1000; // 合并保存请求的等待时间
+export const BACKUP_MIN_INTERVAL = 10 * 60 * 1000; // 两次滚动备份的最小间隔（10分钟）
+export const DEFAULT_MAX_BACKUPS = 5;
+export const MAX_PRE_MIGRATION_BACKUPS = 3; // 保留的迁移前备份数量（与滚动备份分开计算）
+export const SIDECAR_SUFFIX = '.meta.json'; // 附属文件存储方式使用的文件后缀
+export const ALBUMS_SIDECAR_PATH = `media-albums${SIDECAR_SUFFIX}`; // 附属文件存储方式下保存相册和标签定义的文件（库根目录）
+export const EXTERNAL_CHANGE_POLL_INTERVAL = 3000; // 检查数据文件是否被外部修改（同步工具、其他设备）的间隔
+
+// 缩略图相关常量
+export const THUMBNAIL_CACHE_FOLDER = 'cache/thumbnails'; // 缩略图缓存文件夹（相对于插件目录）
+export const THUMBNAIL_INDEX_FILE = 'index.json'; // 缓存文件夹中记录来源和最近使用时间的索引
+export const THUMBNAIL_QUALITY = 0.85; // 缩略图的 WebP 编码质量
+export const THUMBNAIL_CONCURRENCY = 2; // 同时解码的图片数量
+export const THUMBNAIL_INDEX_SAVE_DELAY = 2000; // 合并写入缓存索引的等待时间
+export const DEFAULT_THUMBNAIL_SIZE = 400; // 卡片和列表缩略图的最长边（像素）
+export const DEFAULT_PANEL_THUMBNAIL_SIZE = 1024; // 媒体信息面板预览的最长边（像素）
+export const DEFAULT_THUMBNAIL_CACHE_LIMIT = 500; // 缩略图缓存的大小上限（MB）
+export const DEFAULT_VIDEO_POSTER_TIME = 1; // 截取视频封面的默认时间点（秒）
+export const VIDEO_SCRUB_FRAMES = 8; // 悬停在视频卡片上时可预览的帧数
+export const VIDEO_FRAME_TIMEOUT = 10000; // 等待视频加载或跳转到指定时间点的最长时间
+
+// 媒体笔记相关常量
+export const DEFAULT_MEDIA_NOTES_FOLDER = 'Media Notes';
+export const MEDIA_NOTE_ID_KEY = 'media-id'; // 媒体笔记属性中关联记录ID的键
+
+// 内容指纹相关常量
+export const FINGERPRINT_SAMPLE_SIZE = 64 * 1024; // 计算指纹时在文件头、中、尾各读取的字节数
+export const RELINK_GRACE_PERIOD = 5000; // 文件被删除后等待同内容文件出现的时间（外部移动表现为删除 + 创建）
+
+// 数据格式相关常量
+export const CURRENT_SCHEMA_VERSION = 7; // 1: 无 type 字段的数组, 2: 带 type 字段的数组, 3: 带版本信息的封装对象, 4: 统一的记录ID且每个路径只有一条记录, 5: 增加相册, 6: 增加标签定义, 7: 记录增加加入时间 addedAt
 
 // 默认设置相关常量
 export const DEFAULT_JSON_STORAGE_PATH = '.obsidian/image-tags.json';
@@ -18,9 +63,8 @@ export const DEFAULT_SUPPORTED_FORMATS = [
   'mp4', 'avi', 'mov', 'mkv', 'webm',
   'mp3', 'wav', 'flac', 'aac', 'ogg'
 ];
-export const DEFAULT_CATEGORIES = [
-  '全部媒体', '风景', '人物', '建筑', '美食', '植物', '动物', '艺术', '视频', '音频'
-];
+// 图库侧边栏中不按收藏集筛选时的名称
+export const ALL_MEDIA_LABEL = '全部媒体';
 
 // CSS 类名常量
 export const CSS_CLASSES = {
@@ -69,28 +113,17 @@ export const CSS_CLASSES = {
   IMAGE_TITLE: 'image-title',
   IMAGE_TAGS_PREVIEW: 'image-tags-preview',
   IMAGE_TAG: 'image-tag',
-  TAG_COLOR_BLUE: 'tag-color-blue',
-  TAG_COLOR_GREEN: 'tag-color-green',
-  TAG_COLOR_PURPLE: 'tag-color-purple',
-  TAG_COLOR_YELLOW: 'tag-color-yellow',
-  TAG_COLOR_RED: 'tag-color-red',
-  TAG_COLOR_PINK: 'tag-color-pink',
-  TAG_COLOR_INDIGO: 'tag-color-indigo',
-  TAG_COLOR_TEAL: 'tag-color-teal',
   TAG_MORE: 'tag-more',
   IMAGE_INFO_BAR: 'image-info-bar',
   FILE_PATH_LINK: 'file-path-link',
   IMAGE_PATH_LINK: 'image-path-link',
   
-  // 分类和标签
-  GALLERY_CATEGORIES: 'gallery-categories',
+  // 收藏集和标签
+  GALLERY_COLLECTIONS: 'gallery-collections',
   GALLERY_TAGS: 'gallery-tags',
-  CATEGORIES_LIST: 'categories-list',
-  CATEGORY_ITEM: 'category-item',
-  DELETE_CATEGORY_BTN: 'delete-category-btn',
-  ADD_CATEGORY_CONTAINER: 'add-category-container',
-  ADD_CATEGORY_INPUT: 'add-category-input',
-  ADD_CATEGORY_BTN: 'add-category-btn',
+  COLLECTIONS_LIST: 'collections-list',
+  COLLECTION_ITEM: 'collection-item',
+  COLLECTION_COUNT: 'collection-count',
   TAGS_CLOUD: 'tags-cloud',
   POPULAR_TAG_ITEM: 'popular-tag-item',
   SELECTED_TAGS_CONTAINER: 'selected-tags-container',
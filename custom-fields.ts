@@ -0,0 +1,270 @@
+/**
+ * 自定义字段
+ * 按设置中的字段定义渲染编辑控件、格式化显示，并提供图库筛选和排序使用的规则
+ */
+import { MediaData, CustomFieldDefinition, CustomFieldType, CustomFieldValue } from './image-data-model';
+
+// 字段类型的显示名称
+export const CUSTOM_FIELD_TYPE_NAMES: Record<CustomFieldType, string> = {
+  'text': '文本',
+  'number': '数字',
+  'date': '日期',
+  'url': '链接',
+  'select': '单选',
+  'multi-select': '多选',
+  'boolean': '是/否'
+};
+
+// 图库中按自定义字段筛选的条件
+export interface CustomFieldFilter {
+  key: string;
+  value: string;   // 文本/链接：包含的文字；单选/多选：选项；是/否：'true' 或 'false'；为空表示“有值”
+  min: string;     // 数字/日期的下限（含），为空表示不限
+  max: string;     // 数字/日期的上限（含），为空表示不限
+}
+
+export class CustomFields {
+  /**
+   * 读取记录中字段的值，值的类型与字段定义不符（例如修改了字段类型）时返回 undefined
+   */
+  static getValue(record: MediaData, definition: CustomFieldDefinition): CustomFieldValue | undefined {
+    const value = record.fields?.[definition.key];
+    if (value === undefined) return undefined;
+
+    switch (definition.type) {
+      case 'number':
+        return typeof value === 'number' ? value : undefined;
+      case 'boolean':
+        return typeof value === 'boolean' ? value : undefined;
+      case 'multi-select':
+        return Array.isArray(value) ? value : (typeof value === 'string' ? [value] : undefined);
+      default:
+        return typeof value === 'string' ? value : undefined;
+    }
+  }
+
+  /**
+   * 写入字段的值，空值会从记录中删除
+   */
+  static setValue(record: MediaData, key: string, value: CustomFieldValue | undefined) {
+    const fields = { ...(record.fields || {}) };
+    if (CustomFields.isEmpty(value)) {
+      delete fields[key];
+    } else {
+      fields[key] = value!;
+    }
+
+    if (Object.keys(fields).length > 0) {
+      record.fields = fields;
+    } else {
+      delete record.fields;
+    }
+  }
+
+  static isEmpty(value: CustomFieldValue | undefined): boolean {
+    return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  /**
+   * 显示用的文字
+   */
+  static format(definition: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+    if (CustomFields.isEmpty(value)) return '';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? '是' : '否';
+    return String(value);
+  }
+
+  /**
+   * 在容器中渲染字段的编辑控件
+   * @param onChange - 值变化时调用，清空时传入 undefined
+   */
+  static renderEditor(
+    container: HTMLElement,
+    definition: CustomFieldDefinition,
+    value: CustomFieldValue | undefined,
+    onChange: (value: CustomFieldValue | undefined) => void
+  ) {
+    switch (definition.type) {
+      case 'number': {
+        const input = container.createEl('input', {
+          type: 'number',
+          cls: 'custom-field-input',
+          value: typeof value === 'number' ? String(value) : ''
+        });
+        input.addEventListener('input', () => {
+          const number = parseFloat(input.value);
+          onChange(isNaN(number) ? undefined : number);
+        });
+        break;
+      }
+      case 'date':
+      case 'text':
+      case 'url': {
+        const input = container.createEl('input', {
+          type: definition.type === 'text' ? 'text' : definition.type,
+          cls: 'custom-field-input',
+          value: typeof value === 'string' ? value : ''
+        });
+        input.addEventListener('input', () => onChange(input.value.trim() || undefined));
+        break;
+      }
+      case 'select': {
+        const select = container.createEl('select', { cls: 'custom-field-input dropdown' });
+        select.createEl('option', { value: '', text: '（未设置）' });
+        for (const option of CustomFields.getOptions(definition, value)) {
+          select.createEl('option', { value: option, text: option });
+        }
+        select.value = typeof value === 'string' ? value : '';
+        select.addEventListener('change', () => onChange(select.value || undefined));
+        break;
+      }
+      case 'multi-select': {
+        const selected = new Set(Array.isArray(value) ? value : []);
+        const list = container.createDiv({ cls: 'custom-field-options' });
+        for (const option of CustomFields.getOptions(definition, value)) {
+          const label = list.createEl('label', { cls: 'custom-field-option' });
+          const checkbox = label.createEl('input', { type: 'checkbox' });
+          checkbox.checked = selected.has(option);
+          label.appendText(option);
+          checkbox.addEventListener('change', () => {
+            if (checkbox.checked) {
+              selected.add(option);
+            } else {
+              selected.delete(option);
+            }
+            onChange(Array.from(selected));
+          });
+        }
+        break;
+      }
+      case 'boolean': {
+        const checkbox = container.createEl('input', { type: 'checkbox', cls: 'custom-field-input' });
+        checkbox.checked = value === true;
+        checkbox.addEventListener('change', () => onChange(checkbox.checked));
+        break;
+      }
+    }
+  }
+
+  /**
+   * 按字段类型渲染筛选条件的输入控件，直接修改传入的条件
+   * @param onChange - 条件变化时调用
+   */
+  static renderFilterInput(container: HTMLElement, definition: CustomFieldDefinition, filter: CustomFieldFilter, onChange: () => void) {
+    switch (definition.type) {
+      case 'number':
+      case 'date': {
+        const minInput = container.createEl('input', { type: definition.type, cls: 'field-filter-input', placeholder: '最小', value: filter.min });
+        const maxInput = container.createEl('input', { type: definition.type, cls: 'field-filter-input', placeholder: '最大', value: filter.max });
+        minInput.addEventListener('input', () => {
+          filter.min = minInput.value;
+          onChange();
+        });
+        maxInput.addEventListener('input', () => {
+          filter.max = maxInput.value;
+          onChange();
+        });
+        break;
+      }
+      case 'select':
+      case 'multi-select':
+      case 'boolean': {
+        const select = container.createEl('select', { cls: 'field-filter-input dropdown' });
+        select.createEl('option', { value: '', text: '有值' });
+        const options = definition.type === 'boolean'
+          ? [['true', '是'], ['false', '否']]
+          : (definition.options || []).map(option => [option, option]);
+        for (const [value, text] of options) {
+          select.createEl('option', { value, text });
+        }
+        select.value = filter.value;
+        select.addEventListener('change', () => {
+          filter.value = select.value;
+          onChange();
+        });
+        break;
+      }
+      default: {
+        const input = container.createEl('input', { type: 'text', cls: 'field-filter-input', placeholder: '包含...', value: filter.value });
+        input.addEventListener('input', () => {
+          filter.value = input.value;
+          onChange();
+        });
+      }
+    }
+  }
+
+  /**
+   * 按字段比较两条记录，未设置值的记录总是排在最后
+   * 数字和日期从大到小（最新在前），其余按文字顺序
+   */
+  static compare(definition: CustomFieldDefinition, a: MediaData, b: MediaData): number {
+    const valueA = CustomFields.getValue(a, definition);
+    const valueB = CustomFields.getValue(b, definition);
+    const emptyA = CustomFields.isEmpty(valueA);
+    const emptyB = CustomFields.isEmpty(valueB);
+    if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+
+    switch (definition.type) {
+      case 'number':
+        return (valueB as number) - (valueA as number);
+      case 'date':
+        return (valueB as string).localeCompare(valueA as string);
+      case 'boolean':
+        return Number(valueB) - Number(valueA);
+      default:
+        return CustomFields.format(definition, valueA).localeCompare(CustomFields.format(definition, valueB));
+    }
+  }
+
+  /**
+   * 记录是否满足筛选条件
+   */
+  static matches(definition: CustomFieldDefinition, record: MediaData, filter: CustomFieldFilter): boolean {
+    const value = CustomFields.getValue(record, definition);
+
+    switch (definition.type) {
+      case 'number':
+      case 'date': {
+        if (CustomFields.isEmpty(value)) return false;
+        const parse = (text: string) => definition.type === 'number' ? parseFloat(text) : text;
+        if (filter.min && value! < parse(filter.min)) return false;
+        if (filter.max && value! > parse(filter.max)) return false;
+        return true;
+      }
+      case 'boolean':
+        if (!filter.value) return value !== undefined;
+        return (value === true) === (filter.value === 'true');
+      case 'multi-select':
+        if (!filter.value) return !CustomFields.isEmpty(value);
+        return Array.isArray(value) && value.includes(filter.value);
+      default:
+        if (!filter.value) return !CustomFields.isEmpty(value);
+        return typeof value === 'string' && value.toLowerCase().includes(filter.value.toLowerCase());
+    }
+  }
+
+  /**
+   * 为新字段生成随机的键
+   * 删除字段后记录中仍保留旧值，按序号生成的键可能与已删除字段相同，使旧值出现在新字段中
+   */
+  static createKey(existing: CustomFieldDefinition[]): string {
+    const keys = new Set(existing.map(field => field.key));
+    let key: string;
+    do {
+      key = `field_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+    } while (keys.has(key));
+    return key;
+  }
+
+  // 可选值：字段定义中的选项，加上记录中已有但已从定义中移除的值（避免编辑时丢失）
+  private static getOptions(definition: CustomFieldDefinition, value: CustomFieldValue | undefined): string[] {
+    const options = [...(definition.options || [])];
+    const current = Array.isArray(value) ? value : (typeof value === 'string' ? [value] : []);
+    for (const item of current) {
+      if (item && !options.includes(item)) options.push(item);
+    }
+    return options;
+  }
+}
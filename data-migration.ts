@@ -1,7 +1,10 @@
-import { MediaData } from './image-data-model';
+import { MediaData, LibraryMetadata, MediaLibraryEnvelope } from './image-data-model';
 import { getMediaType } from './image-data-model';
 import { TFile, App } from 'obsidian';
 import { Logger } from './logger';
+import { ImageTaggingError } from './error-handler';
+import { CURRENT_SCHEMA_VERSION } from './constants';
+import { MediaRecordFactory } from './media-record-factory';
 
 /**
  * 数据迁移接口 - 用于处理旧版本数据格式
@@ -24,6 +27,89 @@ export interface LegacyImageData {
   // 注意：旧版本没有 'type' 字段
 }
 
+/**
+ * 单个版本升级步骤
+ * 每个迁移器只负责从 from 升级到 from + 1，由 runMigrations 依次执行
+ */
+export interface DataMigrator {
+  from: number;
+  to: number;
+  description: string;
+  migrate(data: any): any;
+}
+
+/**
+ * 迁移结果
+ */
+export interface MigrationResult {
+  envelope: MediaLibraryEnvelope;
+  fromVersion: number;   // 文件原始的数据格式版本
+  migrated: boolean;     // 是否执行了升级
+}
+
+/**
+ * 按版本顺序排列的迁移器注册表
+ * 新增数据格式时，在末尾追加一个迁移器并提升 CURRENT_SCHEMA_VERSION
+ */
+const MIGRATORS: DataMigrator[] = [
+  {
+    from: 1,
+    to: 2,
+    description: '为缺少 type 字段的记录补充媒体类型',
+    migrate: (data: LegacyImageData[]) => DataMigration.migrateFromLegacy(data)
+  },
+  {
+    from: 2,
+    to: 3,
+    description: '将记录数组封装为带版本信息的对象',
+    migrate: (data: MediaData[]): MediaLibraryEnvelope => ({
+      schemaVersion: 3,
+      library: DataMigration.createLibraryMetadata(),
+      items: data
+    })
+  },
+  {
+    from: 3,
+    to: 4,
+    description: '统一记录ID格式并合并指向同一文件的重复记录',
+    migrate: (envelope: MediaLibraryEnvelope): MediaLibraryEnvelope => ({
+      ...envelope,
+      schemaVersion: 4,
+      items: DataMigration.normalizeRecordIds(envelope.items)
+    })
+  },
+  {
+    from: 4,
+    to: 5,
+    description: '增加相册列表',
+    migrate: (envelope: MediaLibraryEnvelope): MediaLibraryEnvelope => ({
+      ...envelope,
+      schemaVersion: 5,
+      albums: []
+    })
+  },
+  {
+    from: 5,
+    to: 6,
+    description: '增加标签定义（别名、颜色、图标和说明）',
+    migrate: (envelope: MediaLibraryEnvelope): MediaLibraryEnvelope => ({
+      ...envelope,
+      schemaVersion: 6,
+      tagDefinitions: []
+    })
+  },
+  {
+    from: 6,
+    to: 7,
+    description: '为记录补充加入媒体库的时间（此前 date 在每次编辑后更新，用其当前值近似）',
+    migrate: (envelope: MediaLibraryEnvelope): MediaLibraryEnvelope => ({
+      ...envelope,
+      schemaVersion: 7,
+      items: envelope.items.map(item => item.addedAt ? item : { ...item, addedAt: item.date })
+    })
+  }
+];
+
 /**
  * 数据迁移工具类
  * 用于将旧版本的数据格式迁移到新版本
@@ -31,16 +117,80 @@ export interface LegacyImageData {
 export class DataMigration {
   /**
    * 检查数据是否为旧版本格式
-   * 通过检查是否存在 'type' 字段来判断
+   * 旧版本数组中的记录没有 'type' 字段，只要有一条缺失即视为旧格式
    */
   static isLegacyFormat(data: any[]): boolean {
     if (!Array.isArray(data) || data.length === 0) {
       return false;
     }
-    
-    // 检查第一个元素是否有 'type' 字段
-    const firstItem = data[0];
-    return !firstItem.hasOwnProperty('type');
+
+    return data.some(item => typeof item === 'object' && item !== null && !item.hasOwnProperty('type'));
+  }
+
+  /**
+   * 检测已解析数据的格式版本
+   * 封装对象直接读取 schemaVersion；未封装的数组根据 type 字段区分版本 1 和 2
+   */
+  static detectSchemaVersion(parsed: unknown): number {
+    if (Array.isArray(parsed)) {
+      return this.isLegacyFormat(parsed) ? 1 : 2;
+    }
+
+    if (typeof parsed === 'object' && parsed !== null) {
+      const version = (parsed as Record<string, unknown>).schemaVersion;
+      if (typeof version === 'number' && Number.isInteger(version) && version > 0) {
+        return version;
+      }
+    }
+
+    throw new ImageTaggingError('无法识别的数据文件格式', 'UNKNOWN_SCHEMA', parsed);
+  }
+
+  /**
+   * 获取已注册的迁移器（按版本顺序）
+   */
+  static getMigrators(): DataMigrator[] {
+    return [...MIGRATORS];
+  }
+
+  /**
+   * 从指定版本开始依次执行迁移器，直到当前版本
+   * @param data 已解析的原始数据
+   * @param fromVersion 数据的当前版本
+   * @returns 当前版本格式的数据
+   */
+  static runMigrations(data: any, fromVersion: number): MediaLibraryEnvelope {
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      throw new ImageTaggingError(
+        `数据文件版本 (v${fromVersion}) 高于当前插件支持的版本 (v${CURRENT_SCHEMA_VERSION})，请升级插件`,
+        'SCHEMA_TOO_NEW',
+        { fromVersion, currentVersion: CURRENT_SCHEMA_VERSION }
+      );
+    }
+
+    let current = data;
+    for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+      const migrator = MIGRATORS.find(m => m.from === version);
+      if (!migrator) {
+        throw new ImageTaggingError(`缺少从 v${version} 升级的迁移器`, 'MIGRATOR_MISSING', { version });
+      }
+
+      Logger.info(`执行数据迁移 v${migrator.from} -> v${migrator.to}: ${migrator.description}`);
+      current = migrator.migrate(current);
+    }
+
+    return current as MediaLibraryEnvelope;
+  }
+
+  /**
+   * 创建新的媒体库元数据
+   */
+  static createLibraryMetadata(): LibraryMetadata {
+    const now = new Date().toISOString();
+    return {
+      createdAt: now,
+      updatedAt: now
+    };
   }
 
   /**
@@ -50,12 +200,17 @@ export class DataMigration {
    */
   static migrateFromLegacy(legacyData: LegacyImageData[]): MediaData[] {
     Logger.info(`开始迁移 ${legacyData.length} 条旧版本数据记录`);
-    
+
     const migratedData: MediaData[] = legacyData.map(item => {
+      // 已经带有 type 字段的记录保持不变
+      if ((item as Partial<MediaData>).type) {
+        return item as MediaData;
+      }
+
       // 根据文件扩展名确定媒体类型
       const pathParts = item.path.split('.');
       const extension = pathParts.length > 0 ? pathParts[pathParts.length - 1].toLowerCase() : '';
-      
+
       // 使用 getMediaType 函数确定媒体类型
       let mediaType: 'image' | 'video' | 'audio' = 'image'; // 默认为图片
       if (extension) {
@@ -63,52 +218,139 @@ export class DataMigration {
         const tempFile = {
           extension: extension
         } as TFile;
-        
+
         const detectedType = getMediaType(tempFile);
         if (detectedType) {
           mediaType = detectedType;
         }
       }
-      
+
       // 创建新版本的数据对象，添加缺失的 'type' 字段
       const newData: MediaData = {
         ...item,  // 复制所有旧数据字段
         type: mediaType  // 添加新的媒体类型字段
       };
-      
+
       return newData;
     });
-    
+
     Logger.info(`完成迁移，转换了 ${migratedData.length} 条数据记录`);
     return migratedData;
   }
 
   /**
-   * 尝试从 JSON 字符串加载数据，自动检测并处理旧版本格式
-   * @param jsonData JSON 数据字符串
-   * @returns 解析后的 MediaData 数组
+   * 将旧格式的ID（`media_<时间>_<路径>` 或随机短串）替换为稳定ID，并合并指向同一路径的记录
+   * 合并时以最近修改的记录为准，标签取并集，空的标题、描述和指纹由其他记录补全
+   * @param items 原始记录
+   * @returns 每个路径只保留一条记录的新数组
    */
-  static loadDataWithMigration(jsonData: string): MediaData[] {
-    try {
-      const parsed = JSON.parse(jsonData);
-      
-      if (!Array.isArray(parsed)) {
-        Logger.error('解析的数据不是数组格式');
-        return [];
+  static normalizeRecordIds(items: MediaData[]): MediaData[] {
+    const byPath = new Map<string, MediaData[]>();
+    for (const item of items) {
+      const group = byPath.get(item.path);
+      if (group) {
+        group.push(item);
+      } else {
+        byPath.set(item.path, [item]);
+      }
+    }
+
+    let rewritten = 0;
+    let merged = 0;
+    const result: MediaData[] = [];
+
+    for (const group of byPath.values()) {
+      const sorted = [...group].sort((a, b) => (Date.parse(b.date) || 0) - (Date.parse(a.date) || 0));
+      const record: MediaData = { ...sorted[0], tags: [...(sorted[0].tags || [])] };
+
+      for (const other of sorted.slice(1)) {
+        for (const tag of other.tags || []) {
+          if (!record.tags.includes(tag)) record.tags.push(tag);
+        }
+        if (!record.title && other.title) record.title = other.title;
+        if (!record.description && other.description) record.description = other.description;
+        if (!record.fingerprint && other.fingerprint) record.fingerprint = other.fingerprint;
       }
-      
-      if (this.isLegacyFormat(parsed)) {
-        Logger.info('检测到旧版本数据格式，开始迁移...');
-        const legacyData = parsed as LegacyImageData[];
-        return this.migrateFromLegacy(legacyData);
+      merged += group.length - 1;
+
+      // 组内已有稳定ID时沿用，保持媒体笔记等外部引用有效
+      const stable = sorted.find(item => MediaRecordFactory.isStableId(item.id));
+      if (stable) {
+        record.id = stable.id;
       } else {
-        // 如果是新版本格式，直接返回
-        return parsed as MediaData[];
+        record.id = MediaRecordFactory.generateId();
+        rewritten++;
       }
+
+      result.push(record);
+    }
+
+    Logger.info(`记录ID迁移完成：重写了 ${rewritten} 个ID，合并了 ${merged} 条重复记录`);
+    return result;
+  }
+
+  /**
+   * 解析数据文件内容，检测版本并执行必要的迁移
+   * @param jsonData JSON 数据字符串
+   * @returns 迁移结果（当前版本的封装对象以及原始版本）
+   */
+  static parseLibrary(jsonData: string): MigrationResult {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(jsonData);
     } catch (error) {
       Logger.error('解析 JSON 数据失败:', error);
       throw error;
     }
+
+    const fromVersion = this.detectSchemaVersion(parsed);
+    if (fromVersion !== CURRENT_SCHEMA_VERSION) {
+      Logger.info(`检测到 v${fromVersion} 数据格式，开始迁移到 v${CURRENT_SCHEMA_VERSION}...`);
+    }
+
+    const envelope = this.runMigrations(parsed, fromVersion);
+    if (!Array.isArray(envelope.items)) {
+      throw new ImageTaggingError('数据文件缺少 items 数组', 'INVALID_ENVELOPE', envelope);
+    }
+
+    return {
+      envelope: {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        library: { ...this.createLibraryMetadata(), ...envelope.library },
+        items: envelope.items,
+        albums: Array.isArray(envelope.albums) ? envelope.albums : [],
+        tagDefinitions: Array.isArray(envelope.tagDefinitions) ? envelope.tagDefinitions : []
+      },
+      fromVersion,
+      migrated: fromVersion !== CURRENT_SCHEMA_VERSION
+    };
+  }
+
+  /**
+   * 尝试从 JSON 字符串加载数据，自动检测并处理旧版本格式
+   * @param jsonData JSON 数据字符串
+   * @returns 解析后的 MediaData 数组
+   */
+  static loadDataWithMigration(jsonData: string): MediaData[] {
+    return this.parseLibrary(jsonData).envelope.items;
+  }
+
+  /**
+   * 在升级数据文件前写入一份原始内容的备份
+   * 备份文件名包含原始版本号，便于之后重新执行迁移
+   * @param filePath 数据文件路径
+   * @param jsonData 原始文件内容
+   * @param fromVersion 原始数据格式版本
+   * @returns 备份文件路径
+   */
+  static async backupBeforeMigration(app: App, filePath: string, jsonData: string, fromVersion: number): Promise<string> {
+    const basePath = filePath.endsWith('.json') ? filePath.slice(0, -'.json'.length) : filePath;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${basePath}.pre-migration-v${fromVersion}-${timestamp}.json`;
+
+    await app.vault.adapter.write(backupPath, jsonData);
+    Logger.info(`已写入迁移前备份: ${backupPath}`);
+    return backupPath;
   }
 
   /**
@@ -127,23 +369,28 @@ export class DataMigration {
 
       // 读取旧版本数据
       const jsonData = await app.vault.adapter.read(oldFilePath);
-      
+
       // 解析并迁移数据
-      const migratedData = this.loadDataWithMigration(jsonData);
-      
+      const result = this.parseLibrary(jsonData);
+
       // 确定保存路径
       const savePath = newFilePath || oldFilePath;
-      
+
       // 确保目录存在
       const dirPath = savePath.substring(0, savePath.lastIndexOf('/'));
       if (dirPath && !(await app.vault.adapter.exists(dirPath))) {
         await app.vault.adapter.mkdir(dirPath);
       }
-      
+
+      // 覆盖原文件前先备份
+      if (result.migrated && savePath === oldFilePath) {
+        await this.backupBeforeMigration(app, oldFilePath, jsonData, result.fromVersion);
+      }
+
       // 保存迁移后的数据
-      const migratedJsonData = JSON.stringify(migratedData, null, 2);
+      const migratedJsonData = JSON.stringify(result.envelope, null, 2);
       await app.vault.adapter.write(savePath, migratedJsonData);
-      
+
       Logger.info(`数据迁移完成，已保存到: ${savePath}`);
       return true;
     } catch (error) {
@@ -151,4 +398,4 @@ export class DataMigration {
       return false;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,165 @@
+/**
+ * 元数据编辑历史
+ * 每次编辑保存受影响记录中可编辑元数据修改前后的快照，撤销/重做时写回当前记录
+ * 路径、文件信息和指纹不在快照中，撤销不会让重命名、移动或重新关联后的记录指回旧文件
+ * 重命名、合并标签等同时修改标签定义的操作，还会保存标签定义列表修改前后的副本
+ */
+import { MediaData, ImageDataManager, TagDefinition } from './image-data-model';
+import { Logger } from './logger';
+import { MAX_UNDO_STEPS } from './constants';
+
+// 用户可编辑的元数据
+export type EditableMetadata = Pick<MediaData, 'title' | 'tags' | 'description' | 'fields' | 'rating' | 'favorite'>;
+
+const EDITABLE_FIELDS: (keyof EditableMetadata)[] = ['title', 'tags', 'description', 'fields', 'rating', 'favorite'];
+
+// 记录ID -> 元数据副本
+export type MediaSnapshot = Map<string, EditableMetadata>;
+
+// 一次可撤销的编辑
+export interface EditOperation {
+  label: string;           // 显示给用户的操作名称，例如“批量添加标签”
+  before: MediaSnapshot;   // 修改前的元数据
+  after: MediaSnapshot;    // 修改后的元数据
+  tagDefinitions?: { before: TagDefinition[]; after: TagDefinition[] }; // 操作修改了标签定义时的前后列表
+}
+
+export class EditHistory {
+  private manager: ImageDataManager;
+  private undoStack: EditOperation[] = [];
+  private redoStack: EditOperation[] = [];
+
+  constructor(manager: ImageDataManager) {
+    this.manager = manager;
+    // 数据被整体替换（加载、恢复备份）后，历史中的快照已不再适用
+    manager.on('bulk', () => this.clear());
+  }
+
+  /**
+   * 复制指定记录当前的元数据，作为之后 push 的修改前状态
+   */
+  capture(ids: string[]): MediaSnapshot {
+    const snapshot: MediaSnapshot = new Map();
+    for (const id of ids) {
+      const mediaData = this.manager.getImageData(id);
+      if (mediaData) snapshot.set(id, EditHistory.pick(mediaData));
+    }
+    return snapshot;
+  }
+
+  // 复制当前的标签定义列表，作为之后 push 的修改前状态
+  captureTagDefinitions(): TagDefinition[] {
+    return JSON.parse(JSON.stringify(this.manager.getTagDefinitions()));
+  }
+
+  /**
+   * 以当前数据作为修改后状态记录一次编辑；没有实际变化时忽略
+   * @param tagDefinitionsBefore - 操作会修改标签定义时，修改前的标签定义列表
+   * @returns 是否记录了编辑
+   */
+  push(label: string, before: MediaSnapshot, tagDefinitionsBefore?: TagDefinition[]): boolean {
+    const after = this.capture(Array.from(before.keys()));
+    const changed = Array.from(before.keys()).filter(id =>
+      after.has(id) && JSON.stringify(before.get(id)) !== JSON.stringify(after.get(id))
+    );
+    let tagDefinitions: EditOperation['tagDefinitions'];
+    if (tagDefinitionsBefore) {
+      const tagDefinitionsAfter = this.captureTagDefinitions();
+      if (JSON.stringify(tagDefinitionsBefore) !== JSON.stringify(tagDefinitionsAfter)) {
+        tagDefinitions = { before: tagDefinitionsBefore, after: tagDefinitionsAfter };
+      }
+    }
+    if (changed.length === 0 && !tagDefinitions) return false;
+
+    this.undoStack.push({
+      label,
+      before: new Map(changed.map(id => [id, before.get(id)!])),
+      after: new Map(changed.map(id => [id, after.get(id)!])),
+      tagDefinitions
+    });
+    if (this.undoStack.length > MAX_UNDO_STEPS) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    return true;
+  }
+
+  /**
+   * 执行修改并记录为一次编辑
+   * @param ids - 会被修改的记录
+   * @param mutate - 修改记录（通过数据管理器写入）
+   * @param includeTagDefinitions - 操作是否会修改标签定义（撤销时一并恢复）
+   */
+  run(label: string, ids: string[], mutate: () => void, includeTagDefinitions: boolean = false): boolean {
+    const before = this.capture(ids);
+    const tagDefinitionsBefore = includeTagDefinitions ? this.captureTagDefinitions() : undefined;
+    mutate();
+    return this.push(label, before, tagDefinitionsBefore);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 撤销最近一次编辑
+   * @returns 被撤销的编辑，没有可撤销的编辑时返回 null
+   */
+  undo(): EditOperation | null {
+    const operation = this.undoStack.pop();
+    if (!operation) return null;
+    this.apply(operation.before, operation.tagDefinitions?.before);
+    this.redoStack.push(operation);
+    return operation;
+  }
+
+  /**
+   * 重做最近一次撤销的编辑
+   */
+  redo(): EditOperation | null {
+    const operation = this.redoStack.pop();
+    if (!operation) return null;
+    this.apply(operation.after, operation.tagDefinitions?.after);
+    this.undoStack.push(operation);
+    return operation;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  // 将快照中的元数据写回当前记录；已被删除的记录不会被恢复
+  private apply(snapshot: MediaSnapshot, tagDefinitions?: TagDefinition[]) {
+    if (tagDefinitions) {
+      this.manager.setTagDefinitions(tagDefinitions);
+    }
+    for (const [id, metadata] of snapshot) {
+      const current = this.manager.getImageData(id);
+      if (!current) {
+        Logger.debug(`记录已删除，跳过撤销/重做: ${id}`);
+        continue;
+      }
+      const record = { ...current } as MediaData;
+      for (const field of EDITABLE_FIELDS) {
+        delete record[field];
+      }
+      this.manager.addImageData({ ...record, ...EditHistory.pick(metadata as MediaData) });
+    }
+  }
+
+  // 复制可编辑的元数据，记录中没有的可选字段不出现在副本中
+  private static pick(mediaData: MediaData): EditableMetadata {
+    const metadata: Partial<EditableMetadata> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (mediaData[field] !== undefined) {
+        (metadata as Record<string, unknown>)[field] = JSON.parse(JSON.stringify(mediaData[field]));
+      }
+    }
+    return metadata as EditableMetadata;
+  }
+}
@@ -0,0 +1,61 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { GalleryView, GalleryViewState } from './gallery-view';
+
+/**
+ * 按指定状态打开图库的对话框
+ * 输入“复制当前图库状态”命令得到的 JSON，校验后以该状态打开新的图库标签页
+ */
+export class GalleryStateModal extends Modal {
+  private value: string;
+  private onSubmit: (state: GalleryViewState) => void;
+
+  constructor(app: App, value: string, onSubmit: (state: GalleryViewState) => void) {
+    super(app);
+    this.value = value;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText('按指定状态打开图库');
+    contentEl.addClass('gallery-state-modal');
+
+    contentEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: '可包含 query、collectionId、selectedTags、sort、favoritesOnly、minRating、scrollTop，缺少的字段使用默认值。'
+    });
+
+    const textarea = contentEl.createEl('textarea', {
+      cls: 'gallery-state-input',
+      attr: { rows: '10', placeholder: '{"query": "tag:旅行 type:video", "sort": {"key": "name", "direction": "asc"}}' }
+    });
+    textarea.value = this.value;
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('打开')
+        .setCta()
+        .onClick(() => this.submit(textarea.value)));
+
+    textarea.focus();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private submit(value: string) {
+    let state: GalleryViewState;
+    try {
+      state = GalleryView.normalizeState(value.trim() ? JSON.parse(value) : {});
+    } catch (error) {
+      new Notice(`图库状态无效：${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    this.close();
+    this.onSubmit(state);
+  }
+}
@@ -1,28 +1,52 @@
-import { ItemView, WorkspaceLeaf, Notice, TFile, App } from 'obsidian';
-import { MediaData, ImageTaggingSettings, ImageDataManager, getMediaType } from './image-data-model';
-import { getImageResolutionWithCache, getImageTaggingPlugin, getSafeImagePath, preloadImageInfo, getMediaDurationWithCache } from './utils';
+import { ItemView, WorkspaceLeaf, Notice, TFile, App, Scope, Menu, ViewStateResult, debounce, setIcon } from 'obsidian';
+import { MediaData, ImageTaggingSettings, ImageDataManager, CustomFieldDefinition, CustomFieldValue, SmartCollection } from './image-data-model';
+import { ImageTaggingPlugin, getSafeImagePath, preloadImageInfo } from './utils';
 import { Logger } from './logger';
-import { GALLERY_VIEW_TYPE, CSS_CLASSES } from './constants';
+import { MediaRecordFactory } from './media-record-factory';
+import { CustomFields, CustomFieldFilter } from './custom-fields';
+import { MediaRating } from './media-rating';
+import { TagHierarchy, TagTreeNode } from './tag-hierarchy';
+import { SmartCollections, CollectionTreeNode } from './smart-collections';
+import { CollectionEditModal } from './collection-edit-modal';
+import { ConfirmModal } from './confirm-modal';
+import { MediaQuery, ParsedQuery } from './media-query';
+import { MediaSort, SortSpec, SORT_KEYS } from './media-sort';
+import { VirtualGrid } from './virtual-grid';
+import { VideoPoster, VideoFrames } from './thumbnail-service';
+import { GALLERY_VIEW_TYPE, CSS_CLASSES, MAX_PATCHED_CARDS, UNDO_NOTICE_DURATION, MAX_RATING, ALL_MEDIA_LABEL, GALLERY_MIN_CARD_WIDTH, GALLERY_GRID_GAP, GALLERY_OVERSCAN_ROWS, SEARCH_INPUT_DELAY } from './constants';
+
+// 图库标签页保存到工作区布局的状态，也用于“按指定状态打开图库”命令
+export interface GalleryViewState {
+  query?: string;                 // 搜索框内容
+  collectionId?: string | null;   // 当前收藏集
+  selectedTags?: string[];        // 选中的标签（没有 query 时按这些标签生成搜索内容）
+  sort?: Partial<SortSpec>;
+  favoritesOnly?: boolean;
+  minRating?: number;
+  scrollTop?: number;             // 网格的滚动位置（像素）
+}
 
 // 图库视图类
 
 export class GalleryView extends ItemView {
 
+  plugin: ImageTaggingPlugin;
+
   settings: ImageTaggingSettings;
 
   imageDataManager: ImageDataManager;
 
-  currentFilter: string = '';
-
+  recordFactory: MediaRecordFactory;
 
-
-  currentCategory: string = '全部图片';
+  currentFilter: string = '';
+  private parsedQuery: ParsedQuery = MediaQuery.parse(''); // 当前搜索框内容的解析结果
+  private searchScores: Map<string, number> | null = null; // 搜索包含文字条件时各记录的相关度
+  private sort: SortSpec = MediaSort.createDefault(); // 排序设置，随标签页保存
 
 
 
-  categories: string[] = [];
+  currentCollectionId: string | null = null; // 当前选择的收藏集，null 表示全部媒体
 
-  
 
   selectedTags: string[] = []; // 存储当前选择的标签
 
@@ -30,18 +54,55 @@ export class GalleryView extends ItemView {
   
   lastSelectedImageId: string | null = null; // 存储最后选中的图片ID，用于Shift连续选择
 
+  private fieldFilter: CustomFieldFilter | null = null; // 当前的自定义字段筛选条件
+
+  private favoritesOnly = false; // 只显示收藏的媒体
+
+  private minRating = 0; // 只显示评分不低于此值的媒体（0 表示不限）
+
+  private expandedTags: Set<string> = new Set(); // 标签树中已展开的节点
+
+  private collectionCounts: Map<string, number> | null = null; // 各收藏集的记录数（收藏集或字段定义变化后重新计算）
+  private collectionMembers: Map<string, string[]> = new Map(); // 记录ID -> 所属收藏集ID，记录变化时据此增量更新计数
+
+  private fieldFilterEl: HTMLElement;
 
+  private gridContainer: HTMLElement;
 
-  constructor(leaf: WorkspaceLeaf, settings: ImageTaggingSettings, imageDataManager: ImageDataManager) {
+  private pendingScrollTop: number | null = null; // 待恢复的滚动位置（视图尚未显示时无法滚动）
+
+  private saveScrollState = debounce(() => this.app.workspace.requestSaveLayout(), 300);
+
+  private applySearchInput = debounce(() => this.applyViewChange(), SEARCH_INPUT_DELAY, true); // 输入停止后再重新筛选
+
+  private pendingChanges: Map<string, MediaData | null> = new Map(); // 待更新的记录（null 表示已删除）
+
+  private flushChanges = debounce(() => this.applyPendingChanges(), 50);
+
+
+
+  constructor(leaf: WorkspaceLeaf, plugin: ImageTaggingPlugin) {
 
     super(leaf);
 
-    this.settings = settings;
+    this.plugin = plugin;
 
-    this.imageDataManager = imageDataManager;
-    
-    // 从设置中加载分类导航
-    this.categories = [...(settings.categories || ['全部图片', '风景', '人物', '建筑', '美食', '植物', '动物', '艺术'])];
+    this.settings = plugin.settings;
+
+    this.imageDataManager = plugin.imageDataManager;
+
+    this.recordFactory = plugin.recordFactory;
+
+    // 图库处于活动状态时 Ctrl/Cmd+Z 撤销、Ctrl/Cmd+Shift+Z 重做（输入框内保留默认行为）
+    this.scope = new Scope(this.app.scope);
+    this.scope.register(['Mod'], 'z', () => this.handleShortcut(() => this.plugin.undoEdit()));
+    this.scope.register(['Mod', 'Shift'], 'z', () => this.handleShortcut(() => this.plugin.redoEdit()));
+
+    // 数字键 0-5 为选中的媒体评分，F 切换收藏
+    for (let rating = 0; rating <= MAX_RATING; rating++) {
+      this.scope.register(null, String(rating), () => this.handleShortcut(() => this.rateSelectedImages(rating)));
+    }
+    this.scope.register(null, 'f', () => this.handleShortcut(() => this.toggleSelectedFavorites()));
   }
 
   getViewType(): string {
@@ -59,11 +120,29 @@ export class GalleryView extends ItemView {
   async onOpen() {
     this.containerEl.empty();
     this.createView();
+
+    // 订阅数据变更，只更新受影响的卡片
+    this.registerEvent(this.imageDataManager.on('added', (records) => this.queueChanges(records, false)));
+    this.registerEvent(this.imageDataManager.on('updated', (records) => this.queueChanges(records, false)));
+    this.registerEvent(this.imageDataManager.on('removed', (records) => this.queueChanges(records, true)));
+    this.registerEvent(this.imageDataManager.on('bulk', () => {
+      this.pendingChanges.clear();
+      this.collectionCounts = null;
+      this.refreshData();
+    }));
+
     await this.refreshData();
   }
 
   async onClose() {
-    // 无需特殊处理
+    this.flushChanges.cancel();
+    this.grid?.destroy();
+    this.saveScrollState.cancel();
+    this.applySearchInput.cancel();
+  }
+
+  onResize() {
+    this.restoreScroll();
   }
 
   private createView() {
@@ -82,7 +161,7 @@ export class GalleryView extends ItemView {
 
       cls: 'gallery-search-input',
 
-      placeholder: '搜索媒体或标签...',
+      placeholder: '搜索媒体或标签，例如 tag:旅行 -tag:草稿 type:video width>1920',
 
       type: 'text'
 
@@ -100,15 +179,18 @@ export class GalleryView extends ItemView {
 
     // 为清除按钮添加点击事件
 
+    // 查询语法错误提示
+    header.createEl('div', { cls: 'gallery-search-error hidden' });
+
     clearButton.addEventListener('click', () => {
 
       searchInput.value = '';
 
-      this.currentFilter = '';
+      this.setSearchQuery(''); // 同时清空选中的标签
 
-      this.selectedTags = []; // 清空选中的标签
+      this.applySearchInput.cancel();
 
-      this.renderImages();
+      this.applyViewChange();
 
       this.updatePopularTags(); // 更新标签显示
 
@@ -120,90 +202,61 @@ export class GalleryView extends ItemView {
     // 左侧边栏
     const sidebar = contentContainer.createEl('div', { cls: 'gallery-sidebar' });
     
-    // 分类导航
-    const categoriesSection = sidebar.createEl('div', { cls: 'gallery-categories' });
-    categoriesSection.createEl('h4', { text: '分类导航' });
-    const categoriesList = categoriesSection.createEl('ul', { cls: 'categories-list' });
-    
-    // 添加分类项
-
-    this.categories.forEach((category, index) => {
-
-      const li = this.createCategoryElement(categoriesList, category, category === '全部图片');
-
-      li.addEventListener('click', () => {
-
-        this.currentCategory = category;
-
-        // 移除所有活动状态
-
-        categoriesList.querySelectorAll('.category-item').forEach(item => {
-
-          item.removeClass('active');
-
-        });
-
-        // 添加当前活动状态
-
-        li.addClass('active');
-
-        this.renderImages();
-
-      });
-
+    // 智能收藏集
+    const collectionsSection = sidebar.createEl('div', { cls: 'gallery-collections' });
+    const collectionsHeader = collectionsSection.createEl('div', { cls: 'gallery-collections-header' });
+    collectionsHeader.createEl('h4', { text: '收藏集' });
+    const addCollectionButton = collectionsHeader.createEl('button', {
+      cls: 'clickable-icon add-collection-btn',
+      attr: { 'aria-label': '新建收藏集（以当前选择的标签为条件）' }
     });
+    setIcon(addCollectionButton, 'plus');
+    addCollectionButton.addEventListener('click', () => this.createCollection());
+    collectionsSection.createEl('ul', { cls: 'collections-list' });
+    
+    // 热门标签 / 标签树
 
+    const tagsSection = sidebar.createEl('div', { cls: 'gallery-tags' });
 
+    const tagsHeader = tagsSection.createEl('div', { cls: 'gallery-tags-header' });
 
-    // 添加添加新分类的输入框和按钮
-
-    const addCategoryContainer = sidebar.createEl('div', { cls: 'add-category-container' });
-
-    const addCategoryInput = addCategoryContainer.createEl('input', {
-
-      cls: 'add-category-input',
-
-      type: 'text',
+    tagsHeader.createEl('h4', { cls: 'gallery-tags-title' });
 
-      placeholder: '添加新分类...'
+    const tagModeButton = tagsHeader.createEl('button', { cls: 'clickable-icon tag-display-mode-btn' });
 
-    });
+    tagModeButton.addEventListener('click', async () => {
 
-    const addCategoryBtn = addCategoryContainer.createEl('button', {
+      this.settings.tagDisplayMode = this.settings.tagDisplayMode === 'tree' ? 'cloud' : 'tree';
 
-      cls: 'add-category-btn',
+      await this.plugin.saveSettings();
 
-      text: '添加'
+      this.updatePopularTags();
 
     });
 
-
-
-    addCategoryBtn.addEventListener('click', () => {
-
-      this.addNewCategory(addCategoryInput, categoriesList);
-
+    const tagManagerButton = tagsHeader.createEl('button', {
+      cls: 'clickable-icon tag-manager-btn',
+      attr: { 'aria-label': '管理标签' }
     });
 
+    setIcon(tagManagerButton, 'settings-2');
 
+    tagManagerButton.addEventListener('click', () => this.plugin.openTagManager());
 
-    addCategoryInput.addEventListener('keypress', (e) => {
-
-      if (e.key === 'Enter') {
-
-        this.addNewCategory(addCategoryInput, categoriesList);
-
-      }
-
-    });
+    tagsSection.createEl('div', { cls: 'tags-cloud' });
     
-    // 热门标签
-
-    const tagsSection = sidebar.createEl('div', { cls: 'gallery-tags' });
-
-    tagsSection.createEl('h4', { text: '热门标签' });
-
-    const tagsContainer = tagsSection.createEl('div', { cls: 'tags-cloud' });
+    // 评分筛选
+    const ratingSection = sidebar.createEl('div', { cls: 'gallery-rating-filter' });
+    ratingSection.createEl('h4', { text: '评分筛选' });
+    const favoritesLabel = ratingSection.createEl('label', { cls: 'favorites-only-toggle' });
+    const favoritesCheckbox = favoritesLabel.createEl('input', { type: 'checkbox', cls: 'favorites-only-checkbox' });
+    favoritesLabel.appendText('仅显示收藏');
+    favoritesCheckbox.addEventListener('change', () => {
+      this.favoritesOnly = favoritesCheckbox.checked;
+      this.applyViewChange();
+    });
+    const minRatingContainer = ratingSection.createEl('div', { cls: 'min-rating-filter' });
+    this.renderMinRatingFilter(minRatingContainer);
     
     // 图片统计信息
     const statsSection = sidebar.createEl('div', { cls: 'gallery-stats' });
@@ -221,8 +274,8 @@ export class GalleryView extends ItemView {
     `;
     
     statsContainer.createEl('div', { cls: 'stat-item' }).innerHTML = `
-      <div class="stat-value" id="total-categories-stat">0</div>
-      <div class="stat-label">分类数</div>
+      <div class="stat-value" id="total-collections-stat">0</div>
+      <div class="stat-label">收藏集数</div>
     `;
     
     // 右侧主内容区
@@ -234,16 +287,18 @@ export class GalleryView extends ItemView {
     
     const toolbarControls = toolbar.createEl('div', { cls: 'toolbar-controls' });
     
-    // 排序下拉菜单
+    // 自定义字段筛选（控件在 renderFieldControls 中按字段定义生成）
+    this.fieldFilterEl = toolbarControls.createEl('div', { cls: 'field-filter-container' });
+    
+    // 排序：主排序键、方向、次要排序键，随机排序时可重新打乱（选项在 renderSortControls 中生成）
     const sortContainer = toolbarControls.createEl('div', { cls: 'sort-container' });
-    sortContainer.createEl('select', { 
-      cls: 'sort-select' 
-    }).innerHTML = `
-      <option value="date">按时间</option> 
-      <option value="name">按名称</option>
-      <option value="size">按大小</option>
-      <option value="tags">按标签数</option>
-    `;
+    sortContainer.createEl('select', { cls: 'sort-select', attr: { 'aria-label': '排序方式' } });
+    sortContainer.createEl('button', { cls: 'clickable-icon sort-direction-button' });
+    sortContainer.createEl('select', { cls: 'sort-secondary-select', attr: { 'aria-label': '次要排序' } });
+    sortContainer.createEl('button', { cls: 'clickable-icon sort-secondary-direction-button' });
+    const shuffleButton = sortContainer.createEl('button', { cls: 'clickable-icon sort-shuffle-button', attr: { 'aria-label': '重新打乱' } });
+    setIcon(shuffleButton, 'shuffle');
+    this.renderSortControls();
     
     // 刷新按钮
     const refreshButton = toolbarControls.createEl('button', {
@@ -255,11 +310,22 @@ export class GalleryView extends ItemView {
     });
     
     // 主要网格
-    const gridContainer = mainContent.createEl('div', { cls: 'gallery-grid-container' });
-    this.imageGrid = gridContainer.createEl('div', { cls: 'gallery-grid' });
+    this.gridContainer = mainContent.createEl('div', { cls: 'gallery-grid-container' });
+    this.imageGrid = this.gridContainer.createEl('div', { cls: 'gallery-grid' });
+    this.grid = new VirtualGrid<MediaData>(this.gridContainer, this.imageGrid, {
+      getKey: image => image.id,
+      createCell: () => this.createImageCard(),
+      renderCell: (card, image) => this.renderImageCard(card, image),
+      loadCell: card => this.loadCardMedia(card),
+      unloadCell: card => this.unloadCardMedia(card),
+      minColumnWidth: GALLERY_MIN_CARD_WIDTH,
+      gap: GALLERY_GRID_GAP,
+      overscan: GALLERY_OVERSCAN_ROWS
+    });
     
     // 添加事件监听器
     this.addEventListeners();
+    this.renderFieldControls();
     
     // 初始化统计数据
     this.updateStats();
@@ -267,6 +333,30 @@ export class GalleryView extends ItemView {
 
   private addEventListeners() {
 
+    // 卡片的点击和右键由网格统一处理，卡片被复用时无需重新绑定
+    this.imageGrid.addEventListener('click', (e) => {
+      const card = (e.target as HTMLElement).closest('.image-card') as HTMLElement | null;
+      const image = card ? this.imageDataManager.getImageData(card.dataset.imageId || '') : undefined;
+      if (card && image) this.handleCardClick(e, card, image);
+    });
+
+    // 右键点击用于选择图片（在上下文菜单显示之前）
+    this.imageGrid.addEventListener('contextmenu', (e) => {
+      const card = (e.target as HTMLElement).closest('.image-card') as HTMLElement | null;
+      const id = card?.dataset.imageId;
+      if (!id || this.selectedImages.includes(id)) return;
+      // 清除之前的选中状态，选中当前图片
+      this.clearImageSelection();
+      this.selectedImages.push(id);
+      this.setCardSelected(id, true);
+      this.updateBatchOperationToolbar();
+    });
+
+    // 滚动位置随标签页保存
+    this.gridContainer.addEventListener('scroll', () => {
+      if (this.pendingScrollTop === null) this.saveScrollState();
+    });
+
     // 搜索功能
 
     const searchInput = this.containerEl.querySelector('.gallery-search-input') as HTMLInputElement;
@@ -275,161 +365,176 @@ export class GalleryView extends ItemView {
 
       searchInput.addEventListener('input', (e) => {
 
-        this.currentFilter = (e.target as HTMLInputElement).value.toLowerCase();
+        this.setSearchQuery((e.target as HTMLInputElement).value);
 
-        // 如果搜索框内容包含逗号分隔的标签，则更新selectedTags
+        this.applySearchInput();
 
-        if (this.currentFilter.includes(',')) {
+      });
 
-          this.selectedTags = this.currentFilter.split(',')
+    }
 
-            .map(tag => tag.trim())
+    
 
-            .filter(tag => tag.length > 0);
+    // 排序功能：切换排序键时恢复该键的默认方向
 
-        } else if (this.currentFilter.trim() === '') {
+    const sortSelect = this.containerEl.querySelector('.sort-select') as HTMLSelectElement;
+    const secondarySelect = this.containerEl.querySelector('.sort-secondary-select') as HTMLSelectElement;
 
-          this.selectedTags = [];
+    sortSelect?.addEventListener('change', () => {
+      this.updateSort({ key: sortSelect.value, direction: MediaSort.getDefaultDirection(sortSelect.value, this.settings.customFields) });
+    });
 
-        }
+    secondarySelect?.addEventListener('change', () => {
+      this.updateSort({ secondaryKey: secondarySelect.value, secondaryDirection: MediaSort.getDefaultDirection(secondarySelect.value, this.settings.customFields) });
+    });
 
-        this.renderImages();
+    this.containerEl.querySelector('.sort-direction-button')?.addEventListener('click', () => {
+      this.updateSort({ direction: this.sort.direction === 'asc' ? 'desc' : 'asc' });
+    });
 
-      });
+    this.containerEl.querySelector('.sort-secondary-direction-button')?.addEventListener('click', () => {
+      this.updateSort({ secondaryDirection: this.sort.secondaryDirection === 'asc' ? 'desc' : 'asc' });
+    });
 
-    }
+    this.containerEl.querySelector('.sort-shuffle-button')?.addEventListener('click', () => {
+      this.updateSort({ seed: MediaSort.createSeed() });
+    });
 
-    
+  }
 
-    // 排序功能
+  private imageGrid: HTMLElement;
 
-    const sortSelect = this.containerEl.querySelector('.sort-select') as HTMLSelectElement;
+  private grid: VirtualGrid<MediaData>; // 只挂载可见区域内的卡片
 
-    if (sortSelect) {
+  private videoScrubs: WeakMap<HTMLElement, { id: string; frames: VideoFrames | null; position: number }> = new WeakMap(); // 视频卡片的悬停预览帧
 
-      sortSelect.addEventListener('change', () => {
+  /**
+   * 标签颜色、图标或说明变化后，重新绘制卡片和侧边栏中的标签
+   */
+  refreshTagAppearance() {
+    this.renderImages();
+    this.grid.invalidate();
+    this.updatePopularTags();
+  }
 
-        this.renderImages();
+  /**
+   * 缩略图缓存或设置变化后，重新加载卡片中的预览
+   */
+  refreshPreviews() {
+    this.grid.invalidate();
+  }
 
-      });
+  /**
+   * 自定义字段定义变化后，重新生成筛选控件和排序选项
+   */
+  refreshFieldSchema() {
+    this.collectionCounts = null;
+    this.renderFieldControls();
+    this.renderImages();
+    this.grid.invalidate();
+  }
+
+  /**
+   * 收藏集变化后，更新侧边栏列表并按当前收藏集重新筛选
+   */
+  refreshCollections() {
+    this.collectionCounts = null;
+    this.renderImages();
+  }
 
+  // 自定义字段的筛选控件和排序选项
+  private renderFieldControls() {
+    const definitions = this.settings.customFields;
+    if (this.fieldFilter && !this.getFieldDefinition(this.fieldFilter.key)) {
+      this.fieldFilter = null;
     }
 
+    // 排序：每个字段一个选项
+    this.renderSortControls();
+
+    // 筛选：先选择字段，再按字段类型输入条件
+    this.fieldFilterEl.empty();
+    this.fieldFilterEl.toggle(definitions.length > 0);
+    const fieldSelect = this.fieldFilterEl.createEl('select', { cls: 'field-filter-select dropdown' });
+    fieldSelect.createEl('option', { value: '', text: '按字段筛选' });
+    for (const definition of definitions) {
+      fieldSelect.createEl('option', { value: definition.key, text: definition.name });
+    }
+    fieldSelect.value = this.fieldFilter ? this.fieldFilter.key : '';
+
+    const valueContainer = this.fieldFilterEl.createEl('div', { cls: 'field-filter-value' });
+    this.renderFieldFilterValue(valueContainer);
+
+    fieldSelect.addEventListener('change', () => {
+      this.fieldFilter = fieldSelect.value ? { key: fieldSelect.value, value: '', min: '', max: '' } : null;
+      this.renderFieldFilterValue(valueContainer);
+      this.renderImages();
+    });
   }
 
-  private imageGrid: HTMLElement;
+  // 按字段类型生成筛选条件的输入控件
+  private renderFieldFilterValue(container: HTMLElement) {
+    container.empty();
+    const filter = this.fieldFilter;
+    const definition = filter ? this.getFieldDefinition(filter.key) : undefined;
+    if (!filter || !definition) return;
+
+    CustomFields.renderFilterInput(container, definition, filter, () => this.renderImages());
+  }
+
+  private getFieldDefinition(key: string): CustomFieldDefinition | undefined {
+    return this.settings.customFields.find(definition => definition.key === key);
+  }
 
   private async refreshData() {
-    // 从插件实例获取最新数据
-    let plugin = getImageTaggingPlugin(this.app);
-    
-    // 如果直接获取失败，尝试通过 workspace 获取
-    if (!plugin) {
-      // 遍历已加载的插件尝试找到当前插件
-      const allPlugins = (this.app as any).plugins.plugins;
-      if (allPlugins) {
-        for (const [id, pluginInstance] of Object.entries(allPlugins)) {
-          if (id === 'image-tagging-obsidian') {
-            plugin = pluginInstance as any;
-            break;
-          }
-        }
-      }
-    }
-    
-    if (plugin && plugin.imageDataManager) {
-      // 更新本地引用的数据管理器
-      this.imageDataManager = plugin.imageDataManager;
-    }
-    
-    // 重新加载并渲染数据
+    // 重新加载并渲染数据（同时更新统计信息和热门标签）
     this.renderImages();
-    
-    // 更新统计信息
-    this.updateStats();
-    
-    // 更新热门标签
-    this.updatePopularTags();
   }
 
   private async refreshGallery() {
-    // 尝试多次获取插件实例，因为有时可能由于加载时机问题无法立即获取
-    let plugin = getImageTaggingPlugin(this.app);
-    
-    // 如果直接获取失败，尝试通过 workspace 获取
-    if (!plugin) {
-      // 遍历已加载的插件尝试找到当前插件
-      const allPlugins = (this.app as any).plugins.plugins;
-      if (allPlugins) {
-        for (const [id, pluginInstance] of Object.entries(allPlugins)) {
-          if (id === 'image-tagging-obsidian') {
-            plugin = pluginInstance as any;
-            break;
-          }
-        }
-      }
-    }
-    
-    if (!plugin) {
-      new Notice('无法获取插件实例，刷新失败');
-      console.error('Failed to get plugin instance in refreshGallery');
-      return;
-    }
-
-    // 确保使用插件实例的数据管理器
-    const imageDataManager = plugin.imageDataManager;
-    this.imageDataManager = imageDataManager;
+    // 先按内容指纹找回在外部被重命名或移动的文件，否则它们的记录会在清理时被删除
+    await this.plugin.relinkOrphanedRecords(this.getFilesToScan());
 
     // 清理无效媒体数据（删除不存在的或不在指定扫描路径内的媒体记录）
-    const removedCount = imageDataManager.cleanupInvalidImages(this.app, this.settings.scanFolderPath, this.settings.scanMultipleFolderPaths);
+    const removedCount = this.imageDataManager.cleanupInvalidImages(this.app, this.settings.scanFolderPath, this.settings.scanMultipleFolderPaths, this.plugin.getAwaitingRelinkIds());
     
     // 刷新媒体数据（根据设置扫描媒体）
     await this.scanImagesBasedOnSettings();
 
-    // 确保在扫描后再次使用插件实例的数据管理器
-    this.imageDataManager = plugin.imageDataManager;
-
-    // 直接通过插件实例保存数据，确保保存的是最新数据
-    await plugin.saveDataToFile();
-
-    // 重新渲染
-    this.renderImages();
+    // 保存数据（网格会在数据变更事件中更新）
+    await this.plugin.saveDataToFile();
 
     // 获取最终的媒体计数用于通知
-    const finalCount = imageDataManager.getAllImageData().length;
+    const finalCount = this.imageDataManager.getCount();
     new Notice(`图库已刷新，清理了 ${removedCount} 个无效媒体记录，当前共有 ${finalCount} 个媒体项目`);
   }
 
   private async scanImagesBasedOnSettings() {
+    new Notice('开始扫描媒体文件...');
 
-    // 获取插件实例
-    let plugin = getImageTaggingPlugin(this.app);
-    
-    // 如果直接获取失败，尝试通过 workspace 获取
-    if (!plugin) {
-      // 遍历已加载的插件尝试找到当前插件
-      const allPlugins = (this.app as any).plugins.plugins;
-      if (allPlugins) {
-        for (const [id, pluginInstance] of Object.entries(allPlugins)) {
-          if (id === 'image-tagging-obsidian') {
-            plugin = pluginInstance as any;
-            break;
-          }
-        }
+    let mediaCount = 0;
+
+    for (const file of this.getFilesToScan()) {
+      const existingData = this.imageDataManager.getImageDataByPath(file.path);
+      // 等待确认重新关联的候选文件在对话框关闭后再处理
+      if (!existingData && !this.plugin.isAwaitingRelink(file.path)) {
+        // 如果不存在，则创建默认数据
+        const newData = await this.recordFactory.create(file);
+        this.imageDataManager.addImageData(newData);
+        mediaCount++;
       }
     }
-    
-    if (!plugin || !plugin.imageDataManager) {
-      new Notice('无法获取插件数据管理器，扫描失败');
-      console.error('Failed to get plugin or imageDataManager in scanImagesBasedOnSettings');
-      return;
-    }
-
-    // 使用插件实例的数据管理器
-    const imageDataManager = plugin.imageDataManager;
 
-    new Notice('开始扫描媒体文件...');
+    if (mediaCount > 0) {
+      await this.plugin.saveDataToFile();
+      new Notice(`扫描完成！新增了 ${mediaCount} 个媒体记录`);
+    } else {
+      new Notice('扫描完成！没有发现新的媒体文件');
+    }
+  }
 
+  // 获取扫描范围内所有支持格式的媒体文件
+  private getFilesToScan(): TFile[] {
     // 获取所有文件
     let allFiles = this.app.vault.getFiles();
 
@@ -449,31 +554,10 @@ export class GalleryView extends ItemView {
       allFiles = allFiles.filter(file => this.isFileInFolder(file.path, folderPathsToUse));
     }
 
-    let mediaCount = 0;
-
     // 获取当前支持的媒体格式
     const supportedFormats = this.settings.supportedFormats || ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'mp4', 'avi', 'mov', 'mkv', 'webm', 'mp3', 'wav', 'flac', 'aac', 'ogg'];
 
-    for (const file of allFiles) {
-      // 检查是否为支持的媒体格式
-      if (supportedFormats.includes(file.extension.toLowerCase())) {
-        const existingData = imageDataManager.getImageDataByPath(file.path);
-        if (!existingData) {
-          // 如果不存在，则创建默认数据
-          const newData = await this.createImageDataFromFile(file);
-          imageDataManager.addImageData(newData);
-          mediaCount++;
-        }
-      }
-    }
-
-    if (mediaCount > 0) {
-      // 直接使用插件实例保存数据，确保数据一致性
-      await plugin.saveDataToFile();
-      new Notice(`扫描完成！新增了 ${mediaCount} 个媒体记录`);
-    } else {
-      new Notice('扫描完成！没有发现新的媒体文件');
-    }
+    return allFiles.filter(file => supportedFormats.includes(file.extension.toLowerCase()));
   }
 
   private normalizePath(path: string): string {
@@ -493,413 +577,633 @@ export class GalleryView extends ItemView {
 
   private async saveDataToFile() {
     // 保存数据到文件
-    let plugin = getImageTaggingPlugin(this.app);
-    
-    // 如果直接获取失败，尝试通过 workspace 获取
-    if (!plugin) {
-      // 遍历已加载的插件尝试找到当前插件
-      const allPlugins = (this.app as any).plugins.plugins;
-      if (allPlugins) {
-        for (const [id, pluginInstance] of Object.entries(allPlugins)) {
-          if (id === 'image-tagging-obsidian') {
-            plugin = pluginInstance as any;
-            break;
-          }
-        }
-      }
-    }
-    
-    if (plugin) {
-      await plugin.saveDataToFile();
-    }
+    await this.plugin.saveDataToFile();
   }
 
-private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaData> {
-    // 如果没有提供ID，则生成一个新的ID
-    const imageId = id || this.generateId();
-    
-    // 获取文件信息
-    const stat = file.stat;
-    const path = file.path;
-    const name = file.basename;
-    const extension = file.extension;
-    const size = this.formatFileSize(stat.size);
-    const lastModified = stat.mtime;
-    
-    let resolution = '未知';
-    let width = 0;
-    let height = 0;
-    
-    const mediaType = getMediaType(file) || 'image';
-    
-    try {
-      // 对于图片，使用缓存的图片分辨率获取方法
-      if (mediaType === 'image') {
-        const dimensions = await getImageResolutionWithCache(file, this.app);
-        if (dimensions) {
-          width = dimensions.width;
-          height = dimensions.height;
-          resolution = dimensions.resolution;
-        }
-      } else if (mediaType === 'video' || mediaType === 'audio') {
-        // 对于视频和音频文件，获取时长信息
-        const duration = await getMediaDurationWithCache(file, this.app);
-        resolution = duration ? `${duration}` : (mediaType === 'video' ? '视频文件' : '音频文件');
-      }
-    } catch (e) {
-      Logger.warn(`无法获取媒体信息: ${path}`, e);
-    }
-    
-    // 从插件获取设置并根据设置确定标签
-    const plugin = getImageTaggingPlugin(this.app);
-    let tags: string[] = [];
-    if (plugin && plugin.settings.autoTagOnImport && plugin.settings.autoTagOnImportValue) {
-      // 如果启用了自动标签功能且有自定义标签值，则使用这些标签
-      tags = plugin.settings.autoTagOnImportValue
-        .split(',')
-        .map((tag: string) => tag.trim())
-        .filter((tag: string) => tag.length > 0);
-    }
-    
-    // 创建媒体数据对象
-    const imageData: MediaData = {
-      id: imageId,
-      path: path,
-      title: name,
-      tags: tags, // 使用根据设置确定的标签
-      date: new Date().toISOString(),
-      size: size,
-      resolution: resolution,
-      format: extension.toUpperCase(),
-      description: '',
-      originalName: file.name,
-      lastModified: lastModified,
-      width: width,
-      height: height,
-      fileSize: stat.size,
-      type: mediaType
-    };
+  private loadData() {
+    // 从数据管理器加载数据
+    this.renderImages();
+  }
 
-    return imageData;
+  /**
+   * 设置搜索内容：解析查询、显示语法错误，并将查询中的标签条件同步为选中的标签
+   */
+  private setSearchQuery(value: string) {
+    this.currentFilter = value.trim();
+    this.parsedQuery = MediaQuery.parse(this.currentFilter);
+    this.selectedTags = MediaQuery.getRequiredTags(this.parsedQuery);
+
+    const searchInput = this.containerEl.querySelector('.gallery-search-input') as HTMLInputElement | null;
+    const errorEl = this.containerEl.querySelector('.gallery-search-error') as HTMLElement | null;
+    const errors = this.parsedQuery.errors;
+    searchInput?.toggleClass('has-error', errors.length > 0);
+    if (!errorEl) return;
+
+    errorEl.empty();
+    errorEl.toggleClass('hidden', errors.length === 0);
+    if (errors.length === 0) return;
+
+    // 在查询文本中高亮出错的部分，出错的条件被忽略
+    const source = this.parsedQuery.source;
+    const sourceEl = errorEl.createDiv({ cls: 'gallery-search-error-source' });
+    let position = 0;
+    for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+      if (error.start < position) continue;
+      sourceEl.appendText(source.substring(position, error.start));
+      sourceEl.createSpan({ cls: 'gallery-search-error-mark', text: source.substring(error.start, error.end) || ' ' });
+      position = error.end;
+    }
+    sourceEl.appendText(source.substring(position));
+    errorEl.createDiv({ cls: 'gallery-search-error-message', text: `${errors.map(error => error.message).join('；')}（已忽略出错的条件）` });
   }
 
-  private generateId(): string {
-    // 生成一个唯一的ID
-    return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+  // 按选中的标签生成搜索内容
+  private applySelectedTags() {
+    const searchInput = this.containerEl.querySelector('.gallery-search-input') as HTMLInputElement;
+    const query = MediaQuery.formatTags(this.selectedTags);
+    if (searchInput) {
+      searchInput.value = query;
+    }
+    this.setSearchQuery(query);
   }
 
-  private formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  private renderImages() {
+    if (!this.imageGrid) return;
+    
+    // 原地更新显示的列表，仍在可见区域内的卡片保留
+    this.grid.setItems(this.getVisibleImages());
+    
+    this.updateSidebar();
   }
 
-  private loadData() {
-    // 从数据管理器加载数据
+  // 用户修改搜索、收藏集、排序或筛选条件后重新筛选，并保存到工作区布局
+  private applyViewChange() {
     this.renderImages();
+    this.app.workspace.requestSaveLayout();
   }
 
-  private renderImages() {
-    if (!this.imageGrid) return;
-    
-    // 获取所有图片数据
-    let images = this.imageDataManager.getAllImageData();
+  // 按当前搜索、收藏集和排序条件获取要显示的媒体
+  private getVisibleImages(): MediaData[] {
+    // 应用搜索过滤（查询语法见 MediaQuery），同时得到各记录的相关度
+    const results = this.imageDataManager.queryWithScores(this.parsedQuery);
+    let images = results.map(result => result.record);
     
     // 过滤掉路径无效的图片
     images = images.filter(image => image.path);
     
-    // 应用分类过滤
-    if (this.currentCategory && this.currentCategory !== '全部图片') {
-      images = images.filter(image => 
-        image.tags.includes(this.currentCategory) || 
-        image.title.includes(this.currentCategory)
-      );
+    // 应用收藏集过滤
+    if (this.getCurrentCollection()) {
+      images = images.filter(image => this.matchesCollection(image));
     }
     
-    // 应用搜索过滤 - 支持多标签搜索（用逗号分隔的标签）
-
-    if (this.currentFilter) {
+    // 应用收藏和评分筛选
+    if (this.favoritesOnly || this.minRating > 0) {
+      images = images.filter(image => this.matchesRatingFilter(image));
+    }
+    
+    // 应用自定义字段筛选
+    const fieldFilter = this.fieldFilter;
+    const fieldDefinition = fieldFilter ? this.getFieldDefinition(fieldFilter.key) : undefined;
+    if (fieldFilter && fieldDefinition) {
+      images = images.filter(image => CustomFields.matches(fieldDefinition, image, fieldFilter));
+    }
+    
+    // 应用排序：搜索包含文字条件时按相关度排序，相关度相同的按所选方式排序
+    this.searchScores = MediaQuery.hasTextTerms(this.parsedQuery)
+      ? new Map(results.map(result => [result.record.id, result.score]))
+      : null;
+    const compare = MediaSort.createComparator(this.sort, this.settings.customFields);
+    return images.sort((a, b) => this.compareVisible(a, b, compare));
+  }
 
-      const filter = this.currentFilter.toLowerCase();
+  private getSearchScore(image: MediaData): number {
+    return MediaQuery.score(image, this.parsedQuery, this.imageDataManager);
+  }
 
-      // 检查是否是标签搜索（包含逗号分隔的多个标签）
+  private compareVisible(a: MediaData, b: MediaData, compare: (a: MediaData, b: MediaData) => number): number {
+    if (this.searchScores) {
+      const difference = (this.searchScores.get(b.id) ?? 0) - (this.searchScores.get(a.id) ?? 0);
+      if (difference !== 0) return difference;
+    }
+    return compare(a, b);
+  }
 
-      const tagFilters = filter.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  // 单条记录是否满足当前的搜索和收藏集条件（与 getVisibleImages 的过滤规则一致）
+  private matchesFilter(image: MediaData): boolean {
+    if (!image.path) return false;
+    
+    if (!this.matchesCollection(image)) return false;
+    
+    if (!this.matchesRatingFilter(image)) return false;
+    
+    const fieldDefinition = this.fieldFilter ? this.getFieldDefinition(this.fieldFilter.key) : undefined;
+    if (this.fieldFilter && fieldDefinition && !CustomFields.matches(fieldDefinition, image, this.fieldFilter)) {
+      return false;
+    }
+    
+    return this.imageDataManager.matchesQuery(image, this.parsedQuery);
+  }
 
-      
+  private matchesCollection(image: MediaData): boolean {
+    const collection = this.getCurrentCollection();
+    return !collection || SmartCollections.matches(image, collection, this.settings.collections, this.settings.customFields);
+  }
 
-      if (tagFilters.length > 1) {
+  private getCurrentCollection(): SmartCollection | undefined {
+    return this.currentCollectionId ? this.settings.collections.find(item => item.id === this.currentCollectionId) : undefined;
+  }
 
-        // 多标签搜索：图片必须包含所有指定标签
+  private matchesRatingFilter(image: MediaData): boolean {
+    if (this.favoritesOnly && !image.favorite) return false;
+    return MediaRating.getRating(image) >= this.minRating;
+  }
 
-        images = images.filter(image => 
+  // “评分 ≥ N”筛选：点击星级设置下限，再次点击清除
+  private renderMinRatingFilter(container: HTMLElement) {
+    container.empty();
+    container.createSpan({ cls: 'min-rating-label', text: '评分 ≥' });
+    MediaRating.renderStars(container, this.minRating, (rating) => {
+      this.minRating = rating;
+      this.renderMinRatingFilter(container);
+      this.applyViewChange();
+    });
+  }
 
-          tagFilters.every(tagFilter => 
+  getState(): Record<string, unknown> {
+    const state: GalleryViewState = {
+      query: this.currentFilter,
+      collectionId: this.currentCollectionId,
+      selectedTags: [...this.selectedTags],
+      sort: { ...this.sort },
+      favoritesOnly: this.favoritesOnly,
+      minRating: this.minRating,
+      scrollTop: this.pendingScrollTop ?? this.gridContainer?.scrollTop ?? 0
+    };
+    return { ...super.getState(), ...state };
+  }
 
-            image.tags.some(tag => tag.toLowerCase().includes(tagFilter))
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    this.applyState(GalleryView.normalizeState(state));
+    await super.setState(state, result);
+  }
 
-          )
+  /**
+   * 校验状态对象：忽略类型不正确的字段，不是对象时抛出错误
+   */
+  static normalizeState(value: unknown): GalleryViewState {
+    if (value === undefined || value === null) return {};
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('图库状态必须是 JSON 对象');
+    }
+    const raw = value as Record<string, unknown>;
+    const state: GalleryViewState = {};
+    if (typeof raw.query === 'string') state.query = raw.query;
+    if (raw.collectionId === null || typeof raw.collectionId === 'string') state.collectionId = raw.collectionId;
+    if (Array.isArray(raw.selectedTags)) {
+      state.selectedTags = raw.selectedTags.filter((tag): tag is string => typeof tag === 'string' && tag.trim().length > 0);
+    }
+    if (raw.sort && typeof raw.sort === 'object') {
+      const sort = raw.sort as Record<string, unknown>;
+      const spec: Partial<SortSpec> = {};
+      if (typeof sort.key === 'string') spec.key = sort.key;
+      if (sort.direction === 'asc' || sort.direction === 'desc') spec.direction = sort.direction;
+      if (typeof sort.secondaryKey === 'string') spec.secondaryKey = sort.secondaryKey;
+      if (sort.secondaryDirection === 'asc' || sort.secondaryDirection === 'desc') spec.secondaryDirection = sort.secondaryDirection;
+      if (typeof sort.seed === 'number' && isFinite(sort.seed)) spec.seed = sort.seed;
+      state.sort = spec;
+    }
+    if (typeof raw.favoritesOnly === 'boolean') state.favoritesOnly = raw.favoritesOnly;
+    if (typeof raw.minRating === 'number' && isFinite(raw.minRating)) {
+      state.minRating = Math.max(0, Math.min(MAX_RATING, Math.round(raw.minRating)));
+    }
+    if (typeof raw.scrollTop === 'number' && isFinite(raw.scrollTop)) state.scrollTop = Math.max(0, raw.scrollTop);
+    return state;
+  }
 
-        );
+  // 恢复保存的状态：缺少的字段保持当前值
+  private applyState(state: GalleryViewState) {
+    if (state.query !== undefined || state.selectedTags !== undefined) {
+      const query = state.query ?? MediaQuery.formatTags(state.selectedTags ?? []);
+      const searchInput = this.containerEl.querySelector('.gallery-search-input') as HTMLInputElement | null;
+      if (searchInput) searchInput.value = query;
+      this.setSearchQuery(query);
+    }
+    if (state.collectionId !== undefined) {
+      // 收藏集已被删除时显示全部媒体
+      const exists = state.collectionId !== null && this.settings.collections.some(item => item.id === state.collectionId);
+      this.currentCollectionId = exists ? state.collectionId as string : null;
+    }
+    if (state.sort) {
+      this.sort = { ...MediaSort.createDefault(), ...this.sort, ...state.sort };
+      this.renderSortControls();
+    }
+    if (state.favoritesOnly !== undefined) {
+      this.favoritesOnly = state.favoritesOnly;
+      const checkbox = this.containerEl.querySelector('.favorites-only-checkbox') as HTMLInputElement | null;
+      if (checkbox) checkbox.checked = this.favoritesOnly;
+    }
+    if (state.minRating !== undefined) {
+      this.minRating = state.minRating;
+      const container = this.containerEl.querySelector('.min-rating-filter') as HTMLElement | null;
+      if (container) this.renderMinRatingFilter(container);
+    }
 
-      } else {
+    this.renderImages();
+    this.updatePopularTags();
 
-        // 单标签或普通搜索
+    if (state.scrollTop !== undefined) {
+      this.pendingScrollTop = state.scrollTop;
+      this.restoreScroll();
+    }
+  }
 
-        images = images.filter(image => 
+  // 恢复滚动位置；视图在后台标签页中尚无尺寸时，等到显示后再恢复
+  private restoreScroll() {
+    if (this.pendingScrollTop === null || !this.gridContainer || this.gridContainer.clientHeight === 0) return;
+    this.gridContainer.scrollTop = this.pendingScrollTop;
+    this.pendingScrollTop = null;
+  }
 
-          image.title.toLowerCase().includes(filter) ||
+  // 修改排序设置，重新排列并保存到工作区布局（每个图库标签页各自保存）
+  private updateSort(changes: Partial<SortSpec>) {
+    this.sort = { ...this.sort, ...changes };
+    this.renderSortControls();
+    this.applyViewChange();
+  }
 
-          image.description.toLowerCase().includes(filter) ||
+  // 按排序设置和自定义字段生成排序控件
+  private renderSortControls() {
+    const sortSelect = this.containerEl.querySelector('.sort-select') as HTMLSelectElement | null;
+    const secondarySelect = this.containerEl.querySelector('.sort-secondary-select') as HTMLSelectElement | null;
+    if (!sortSelect || !secondarySelect) return;
+
+    const definitions = this.settings.customFields;
+    const keys = [
+      ...Object.keys(SORT_KEYS),
+      ...definitions.map(definition => `field:${definition.key}`)
+    ];
+    // 排序使用的自定义字段已删除时恢复默认排序
+    if (!keys.includes(this.sort.key)) {
+      this.sort = { ...this.sort, key: 'date', direction: 'desc' };
+    }
+    if (this.sort.secondaryKey && !keys.includes(this.sort.secondaryKey)) {
+      this.sort = { ...this.sort, secondaryKey: '' };
+    }
 
-          image.tags.some(tag => tag.toLowerCase().includes(filter))
+    sortSelect.empty();
+    secondarySelect.empty();
+    secondarySelect.createEl('option', { value: '', text: '无次要排序' });
+    for (const key of keys) {
+      const name = MediaSort.getKeyName(key, definitions);
+      sortSelect.createEl('option', { value: key, text: `按${name}` });
+      if (key !== 'random') {
+        secondarySelect.createEl('option', { value: key, text: `其次按${name}` });
+      }
+    }
+    sortSelect.value = this.sort.key;
+    secondarySelect.value = this.sort.secondaryKey;
+
+    const isRandom = this.sort.key === 'random';
+    const directionButton = this.containerEl.querySelector('.sort-direction-button') as HTMLElement | null;
+    const secondaryDirectionButton = this.containerEl.querySelector('.sort-secondary-direction-button') as HTMLElement | null;
+    const shuffleButton = this.containerEl.querySelector('.sort-shuffle-button') as HTMLElement | null;
+    if (directionButton) {
+      this.renderDirectionButton(directionButton, this.sort.direction);
+      directionButton.toggleClass('hidden', isRandom);
+    }
+    if (secondaryDirectionButton) {
+      this.renderDirectionButton(secondaryDirectionButton, this.sort.secondaryDirection);
+      secondaryDirectionButton.toggleClass('hidden', !this.sort.secondaryKey || isRandom);
+    }
+    secondarySelect.toggleClass('hidden', isRandom);
+    shuffleButton?.toggleClass('hidden', !isRandom);
+  }
 
-        );
+  private renderDirectionButton(button: HTMLElement, direction: SortSpec['direction']) {
+    setIcon(button, direction === 'asc' ? 'arrow-up-narrow-wide' : 'arrow-down-wide-narrow');
+    button.setAttribute('aria-label', direction === 'asc' ? '升序（点击切换为降序）' : '降序（点击切换为升序）');
+  }
 
-      }
+  // 创建单个媒体卡片
+  // 新建空白卡片，内容由 renderImageCard 填入；卡片移出可见区域后会被复用
+  private createImageCard(): HTMLElement {
+    const imageCard = createDiv({ cls: 'image-card' });
+    const inner = imageCard.createDiv({ cls: 'image-card-inner' });
+    
+    const previewContainer = inner.createDiv({ cls: 'image-preview-container' });
+    
+    // 选中状态指示器
+    const indicator = previewContainer.createDiv({ cls: 'image-selection-indicator' });
+    indicator.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <polyline points="20 6 9 17 4 12"></polyline>
+      </svg>
+    `;
+    
+    // 视频：封面加载前的占位图标、悬停预览帧、时长和分辨率标记
+    setIcon(previewContainer.createDiv({ cls: 'video-placeholder' }), 'film');
+    previewContainer.createDiv({ cls: 'video-scrub' });
+    previewContainer.createDiv({ cls: 'video-badge' });
+    previewContainer.addEventListener('mouseenter', (e) => this.startVideoScrub(imageCard, e));
+    previewContainer.addEventListener('mousemove', (e) => this.moveVideoScrub(imageCard, e));
+    previewContainer.addEventListener('mouseleave', () => this.stopVideoScrub(imageCard));
+    
+    const overlayContent = previewContainer.createDiv({ cls: 'image-overlay' }).createDiv({ cls: 'image-overlay-content' });
+    overlayContent.createEl('h4', { cls: 'image-title' });
+    overlayContent.createDiv({ cls: 'image-tags-preview' });
+    overlayContent.createDiv({ cls: 'image-card-rating' });
+    
+    const infoBar = inner.createDiv({ cls: 'image-info-bar' });
+    infoBar.createEl('a', { cls: 'file-path-link image-path-link', href: '#' });
+    infoBar.createSpan({ cls: 'image-size' });
+    infoBar.createSpan({ cls: 'image-resolution' });
+    
+    return imageCard;
+  }
 
-    }
+  // 将记录填入卡片；媒体地址先保存在 data-src 中，卡片接近视口时由 loadCardMedia 加载（图片加载缩略图，视频加载封面）
+  private renderImageCard(imageCard: HTMLElement, image: MediaData) {
+    imageCard.dataset.imageId = image.id;
     
-    // 应用排序
-    const sortSelect = this.containerEl.querySelector('.sort-select') as HTMLSelectElement;
-    const sortBy = sortSelect ? sortSelect.value : 'data';
-    
-    images.sort((a, b) => {
-      switch (sortBy) {
-        case 'date':
-          return new Date(b.date).getTime() - new Date(a.date).getTime();
-        case 'size':
-          // 简单的大小比较，实际应用中需要更复杂的解析
-          return b.size.localeCompare(a.size);
-        case 'tags':
-          return b.tags.length - a.tags.length;
-        case 'name':
-        default:
-          return a.title.localeCompare(b.title);
+    const isSelected = this.selectedImages.includes(image.id);
+    imageCard.toggleClass('selected', isSelected);
+    imageCard.querySelector('.image-selection-indicator')?.toggleClass('selected', isSelected);
+    
+    // 根据媒体类型生成不同的预览元素，类型相同时复用；视频只显示封面，播放器在详情中加载
+    const previewContainer = imageCard.querySelector('.image-preview-container') as HTMLElement;
+    const mediaPath = getSafeImagePath(this.app, image.path);
+    previewContainer.dataset.mediaPath = mediaPath;
+    const tagName = image.type === 'audio' ? 'audio' : 'img';
+    let preview = previewContainer.querySelector('.image-preview') as HTMLElement | null;
+    if (!preview || preview.tagName.toLowerCase() !== tagName) {
+      preview?.remove();
+      preview = createEl(tagName, { cls: 'image-preview' });
+      if (tagName === 'img') {
+        preview.setAttribute('decoding', 'async');
+      } else {
+        preview.setAttribute('controls', '');
+        preview.setAttribute('preload', 'none');
       }
+      previewContainer.prepend(preview);
+    }
+    preview.dataset.src = mediaPath;
+    preview.dataset.path = image.path;
+    preview.dataset.kind = image.type;
+    if (tagName === 'img') preview.setAttribute('alt', image.title);
+    
+    imageCard.toggleClass('is-video', image.type === 'video');
+    imageCard.removeClass('has-poster');
+    this.resetVideoScrub(imageCard);
+    this.renderVideoBadge(imageCard, image);
+    
+    // 标题和标签（最多显示3个），颜色、图标和说明取自标签设置
+    (imageCard.querySelector('.image-title') as HTMLElement).setText(image.title);
+    const tagsPreview = imageCard.querySelector('.image-tags-preview') as HTMLElement;
+    tagsPreview.empty();
+    image.tags.slice(0, 3).forEach(tag => {
+      const tagEl = tagsPreview.createSpan({ cls: 'image-tag', text: tag });
+      this.plugin.tagRegistry.decorate(tagEl, tag);
+      tagEl.addEventListener('contextmenu', (e) => this.plugin.showTagMenu(e, tag));
     });
     
-    // 清空网格
-    this.imageGrid.empty();
+    // 如果标签超过3个，显示更多
+    if (image.tags.length > 3) {
+      tagsPreview.createSpan({ cls: 'image-tag tag-more', text: `+${image.tags.length - 3}` });
+    }
     
-    // 渲染图片
-    images.forEach(image => {
-      // 验证图片路径有效
-      if (!image.path) return;
-      
-      const imageCard = this.imageGrid.createEl('div', { cls: 'image-card' });
-      imageCard.dataset.imageId = image.id;
-      
-      // 生成标签HTML
-      let tagsHtml = '';
-      image.tags.slice(0, 3).forEach(tag => {
-        const colorIndex = this.getTagColorIndex(tag); // 使用哈希值选择颜色
-        const colors = ['blue', 'green', 'purple', 'yellow', 'red', 'pink', 'indigo', 'teal'];
-        const color = colors[colorIndex];
-        tagsHtml += `<span class="image-tag tag-color-${color}">${tag}</span>`;
-      });
-      
-      // 如果标签超过3个，显示更多
-      if (image.tags.length > 3) {
-        tagsHtml += `<span class="image-tag tag-more">+${image.tags.length - 3}</span>`;
-      }
-      
-      // 使用安全的媒体路径获取方法
-      const mediaPath = getSafeImagePath(this.app, image.path);
-      
-      // 根据媒体类型生成不同的预览元素
-      let previewElement = '';
-      if (image.type === 'image') {
-        previewElement = `<img src="${mediaPath}" alt="${image.title}" class="image-preview">`;
-      } else if (image.type === 'video') {
-        previewElement = `<video src="${mediaPath}" class="image-preview" controls></video>`;
-      } else if (image.type === 'audio') {
-        previewElement = `<audio src="${mediaPath}" class="image-preview" controls></audio>`;
+    // 评分和收藏（点击时不会选择卡片或打开详情）
+    const ratingRow = imageCard.querySelector('.image-card-rating') as HTMLElement;
+    ratingRow.empty();
+    MediaRating.renderStars(ratingRow, MediaRating.getRating(image), (rating) => {
+      this.updateImages('设置评分', [image.id], item => MediaRating.setRating(item, rating));
+    });
+    MediaRating.renderFavorite(ratingRow, image.favorite === true, (favorite) => {
+      this.updateImages(favorite ? '收藏' : '取消收藏', [image.id], item => MediaRating.setFavorite(item, favorite));
+    });
+    previewContainer.querySelector('.image-favorite-badge')?.remove();
+    if (image.favorite) {
+      setIcon(previewContainer.createEl('span', { cls: 'image-favorite-badge' }), 'heart');
+    }
+    
+    // 信息栏
+    const pathLink = imageCard.querySelector('.image-path-link') as HTMLElement;
+    pathLink.dataset.path = image.path;
+    pathLink.setText(image.path.split('/').pop() || image.path);
+    (imageCard.querySelector('.image-size') as HTMLElement).setText(image.size);
+    (imageCard.querySelector('.image-resolution') as HTMLElement).setText(`${image.type === 'image' ? '分辨率' : '时长'}: ${image.resolution}`);
+  }
+
+  // 卡片接近视口时加载媒体
+  private loadCardMedia(imageCard: HTMLElement) {
+    const preview = imageCard.querySelector('.image-preview') as HTMLElement | null;
+    if (preview instanceof HTMLImageElement && preview.dataset.path) {
+      if (preview.dataset.kind === 'video') {
+        this.loadVideoPoster(imageCard, preview, preview.dataset.path);
       } else {
-        previewElement = `<img src="${mediaPath}" alt="${image.title}" class="image-preview">`; // 默认作为图片处理
-      }
-      
-      // 检查图片是否被选中
-      const isSelected = this.selectedImages.includes(image.id);
-      if (isSelected) {
-        imageCard.addClass('selected');
+        this.plugin.thumbnails.loadImage(preview, preview.dataset.path, this.settings.thumbnailSize);
       }
-      
-      imageCard.innerHTML = `
-
-        <div class="image-card-inner">
-
-          <div class="image-preview-container" data-media-path="${mediaPath}">
-
-            ${previewElement}
-            
-            <!-- 选中状态指示器 -->
-            <div class="image-selection-indicator ${isSelected ? 'selected' : ''}">
-              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                <polyline points="20 6 9 17 4 12"></polyline>
-              </svg>
-            </div>
-
-            <div class="image-overlay">
-
-              <div class="image-overlay-content">
-
-                <h4 class="image-title">${image.title}</h4>
-
-                <div class="image-tags-preview">${tagsHtml}</div>
+    } else if (preview?.dataset.src) {
+      preview.setAttribute('src', preview.dataset.src);
+    }
+  }
 
-              </div>
+  // 加载视频封面，并用截取时读到的时长和分辨率补全标记
+  private async loadVideoPoster(imageCard: HTMLElement, preview: HTMLImageElement, path: string) {
+    const poster = await this.plugin.thumbnails.loadPoster(preview, path, this.settings.thumbnailSize, this.settings.videoPosterTime);
+    if (!poster) return;
+    imageCard.addClass('has-poster');
+    const image = this.imageDataManager.getImageData(imageCard.dataset.imageId || '');
+    if (image) this.renderVideoBadge(imageCard, image, poster);
+  }
 
-            </div>
+  // 视频卡片上的时长和分辨率标记；记录中没有时使用截取封面时读到的值
+  private renderVideoBadge(imageCard: HTMLElement, image: MediaData, poster?: VideoPoster) {
+    const badge = imageCard.querySelector('.video-badge') as HTMLElement;
+    const parts: string[] = [];
+    if (image.type === 'video') {
+      const duration = MediaSort.getDuration(image) ?? poster?.duration;
+      if (duration) parts.push(MediaSort.formatDuration(duration));
+      const dimensions = MediaSort.getDimensions(image) ?? (poster?.width ? { width: poster.width, height: poster.height } : undefined);
+      if (dimensions) parts.push(`${dimensions.width}×${dimensions.height}`);
+    }
+    badge.setText(parts.join(' · '));
+    badge.toggleClass('hidden', parts.length === 0);
+  }
 
-          </div>
+  // 鼠标进入视频卡片时加载预览帧
+  private async startVideoScrub(imageCard: HTMLElement, e: MouseEvent) {
+    const id = imageCard.dataset.imageId;
+    const image = id ? this.imageDataManager.getImageData(id) : undefined;
+    if (!id || !image || image.type !== 'video') return;
+    
+    const state = this.videoScrubs.get(imageCard);
+    if (state?.id === id) {
+      this.moveVideoScrub(imageCard, e);
+      return;
+    }
+    const position = this.getScrubPosition(imageCard, e);
+    this.videoScrubs.set(imageCard, { id, frames: null, position });
+    const frames = await this.plugin.thumbnails.getFrames(image.path, this.settings.thumbnailSize);
+    const current = this.videoScrubs.get(imageCard);
+    if (!frames || current?.id !== id) return;
+    current.frames = frames;
+    if (imageCard.matches(':hover')) this.showScrubFrame(imageCard, current);
+  }
 
-          <div class="image-info-bar">
+  // 按鼠标的水平位置显示对应的预览帧
+  private moveVideoScrub(imageCard: HTMLElement, e: MouseEvent) {
+    const state = this.videoScrubs.get(imageCard);
+    if (!state || state.id !== imageCard.dataset.imageId) return;
+    state.position = this.getScrubPosition(imageCard, e);
+    this.showScrubFrame(imageCard, state);
+  }
 
-            <a href="#" class="file-path-link image-path-link" data-path="${image.path}">${image.path.split('/').pop()}</a>
+  private stopVideoScrub(imageCard: HTMLElement) {
+    imageCard.querySelector('.video-scrub')?.removeClass('is-active');
+  }
 
-            <span class="image-size">${image.size}</span>
+  // 卡片被复用时清除上一条记录的预览帧
+  private resetVideoScrub(imageCard: HTMLElement) {
+    this.videoScrubs.delete(imageCard);
+    const scrub = imageCard.querySelector('.video-scrub') as HTMLElement | null;
+    scrub?.removeClass('is-active');
+    scrub?.style.removeProperty('background-image');
+  }
 
-            <span class="image-resolution">${image.type === 'image' ? '分辨率' : '时长'}: ${image.resolution}</span>
+  private getScrubPosition(imageCard: HTMLElement, e: MouseEvent): number {
+    const rect = (imageCard.querySelector('.image-preview-container') as HTMLElement).getBoundingClientRect();
+    return rect.width > 0 ? Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) : 0;
+  }
 
-          </div>
+  private showScrubFrame(imageCard: HTMLElement, state: { frames: VideoFrames | null; position: number }) {
+    const frames = state.frames;
+    const scrub = imageCard.querySelector('.video-scrub') as HTMLElement | null;
+    const container = imageCard.querySelector('.image-preview-container') as HTMLElement | null;
+    if (!frames || !scrub || !container) return;
+    
+    // 与封面一样按 contain 方式居中显示
+    const scale = Math.min(container.clientWidth / frames.frameWidth, container.clientHeight / frames.frameHeight);
+    const width = frames.frameWidth * scale;
+    const height = frames.frameHeight * scale;
+    scrub.style.width = `${width}px`;
+    scrub.style.height = `${height}px`;
+    scrub.style.left = `${(container.clientWidth - width) / 2}px`;
+    scrub.style.top = `${(container.clientHeight - height) / 2}px`;
+    
+    const index = Math.min(frames.count - 1, Math.floor(state.position * frames.count));
+    scrub.style.backgroundImage = `url("${frames.url}")`;
+    scrub.style.backgroundSize = `${frames.count * 100}% 100%`;
+    scrub.style.backgroundPosition = `${frames.count > 1 ? index / (frames.count - 1) * 100 : 0}% 0`;
+    scrub.addClass('is-active');
+  }
 
-        </div>
+  // 卡片移出可见区域或被复用前停止加载媒体
+  private unloadCardMedia(imageCard: HTMLElement) {
+    const preview = imageCard.querySelector('.image-preview') as HTMLElement | null;
+    if (preview instanceof HTMLImageElement) this.plugin.thumbnails.cancelImage(preview);
+    imageCard.removeClass('has-poster');
+    if (!preview || !preview.hasAttribute('src')) return;
+    preview.removeAttribute('src');
+    if (preview instanceof HTMLMediaElement) preview.load();
+  }
 
-      `;
-      
-      // 添加点击事件处理多选和详情打开
-      imageCard.addEventListener('click', (e) => {
-        const target = e.target as HTMLElement;
-        
-        // 检查是否点击了选中指示器
-        const isSelectionIndicator = target.classList.contains('image-selection-indicator') || 
-                                    target.closest('.image-selection-indicator');
-        
-        // 如果按住Shift键点击，进行连续选择操作
-        if (e.shiftKey && this.lastSelectedImageId) {
-          e.preventDefault();
-          e.stopPropagation(); // 阻止事件冒泡，防止打开详情
-          
-          // 获取所有图片卡片
-          const allImageCards = Array.from(this.imageGrid.querySelectorAll('.image-card'));
-          const currentIndex = allImageCards.indexOf(imageCard);
-          const lastIndex = allImageCards.findIndex(card => 
-            card.getAttribute('data-image-id') === this.lastSelectedImageId
-          );
-          
-          if (lastIndex !== -1) {
-            // 确定选择范围
-            const startIndex = Math.min(currentIndex, lastIndex);
-            const endIndex = Math.max(currentIndex, lastIndex);
-            
-            // 获取范围内的所有图片ID
-            const rangeImageIds: string[] = [];
-            for (let i = startIndex; i <= endIndex; i++) {
-              const card = allImageCards[i] as HTMLElement;
-              const id = card.dataset.imageId;
-              if (id) rangeImageIds.push(id);
-            }
-            
-            // 如果当前图片未选中，添加到选中列表
-            if (!this.selectedImages.includes(image.id)) {
-              // 添加范围内的所有图片到选中列表
-              rangeImageIds.forEach(id => {
-                if (!this.selectedImages.includes(id)) {
-                  this.selectedImages.push(id);
-                  const card = this.imageGrid.querySelector(`[data-image-id="${id}"]`) as HTMLElement;
-                  if (card) {
-                    card.addClass('selected');
-                    // 更新选中指示器
-                    const indicator = card.querySelector('.image-selection-indicator');
-                    if (indicator) indicator.addClass('selected');
-                  }
-                }
-              });
-            } else {
-              // 如果当前图片已选中，从选中列表中移除范围内的所有图片
-              rangeImageIds.forEach(id => {
-                const index = this.selectedImages.indexOf(id);
-                if (index !== -1) {
-                  this.selectedImages.splice(index, 1);
-                  const card = this.imageGrid.querySelector(`[data-image-id="${id}"]`) as HTMLElement;
-                  if (card) {
-                    card.removeClass('selected');
-                    // 更新选中指示器
-                    const indicator = card.querySelector('.image-selection-indicator');
-                    if (indicator) indicator.removeClass('selected');
-                  }
-                }
-              });
-            }
-            
-            // 更新最后选中的图片
-            this.lastSelectedImageId = image.id;
-          }
-        }
-        // 如果按住Ctrl或Cmd键点击，进行多选操作
-        else if (e.ctrlKey || e.metaKey || isSelectionIndicator) {
-          e.preventDefault();
-          e.stopPropagation(); // 阻止事件冒泡，防止打开详情
-          // 切换选中状态
-          const index = this.selectedImages.indexOf(image.id);
-          if (index > -1) {
-            // 如果已选中，则取消选中
-            this.selectedImages.splice(index, 1);
-            imageCard.removeClass('selected');
-            // 更新选中指示器
-            const indicator = imageCard.querySelector('.image-selection-indicator');
-            if (indicator) indicator.removeClass('selected');
-          } else {
-            // 如果未选中，则添加到选中列表
-            this.selectedImages.push(image.id);
-            imageCard.addClass('selected');
-            // 更新选中指示器
-            const indicator = imageCard.querySelector('.image-selection-indicator');
-            if (indicator) indicator.addClass('selected');
-          }
-          
-          // 更新最后选中的图片
-          this.lastSelectedImageId = image.id;
-          
-          // 更新批量操作工具栏
-          this.updateBatchOperationToolbar();
-          return;
-        }
+  // 卡片的点击事件（由网格统一监听）：处理多选和详情打开
+  private handleCardClick(e: MouseEvent, imageCard: HTMLElement, image: MediaData) {
+    const target = e.target as HTMLElement;
+    
+    // 检查是否点击了选中指示器
+    const isSelectionIndicator = target.classList.contains('image-selection-indicator') || 
+                                target.closest('.image-selection-indicator');
+    
+    // 如果按住Shift键点击，进行连续选择操作
+    if (e.shiftKey && this.lastSelectedImageId) {
+      e.preventDefault();
+      e.stopPropagation(); // 阻止事件冒泡，防止打开详情
+      
+      // 按当前显示顺序确定选择范围（包括未挂载的卡片）
+      const currentIndex = this.grid.indexOf(image.id);
+      const lastIndex = this.grid.indexOf(this.lastSelectedImageId);
+      
+      if (lastIndex !== -1 && currentIndex !== -1) {
+        const startIndex = Math.min(currentIndex, lastIndex);
+        const endIndex = Math.max(currentIndex, lastIndex);
+        const rangeImageIds = this.grid.getItems().slice(startIndex, endIndex + 1).map(item => item.id);
         
-        // 如果点击的是路径链接，则打开文件而不是详情
-        if (target.classList.contains('file-path-link') || target.classList.contains('image-path-link')) {
-          e.preventDefault();
-          const path = target.getAttribute('data-path') || image.path;
-          this.openImageFile(path);
-        } else if (target.classList.contains('image-tag')) {
-          // 如果点击的是标签，则不打开详情
-          e.stopPropagation();
+        if (!this.selectedImages.includes(image.id)) {
+          // 如果当前图片未选中，添加范围内的所有图片到选中列表
+          rangeImageIds.forEach(id => {
+            if (!this.selectedImages.includes(id)) {
+              this.selectedImages.push(id);
+              this.setCardSelected(id, true);
+            }
+          });
         } else {
-          // 如果没有按Ctrl/Shift键且没有点击标签，则打开详情
-          // 但如果当前有选中的图片，先清除选中状态
-          if (this.selectedImages.length > 0) {
-            this.clearImageSelection();
-          }
-          this.openImageDetail(image);
+          // 如果当前图片已选中，从选中列表中移除范围内的所有图片
+          rangeImageIds.forEach(id => {
+            const index = this.selectedImages.indexOf(id);
+            if (index !== -1) {
+              this.selectedImages.splice(index, 1);
+              this.setCardSelected(id, false);
+            }
+          });
         }
-      });
+        
+        // 更新最后选中的图片
+        this.lastSelectedImageId = image.id;
+      }
+    }
+    // 如果按住Ctrl或Cmd键点击，进行多选操作
+    else if (e.ctrlKey || e.metaKey || isSelectionIndicator) {
+      e.preventDefault();
+      e.stopPropagation(); // 阻止事件冒泡，防止打开详情
+      // 切换选中状态
+      const index = this.selectedImages.indexOf(image.id);
+      if (index > -1) {
+        this.selectedImages.splice(index, 1);
+        this.setCardSelected(image.id, false);
+      } else {
+        this.selectedImages.push(image.id);
+        this.setCardSelected(image.id, true);
+      }
       
-      // 右键点击用于选择图片（在上下文菜单显示之前）
-      imageCard.addEventListener('contextmenu', (e) => {
-        // 如果图片未被选中，将其添加到选中列表
-        if (!this.selectedImages.includes(image.id)) {
-          // 清除之前的选中状态
-          this.clearImageSelection();
-          // 选中当前图片
-          this.selectedImages.push(image.id);
-          imageCard.addClass('selected');
-          this.updateBatchOperationToolbar();
-        }
-      });
-    });
+      // 更新最后选中的图片
+      this.lastSelectedImageId = image.id;
+      
+      // 更新批量操作工具栏
+      this.updateBatchOperationToolbar();
+      return;
+    }
+    
+    // 如果点击的是路径链接，则打开文件而不是详情
+    if (target.classList.contains('file-path-link') || target.classList.contains('image-path-link')) {
+      e.preventDefault();
+      const path = target.getAttribute('data-path') || image.path;
+      this.openImageFile(path);
+    } else if (target.closest('.image-tag')) {
+      // 如果点击的是标签，则不打开详情
+      e.stopPropagation();
+    } else {
+      // 如果没有按Ctrl/Shift键且没有点击标签，则打开详情
+      // 但如果当前有选中的图片，先清除选中状态
+      if (this.selectedImages.length > 0) {
+        this.clearImageSelection();
+      }
+      this.openImageDetail(image);
+    }
+  }
+
+  // 更新已挂载卡片的选中状态；未挂载的卡片在挂载时按 selectedImages 显示
+  private setCardSelected(id: string, selected: boolean) {
+    const card = this.grid.getCell(id);
+    if (!card) return;
+    card.toggleClass('selected', selected);
+    card.querySelector('.image-selection-indicator')?.toggleClass('selected', selected);
+  }
+
+  // 更新侧边栏中依赖数据的部分
+  private updateSidebar() {
+    // 更新收藏集计数
+    this.updateCollections();
     
     // 更新统计信息
     this.updateStats();
@@ -910,41 +1214,77 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
     // 更新批量操作工具栏
     this.updateBatchOperationToolbar();
   }
-  
-  
 
-  private getTagColorIndex(tag: string): number {
-    let hash = 0;
-    for (let i = 0; i < tag.length; i++) {
-      const char = tag.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // 转换为32位整数
+  // 记录变更后只更新受影响的卡片；短时间内变更过多时重新筛选全部记录
+  private applyPendingChanges() {
+    const changes = this.pendingChanges;
+    this.pendingChanges = new Map();
+    if (!this.imageGrid || changes.size === 0) return;
+    
+    if (changes.size > MAX_PATCHED_CARDS) {
+      this.renderImages();
+      this.grid.invalidate(changes.keys());
+      return;
+    }
+    
+    const images = this.grid.getItems().filter(image => !changes.has(image.id));
+    for (const [id, image] of changes) {
+      if (!image) {
+        // 记录已删除，同时移出选择
+        this.selectedImages = this.selectedImages.filter(selectedId => selectedId !== id);
+        continue;
+      }
+      if (this.matchesFilter(image)) {
+        this.insertImage(images, image);
+      }
+    }
+    
+    this.grid.setItems(images);
+    this.grid.invalidate(changes.keys());
+    this.updateSidebar();
+  }
+
+  // 按当前排序把记录插入到列表中的正确位置（二分查找）
+  private insertImage(images: MediaData[], image: MediaData) {
+    const compare = MediaSort.createComparator(this.sort, this.settings.customFields);
+    this.searchScores?.set(image.id, this.getSearchScore(image));
+    let low = 0;
+    let high = images.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.compareVisible(image, images[middle], compare) < 0) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
     }
-    return Math.abs(hash) % 8;
+    images.splice(low, 0, image);
   }
 
+  private queueChanges(records: MediaData[], removed: boolean) {
+    this.updateCollectionMembers(records, removed);
+    for (const record of records) {
+      this.pendingChanges.set(record.id, removed ? null : record);
+    }
+    this.flushChanges();
+  }
+  
   private updateStats() {
-    const allImages = this.imageDataManager.getAllImageData();
-    const totalImages = allImages.length;
+    const totalImages = this.imageDataManager.getCount();
     
-    // 计算标签总数
-    const allTags = new Set<string>();
-    allImages.forEach(image => {
-      image.tags.forEach(tag => allTags.add(tag));
-    });
-    const totalTags = allTags.size;
+    // 标签总数直接取自标签索引
+    const totalTags = this.imageDataManager.getTagTotal();
     
-    // 计算分类总数（排除"全部图片"分类）
-    const totalCategories = this.categories.filter(cat => cat !== '全部图片').length;
+    const totalCollections = this.settings.collections.length;
     
     // 更新统计显示
     const totalImagesEl = this.containerEl.querySelector('#total-images');
     const totalTagsEl = this.containerEl.querySelector('#total-tags');
-    const totalCategoriesEl = this.containerEl.querySelector('#total-categories-stat');
+    const totalCollectionsEl = this.containerEl.querySelector('#total-collections-stat');
     
     if (totalImagesEl) totalImagesEl.setText(totalImages.toString());
     if (totalTagsEl) totalTagsEl.setText(totalTags.toString());
-    if (totalCategoriesEl) totalCategoriesEl.setText(totalCategories.toString());
+    if (totalCollectionsEl) totalCollectionsEl.setText(totalCollections.toString());
   }
 
   private toggleTagSelection(tag: string) {
@@ -969,29 +1309,11 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
 
     // 更新搜索框内容以反映当前选择的标签
 
-    const searchInput = this.containerEl.querySelector('.gallery-search-input') as HTMLInputElement;
-
-    if (searchInput) {
-
-      if (this.selectedTags.length > 0) {
-
-        searchInput.value = this.selectedTags.join(', ');
-
-        this.currentFilter = this.selectedTags.join(', ');
-
-      } else {
-
-        searchInput.value = '';
-
-        this.currentFilter = '';
-
-      }
-
-    }
+    this.applySelectedTags();
 
     
 
-    this.renderImages();
+    this.applyViewChange();
 
     this.updatePopularTags(); // 重新渲染热门标签以更新选中状态
 
@@ -1077,29 +1399,11 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
 
     // 更新搜索框内容
 
-    const searchInput = this.containerEl.querySelector('.gallery-search-input') as HTMLInputElement;
-
-    if (searchInput) {
-
-      if (this.selectedTags.length > 0) {
-
-        searchInput.value = this.selectedTags.join(', ');
-
-        this.currentFilter = this.selectedTags.join(', ');
-
-      } else {
-
-        searchInput.value = '';
-
-        this.currentFilter = '';
-
-      }
-
-    }
+    this.applySelectedTags();
 
     
 
-    this.renderImages();
+    this.applyViewChange();
 
     this.updatePopularTags(); // 重新渲染热门标签以更新选中状态
 
@@ -1107,68 +1411,110 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
 
 
 
+  // 更新侧边栏标签：热门标签或层级标签树
   private updatePopularTags() {
-
-    const tagsContainer = this.containerEl.querySelector('.tags-cloud');
-
+    const tagsContainer = this.containerEl.querySelector('.tags-cloud') as HTMLElement | null;
     if (!tagsContainer) return;
-
     
-
     tagsContainer.empty();
-
     
+    const treeMode = this.settings.tagDisplayMode === 'tree';
+    const titleEl = this.containerEl.querySelector('.gallery-tags-title');
+    titleEl?.setText(treeMode ? '标签' : '热门标签');
+    const modeButton = this.containerEl.querySelector('.tag-display-mode-btn') as HTMLElement | null;
+    if (modeButton) {
+      setIcon(modeButton, treeMode ? 'tags' : 'list-tree');
+      modeButton.setAttribute('aria-label', treeMode ? '显示热门标签' : '显示标签树');
+    }
+    tagsContainer.toggleClass('tag-tree', treeMode);
+    
+    if (treeMode) {
+      this.renderTagTree(tagsContainer);
+    } else {
+      this.renderTagCloud(tagsContainer);
+    }
+    
+    // 更新已选标签显示
+    this.updateSelectedTagsDisplay();
+  }
 
-    // 获取热门标签
+  // 已有的全部标签（按使用次数排序），供自动补全使用
+  private getTagNames(): string[] {
+    return this.imageDataManager.getAllTags().map(tagInfo => tagInfo.tag);
+  }
 
+  private renderTagCloud(tagsContainer: HTMLElement) {
+    // 获取热门标签
     const popularTags = this.imageDataManager.getPopularTags(10);
-
     
-
     popularTags.forEach(tagInfo => {
-
       const tagEl = tagsContainer.createEl('span', { 
-
         cls: `popular-tag-item ${this.selectedTags.includes(tagInfo.tag) ? 'selected' : ''}`,
-
         text: `${tagInfo.tag} (${tagInfo.count})`
-
       });
-
+      this.plugin.tagRegistry.decorate(tagEl, tagInfo.tag);
       
-
       tagEl.addEventListener('click', (e) => {
-
         e.stopPropagation(); // 防止事件冒泡
-
         this.toggleTagSelection(tagInfo.tag);
-
       });
-
+      tagEl.addEventListener('contextmenu', (e) => this.plugin.showTagMenu(e, tagInfo.tag));
     });
-
     
-
     // 如果热门标签为空，显示提示
-
     if (popularTags.length === 0) {
-
       tagsContainer.createEl('div', { 
-
         cls: 'no-popular-tags',
-
         text: '暂无标签数据'
-
       });
-
     }
+  }
 
+  // 可折叠的层级标签树，计数包含子标签的记录
+  private renderTagTree(tagsContainer: HTMLElement) {
+    const tree = this.imageDataManager.getTagTree();
+    if (tree.length === 0) {
+      tagsContainer.createEl('div', { cls: 'no-popular-tags', text: '暂无标签数据' });
+      return;
+    }
     
+    tree.forEach(node => this.renderTagTreeNode(tagsContainer, node));
+  }
 
-    // 更新已选标签显示
-
-    this.updateSelectedTagsDisplay();
-
+  private renderTagTreeNode(parent: HTMLElement, node: TagTreeNode) {
+    const item = parent.createDiv({ cls: 'tag-tree-node' });
+    const row = item.createDiv({ cls: 'tag-tree-row' });
+    row.toggleClass('selected', this.selectedTags.includes(node.path));
+    
+    const expanded = this.expandedTags.has(node.path);
+    const toggle = row.createSpan({ cls: 'tag-tree-toggle' });
+    if (node.children.length > 0) {
+      setIcon(toggle, expanded ? 'chevron-down' : 'chevron-right');
+      toggle.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (expanded) {
+          this.expandedTags.delete(node.path);
+        } else {
+          this.expandedTags.add(node.path);
+        }
+        this.updatePopularTags();
+      });
+    }
+    
+    const nameEl = row.createSpan({ cls: 'tag-tree-name', text: node.name });
+    this.plugin.tagRegistry.decorate(nameEl, node.path);
+    if (!nameEl.title) nameEl.title = node.path;
+    row.createSpan({ cls: 'tag-tree-count', text: String(node.count) });
+    row.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.toggleTagSelection(node.path);
+    });
+    row.addEventListener('contextmenu', (e) => this.plugin.showTagMenu(e, node.path));
+    
+    if (expanded && node.children.length > 0) {
+      const children = item.createDiv({ cls: 'tag-tree-children' });
+      node.children.forEach(child => this.renderTagTreeNode(children, child));
+    }
   }
 
   private openImageDetail(image: MediaData) {
@@ -1211,6 +1557,7 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
               <label>描述</label>
               <textarea class="description-input">${image.description}</textarea>
             </div>
+            <div class="custom-fields-container"></div>
             <div class="info-section tags-section">
               <label>标签</label>
               <div class="current-tags">
@@ -1255,11 +1602,30 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
       </div>
     `;
     
+    // 自定义字段编辑（点击保存时写入）
+    const fieldValues = new Map<string, CustomFieldValue | undefined>();
+    const customFieldsContainer = modal.querySelector('.custom-fields-container') as HTMLElement;
+    for (const definition of this.settings.customFields) {
+      const fieldSection = customFieldsContainer.createEl('div', { cls: 'info-section custom-field-item' });
+      fieldSection.createEl('label', { text: definition.name });
+      CustomFields.renderEditor(fieldSection, definition, CustomFields.getValue(image, definition), (value) => {
+        fieldValues.set(definition.key, value);
+      });
+    }
+    
     // 添加事件处理
     const closeBtn = modal.querySelector('.modal-close-btn');
     const cancelBtn = modal.querySelector('.modal-cancel-btn');
     
+    // 编辑过程中标签直接修改在记录上：保存时以打开前的内容作为撤销点，未保存关闭时还原
+    const before = this.plugin.editHistory.capture([image.id]);
+    let saved = false;
+    
     const closeModal = () => {
+      const original = before.get(image.id);
+      if (!saved && original) {
+        image.tags = [...original.tags];
+      }
       modal.remove();
     };
     
@@ -1346,9 +1712,16 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
       noRecentTagsEl.addClass('no-recent-tags');
     }
     
+    // 按层级补全标签
+    const addTagContainer = modal.querySelector('.add-tag-container') as HTMLElement;
+    if (newTagInput && addTagContainer) {
+      TagHierarchy.attachAutocomplete(newTagInput, addTagContainer, () => this.getTagNames());
+    }
+    
     const addTag = () => {
-      if (newTagInput && newTagInput.value.trim()) {
-        const newTag = newTagInput.value.trim();
+      if (newTagInput && TagHierarchy.normalize(newTagInput.value)) {
+        // 输入别名时保存为标准标签
+        const newTag = this.plugin.tagRegistry.resolve(newTagInput.value);
         if (!image.tags.includes(newTag)) {
           image.tags.push(newTag);
           
@@ -1408,6 +1781,8 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
 
       if (descInput) image.description = descInput.value;
 
+      fieldValues.forEach((value, key) => CustomFields.setValue(image, key, value));
+
       
 
       // 更新最后修改时间
@@ -1420,17 +1795,15 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
 
       this.imageDataManager.addImageData(image);
 
-      
-
-      // 保存到文件
+      this.plugin.editHistory.push('编辑媒体信息', before);
 
-      const plugin = getImageTaggingPlugin(this.app);
+      saved = true;
 
-      if (plugin) {
+      
 
-        await plugin.saveDataToFile();
+      // 保存到文件（卡片会在数据变更事件中更新）
 
-      }
+      await this.saveDataToFile();
 
       
 
@@ -1438,8 +1811,6 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
 
       closeModal();
 
-      this.renderImages(); // 重新渲染
-
     });
 
 
@@ -1467,151 +1838,170 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
 
 
 
-  private createCategoryElement(parent: HTMLElement, category: string, isActive: boolean): HTMLElement {
-
-    const li = parent.createEl('li', { 
-
-      cls: `category-item ${isActive ? 'active' : ''}`,
-
-      text: category
-
-    });
-
+  // 更新侧边栏收藏集：全部媒体、固定的收藏集和收藏集树，计数随记录变化更新
+  private updateCollections() {
+    const list = this.containerEl.querySelector('.collections-list') as HTMLElement | null;
+    if (!list) return;
     
-
-    // 为"全部图片"以外的分类添加删除按钮
-
-    if (category !== '全部图片') {
-
-      const deleteBtn = li.createEl('span', {
-
-        cls: 'delete-category-btn',
-
-        text: '×'
-
-      });
-
-      
-
-      deleteBtn.addEventListener('click', (e) => {
-
-        e.stopPropagation(); // 阻止点击事件冒泡到li元素
-
-        this.deleteCategory(category, parent);
-
-      });
-
+    const collections = this.settings.collections;
+    const counts = this.getCollectionCounts();
+    
+    list.empty();
+    this.createCollectionItem(list, null, this.imageDataManager.getCount(), 0);
+    
+    const pinned = collections.filter(collection => collection.pinned);
+    pinned.forEach(collection => this.createCollectionItem(list, collection, counts.get(collection.id) || 0, 0, true));
+    if (pinned.length > 0) {
+      list.createEl('li', { cls: 'collection-separator' });
     }
-
     
-
-    return li;
-
+    SmartCollections.buildTree(collections).forEach(node => this.renderCollectionNode(list, node, 0));
+  }
+  
+  // 各收藏集的记录数；缓存失效后遍历一次全部记录重新计算
+  private getCollectionCounts(): Map<string, number> {
+    if (!this.collectionCounts) {
+      this.collectionCounts = new Map(this.settings.collections.map(collection => [collection.id, 0]));
+      this.collectionMembers.clear();
+      for (const record of this.imageDataManager.getAllImageData()) {
+        this.addCollectionMember(record);
+      }
+    }
+    return this.collectionCounts;
   }
 
+  private addCollectionMember(record: MediaData) {
+    if (!this.collectionCounts) return;
+    const ids = SmartCollections.getMemberships(record, this.settings.collections, this.settings.customFields);
+    if (ids.length === 0) return;
+    this.collectionMembers.set(record.id, ids);
+    for (const id of ids) {
+      this.collectionCounts.set(id, (this.collectionCounts.get(id) || 0) + 1);
+    }
+  }
 
-
-  private addNewCategory(input: HTMLInputElement, categoriesList: HTMLElement) {
-    const newCategory = input.value.trim();
-    if (!newCategory) return;
-    
-    // 检查分类是否已存在
-    if (this.categories.includes(newCategory)) {
-      new Notice(`分类 "${newCategory}" 已存在！`);
-      return;
+  // 记录变化后只重新判断这些记录所属的收藏集
+  private updateCollectionMembers(records: MediaData[], removed: boolean) {
+    if (!this.collectionCounts) return;
+    for (const record of records) {
+      for (const id of this.collectionMembers.get(record.id) || []) {
+        this.collectionCounts.set(id, (this.collectionCounts.get(id) || 1) - 1);
+      }
+      this.collectionMembers.delete(record.id);
+      if (!removed) this.addCollectionMember(record);
     }
+  }
+  
+  private renderCollectionNode(list: HTMLElement, node: CollectionTreeNode, depth: number) {
+    this.createCollectionItem(list, node.collection, this.collectionCounts?.get(node.collection.id) || 0, depth);
+    node.children.forEach(child => this.renderCollectionNode(list, child, depth + 1));
+  }
+  
+  // 收藏集列表项，collection 为 null 时表示全部媒体
+  private createCollectionItem(list: HTMLElement, collection: SmartCollection | null, count: number, depth: number, pinned: boolean = false) {
+    const id = collection ? collection.id : null;
+    const li = list.createEl('li', { cls: 'collection-item' });
+    li.toggleClass('active', id === this.currentCollectionId);
+    li.style.setProperty('--collection-depth', String(depth));
+    
+    if (pinned) {
+      setIcon(li.createSpan({ cls: 'collection-pin-icon' }), 'pin');
+    }
+    li.createSpan({ cls: 'collection-name', text: collection ? collection.name : ALL_MEDIA_LABEL });
+    li.createSpan({ cls: 'collection-count', text: String(count) });
     
-    // 添加新分类到数组
-    this.categories.push(newCategory);
-    
-    // 保存分类到插件设置
-    this.saveCategories();
-
-    // 创建新的分类元素
-    const newCategoryElement = this.createCategoryElement(categoriesList, newCategory, false);
-    newCategoryElement.addEventListener('click', () => {
-      this.currentCategory = newCategory;
-      // 移除所有活动状态
-      categoriesList.querySelectorAll('.category-item').forEach(item => {
-        item.removeClass('active');
-      });
-      // 添加当前活动状态
-      newCategoryElement.addClass('active');
-      this.renderImages();
+    li.addEventListener('click', () => {
+      this.currentCollectionId = id;
+      this.applyViewChange();
     });
     
-    // 清空输入框
-    input.value = '';
-    
-    new Notice(`已添加分类 "${newCategory}"`);
+    if (collection) {
+      li.setAttribute('title', SmartCollections.describe(collection.query, this.settings.customFields));
+      li.addEventListener('contextmenu', (e) => this.showCollectionMenu(e, collection));
+    }
   }
-
-  private deleteCategory(category: string, categoriesList: HTMLElement) {
-    // 确认删除
-    if (confirm(`确定要删除分类 "${category}" 吗？`)) {
-      // 从数组中移除分类
-      this.categories = this.categories.filter(cat => cat !== category);
-      
-      // 保存分类到插件设置
-      this.saveCategories();
-      
-      // 如果当前分类被删除，切换到"全部图片"
-      if (this.currentCategory === category) {
-        this.currentCategory = '全部图片';
-        // 重新激活"全部图片"项
-        categoriesList.querySelectorAll('.category-item').forEach(item => {
-          item.removeClass('active');
-        });
-        const allImagesItem = Array.from(categoriesList.querySelectorAll('.category-item'))
-          .find(item => item.getText() === '全部图片');
-        if (allImagesItem) {
-          allImagesItem.addClass('active');
-        }
+  
+  private showCollectionMenu(event: MouseEvent, collection: SmartCollection) {
+    event.preventDefault();
+    const menu = new Menu();
+    menu.addItem(item => item
+      .setTitle('编辑收藏集')
+      .setIcon('pencil')
+      .onClick(() => this.openCollectionEditor(collection)));
+    menu.addItem(item => item
+      .setTitle('新建子收藏集')
+      .setIcon('folder-plus')
+      .onClick(() => this.createCollection(collection.id)));
+    menu.addItem(item => item
+      .setTitle(collection.pinned ? '取消固定' : '固定到顶部')
+      .setIcon(collection.pinned ? 'pin-off' : 'pin')
+      .onClick(() => this.saveCollection({ ...collection, pinned: collection.pinned ? undefined : true })));
+    menu.addItem(item => item
+      .setTitle('删除收藏集')
+      .setIcon('trash')
+      .onClick(() => this.deleteCollection(collection)));
+    menu.showAtMouseEvent(event);
+  }
+  
+  // 新建收藏集，以当前选择的标签作为初始条件
+  private createCollection(parentId?: string) {
+    this.openCollectionEditor(SmartCollections.create('', { allTags: [...this.selectedTags] }, parentId));
+  }
+  
+  private openCollectionEditor(collection: SmartCollection) {
+    new CollectionEditModal(this.app, collection, {
+      collections: this.settings.collections,
+      fieldDefinitions: this.settings.customFields,
+      getTags: () => this.getTagNames(),
+      resolveTag: (tag) => this.plugin.tagRegistry.resolve(tag),
+      countMatches: (item, collections) => this.imageDataManager.getAllImageData()
+        .filter(image => image.path && SmartCollections.matches(image, item, collections, this.settings.customFields)).length
+    }, async (edited) => {
+      this.currentCollectionId = edited.id;
+      await this.saveCollection(edited);
+      this.app.workspace.requestSaveLayout();
+    }).open();
+  }
+  
+  // 保存新建或修改的收藏集，并更新所有图库
+  private async saveCollection(collection: SmartCollection) {
+    const collections = this.settings.collections;
+    const exists = collections.some(item => item.id === collection.id);
+    await this.saveCollections(exists
+      ? collections.map(item => item.id === collection.id ? collection : item)
+      : [...collections, collection]);
+  }
+  
+  // 删除收藏集，其下级收藏集移到被删除收藏集的上级
+  private deleteCollection(collection: SmartCollection) {
+    new ConfirmModal(this.app, {
+      title: '删除收藏集',
+      message: `确定要删除收藏集 "${collection.name}" 吗？`,
+      confirmText: '删除',
+      warning: true
+    }, async () => {
+      const wasCurrent = this.currentCollectionId === collection.id;
+      if (wasCurrent) {
+        this.currentCollectionId = null;
       }
-      
-      // 重新渲染分类列表
-      this.renderCategoryList(categoriesList);
-      this.renderImages(); // 重新渲染图片
-      
-      new Notice(`已删除分类 "${category}"`);
-    }
+      await this.saveCollections(this.settings.collections
+        .filter(item => item.id !== collection.id)
+        .map(item => item.parentId === collection.id ? { ...item, parentId: collection.parentId } : item));
+      if (wasCurrent) this.app.workspace.requestSaveLayout();
+      new Notice(`已删除收藏集 "${collection.name}"`);
+    }).open();
   }
-
-  private async saveCategories() {
+  
+  private async saveCollections(collections: SmartCollection[]) {
     try {
-      // 获取插件实例
-      const plugin = getImageTaggingPlugin(this.app);
-      if (plugin) {
-        // 更新插件设置中的分类
-        plugin.settings.categories = this.categories;
-        // 保存设置
-        await plugin.saveSettings();
-      }
+      this.plugin.settings.collections = collections;
+      await this.plugin.saveSettings();
+      this.plugin.refreshCollections();
     } catch (error) {
-      Logger.error('保存分类失败:', error);
+      Logger.error('保存收藏集失败:', error);
     }
   }
 
-  private renderCategoryList(categoriesList: HTMLElement) {
-    // 清空现有分类列表
-    categoriesList.empty();
-    
-    // 重新添加所有分类
-    this.categories.forEach((category, index) => {
-      const li = this.createCategoryElement(categoriesList, category, category === this.currentCategory);
-      li.addEventListener('click', () => {
-        this.currentCategory = category;
-        // 移除所有活动状态
-        categoriesList.querySelectorAll('.category-item').forEach(item => {
-          item.removeClass('active');
-        });
-        // 添加当前活动状态
-        li.addClass('active');
-        this.renderImages();
-      });
-    });
-  }
-
   private async openImageFile(path: string) {
 
     try {
@@ -1700,6 +2090,7 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
               <div class="batch-operation-controls">
                 <button class="batch-add-tag-btn">添加标签</button>
                 <button class="batch-remove-tag-btn">删除标签</button>
+                <button class="batch-add-album-btn">添加到相册</button>
                 <button class="batch-clear-selection">清除选择</button>
               </div>
             </div>
@@ -1708,6 +2099,7 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
           // 添加事件监听器
           const addTagBtn = batchToolbar.querySelector('.batch-add-tag-btn');
           const removeTagBtn = batchToolbar.querySelector('.batch-remove-tag-btn');
+          const addAlbumBtn = batchToolbar.querySelector('.batch-add-album-btn');
           const clearSelectionBtn = batchToolbar.querySelector('.batch-clear-selection');
           
           if (addTagBtn) {
@@ -1718,6 +2110,10 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
             removeTagBtn.addEventListener('click', () => this.showBatchTagModal('remove'));
           }
           
+          if (addAlbumBtn) {
+            addAlbumBtn.addEventListener('click', (e) => this.plugin.showAddToAlbumMenu(e as MouseEvent, [...this.selectedImages]));
+          }
+          
           if (clearSelectionBtn) {
             clearSelectionBtn.addEventListener('click', () => {
               this.clearImageSelection();
@@ -1759,7 +2155,9 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
             <p>选中的项目: ${this.selectedImages.length} 个</p>
             <div class="tag-input-section">
               <label for="batch-tag-input">${operationText}标签:</label>
-              <input type="text" id="batch-tag-input" class="batch-tag-input" placeholder="输入标签，多个标签用逗号分隔">
+              <div class="batch-tag-input-container">
+                <input type="text" id="batch-tag-input" class="batch-tag-input" placeholder="输入标签，多个标签用逗号分隔，用 / 分隔层级">
+              </div>
               <div class="recent-tags-section">
                 <label>热门标签:</label>
                 <div class="recent-tags-list" id="batch-recent-tags-list"></div>
@@ -1780,6 +2178,12 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
     const confirmBtn = modal.querySelector('.modal-confirm-btn');
     const tagInput = modal.querySelector('.batch-tag-input') as HTMLInputElement;
     const recentTagsContainer = modal.querySelector('#batch-recent-tags-list') as HTMLElement;
+    const tagInputContainer = modal.querySelector('.batch-tag-input-container') as HTMLElement;
+    
+    // 按层级补全最后一个逗号之后的标签
+    if (tagInput && tagInputContainer) {
+      TagHierarchy.attachAutocomplete(tagInput, tagInputContainer, () => this.getTagNames(), true);
+    }
     
     // 填充热门标签
     if (recentTagsContainer) {
@@ -1790,6 +2194,8 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
             cls: 'popular-tag-item',
             text: tagInfo.tag
           });
+          this.plugin.tagRegistry.decorate(tagEl, tagInfo.tag);
+          tagEl.addEventListener('contextmenu', (e) => this.plugin.showTagMenu(e, tagInfo.tag));
           
           tagEl.addEventListener('click', () => {
             if (tagInput.value) {
@@ -1820,18 +2226,20 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
       confirmBtn.addEventListener('click', async () => {
         if (tagInput && tagInput.value.trim()) {
           const tags = tagInput.value.split(',')
-            .map(tag => tag.trim())
+            .map(tag => this.plugin.tagRegistry.resolve(tag))
             .filter(tag => tag.length > 0);
           
           if (tags.length > 0) {
-            if (operation === 'add') {
-              await this.batchAddTags(tags);
+            const recorded = operation === 'add'
+              ? await this.batchAddTags(tags)
+              : await this.batchRemoveTags(tags);
+            closeModal();
+            const message = `已${operationText}标签到 ${this.selectedImages.length} 个图片`;
+            if (recorded) {
+              this.showUndoNotice(message);
             } else {
-              await this.batchRemoveTags(tags);
+              new Notice(message);
             }
-            closeModal();
-            new Notice(`已${operationText}标签到 ${this.selectedImages.length} 个图片`);
-            this.renderImages(); // 重新渲染以显示更改
           }
         } else {
           new Notice('请输入标签');
@@ -1840,46 +2248,106 @@ private async createImageDataFromFile(file: TFile, id?: string): Promise<MediaDa
     }
   }
   
-  // 批量添加标签
-  private async batchAddTags(tags: string[]) {
-    for (const imageId of this.selectedImages) {
-      const imageData = this.imageDataManager.getImageData(imageId);
-      if (imageData) {
-        // 添加新标签，避免重复
-        for (const tag of tags) {
-          if (!imageData.tags.includes(tag)) {
-            imageData.tags.push(tag);
+  // 批量添加标签，返回是否产生了可撤销的修改
+  private async batchAddTags(tags: string[]): Promise<boolean> {
+    const recorded = this.plugin.editHistory.run('批量添加标签', this.selectedImages, () => {
+      for (const imageId of this.selectedImages) {
+        const imageData = this.imageDataManager.getImageData(imageId);
+        if (imageData) {
+          // 添加新标签，避免重复
+          for (const tag of tags) {
+            if (!imageData.tags.includes(tag)) {
+              imageData.tags.push(tag);
+            }
           }
+          // 更新数据
+          this.imageDataManager.addImageData(imageData);
         }
-        // 更新数据
-        this.imageDataManager.addImageData(imageData);
       }
-    }
+    });
     
     // 保存数据
-    const plugin = getImageTaggingPlugin(this.app);
-    if (plugin) {
-      await plugin.saveDataToFile();
-    }
+    await this.saveDataToFile();
+    return recorded;
   }
   
-  // 批量删除标签
-  private async batchRemoveTags(tags: string[]) {
-    for (const imageId of this.selectedImages) {
-      const imageData = this.imageDataManager.getImageData(imageId);
-      if (imageData) {
-        // 删除指定标签
-        imageData.tags = imageData.tags.filter(tag => !tags.includes(tag));
-        // 更新数据
-        this.imageDataManager.addImageData(imageData);
+  // 批量删除标签，返回是否产生了可撤销的修改
+  private async batchRemoveTags(tags: string[]): Promise<boolean> {
+    const recorded = this.plugin.editHistory.run('批量删除标签', this.selectedImages, () => {
+      for (const imageId of this.selectedImages) {
+        const imageData = this.imageDataManager.getImageData(imageId);
+        if (imageData) {
+          // 删除指定标签
+          imageData.tags = imageData.tags.filter(tag => !tags.includes(tag));
+          // 更新数据
+          this.imageDataManager.addImageData(imageData);
+        }
       }
-    }
+    });
     
     // 保存数据
-    const plugin = getImageTaggingPlugin(this.app);
-    if (plugin) {
-      await plugin.saveDataToFile();
+    await this.saveDataToFile();
+    return recorded;
+  }
+  
+  // 修改指定记录并记录为一次可撤销的编辑
+  private async updateImages(label: string, ids: string[], update: (image: MediaData) => void) {
+    this.plugin.editHistory.run(label, ids, () => {
+      for (const id of ids) {
+        const image = this.imageDataManager.getImageData(id);
+        if (image) {
+          update(image);
+          this.imageDataManager.addImageData(image);
+        }
+      }
+    });
+    await this.saveDataToFile();
+  }
+
+  private rateSelectedImages(rating: number) {
+    if (this.selectedImages.length === 0) {
+      new Notice('请先选择要评分的媒体');
+      return;
+    }
+    const ids = [...this.selectedImages];
+    this.updateImages('设置评分', ids, image => MediaRating.setRating(image, rating));
+    new Notice(rating > 0 ? `已将 ${ids.length} 个媒体评为 ${rating} 星` : `已清除 ${ids.length} 个媒体的评分`);
+  }
+
+  // 选中的媒体中有未收藏的则全部收藏，否则全部取消收藏
+  private toggleSelectedFavorites() {
+    if (this.selectedImages.length === 0) {
+      new Notice('请先选择要收藏的媒体');
+      return;
     }
+    const ids = [...this.selectedImages];
+    const favorite = ids.some(id => !this.imageDataManager.getImageData(id)?.favorite);
+    this.updateImages(favorite ? '收藏' : '取消收藏', ids, image => MediaRating.setFavorite(image, favorite));
+    new Notice(favorite ? `已收藏 ${ids.length} 个媒体` : `已取消收藏 ${ids.length} 个媒体`);
+  }
+
+  private handleShortcut(action: () => void): boolean {
+    const active = document.activeElement;
+    if (active instanceof HTMLElement && active.closest('input, textarea, [contenteditable="true"]')) {
+      return true;
+    }
+    action();
+    return false;
+  }
+  
+  // 显示带“撤销”按钮的提示
+  private showUndoNotice(message: string) {
+    let notice: Notice | null = null;
+    const fragment = createFragment(frag => {
+      frag.createSpan({ text: message });
+      const undoBtn = frag.createEl('button', { cls: 'undo-notice-button', text: '撤销' });
+      undoBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        notice?.hide();
+        this.plugin.undoEdit();
+      });
+    });
+    notice = new Notice(fragment, UNDO_NOTICE_DURATION);
   }
   
   /**
@@ -1,15 +1,21 @@
 // image-data-model.ts - 媒体数据模型定义
-import { TFile, App } from 'obsidian';
+import { TFile, App, Events, EventRef } from 'obsidian';
 import { Logger } from './logger';
-import { DEFAULT_JSON_STORAGE_PATH, DEFAULT_SUPPORTED_FORMATS, DEFAULT_CATEGORIES } from './constants';
-import { DataMigration } from './data-migration';
+import { DEFAULT_JSON_STORAGE_PATH, DEFAULT_SUPPORTED_FORMATS, CURRENT_SCHEMA_VERSION, DEFAULT_MAX_BACKUPS, DEFAULT_MEDIA_NOTES_FOLDER, DEFAULT_THUMBNAIL_SIZE, DEFAULT_PANEL_THUMBNAIL_SIZE, DEFAULT_THUMBNAIL_CACHE_LIMIT, DEFAULT_VIDEO_POSTER_TIME } from './constants';
+import { DataMigration, MigrationResult } from './data-migration';
+import { TagHierarchy, TagTreeNode } from './tag-hierarchy';
+import { TagRegistry } from './tag-registry';
+import { CustomFieldFilter } from './custom-fields';
+import { MediaQuery, ParsedQuery } from './media-query';
+import { MediaSearch } from './media-search';
 
 export interface MediaData {
   id: string;              // 唯一标识符
   path: string;            // 文件在 Obsidian 库中的路径
   title: string;           // 标题
   tags: string[];          // 标签数组
-  date: string;            // 添加/修改日期 (ISO 格式)
+  date: string;            // 最后一次编辑信息的时间 (ISO 格式)
+  addedAt?: string;        // 加入媒体库的时间 (ISO 格式)，创建后不再改变（v7 起）
   size: string;            // 文件大小 (例如 "2.4 MB")
   resolution: string;      // 分辨率（对于图片）或时长（对于视频/音频）
   format: string;          // 文件格式 (例如 "JPG", "MP4", "MP3")
@@ -19,20 +25,120 @@ export interface MediaData {
   width?: number;          // 宽度 (对于图片/视频)
   height?: number;         // 高度 (对于图片/视频)
   fileSize?: number;       // 文件大小 (以字节为单位，可选)
+  fingerprint?: string;    // 内容指纹（字节数 + 部分内容哈希），用于外部重命名/移动后重新关联
+  fields?: Record<string, CustomFieldValue>; // 自定义字段的值，键为字段定义中的 key
+  rating?: number;         // 星级评分 1-5，未评分时省略
+  favorite?: boolean;      // 是否收藏，未收藏时省略
   type: 'image' | 'video' | 'audio'; // 媒体类型
 }
 
+// 自定义字段类型
+export type CustomFieldType = 'text' | 'number' | 'date' | 'url' | 'select' | 'multi-select' | 'boolean';
+
+// 自定义字段的值：数字为 number，布尔为 boolean，多选为 string[]，其余为字符串（日期为 YYYY-MM-DD）
+export type CustomFieldValue = string | number | boolean | string[];
+
+// 自定义字段定义（保存在设置中）
+export interface CustomFieldDefinition {
+  key: string;             // 记录中保存值使用的键，创建后不再改变
+  name: string;            // 显示名称
+  type: CustomFieldType;
+  options?: string[];      // 单选/多选字段的可选值
+}
+
+// 标签定义（与记录一起保存在数据文件中）：标准标签的别名和外观
+export interface TagDefinition {
+  tag: string;             // 标准标签
+  aliases: string[];       // 别名，输入别名时保存为标准标签，搜索别名时匹配标准标签
+  color?: string;          // 标签颜色（十六进制，如 #4c6ef5），子标签未设置时沿用
+  icon?: string;           // 标签图标（Lucide 图标名称），子标签未设置时沿用
+  description?: string;    // 标签说明，悬停标签时显示
+}
+
+// 收藏集的查询条件，各项条件同时满足；为空的条件不限制
+export interface CollectionQuery {
+  allTags: string[];       // 必须带有全部这些标签（含子标签）
+  anyTags: string[];       // 至少带有其中一个标签（含子标签）
+  excludeTags: string[];   // 不能带有这些标签（含子标签）
+  types: MediaData['type'][]; // 媒体类型
+  formats: string[];       // 格式（大写扩展名）
+  folder: string;          // 所在文件夹（含子文件夹）
+  dateFrom: string;        // 添加日期下限 YYYY-MM-DD（含）
+  dateTo: string;          // 添加日期上限 YYYY-MM-DD（含）
+  fields: CustomFieldFilter[]; // 自定义字段条件
+}
+
+// 智能收藏集（保存在设置中）：保存的查询，子收藏集同时满足上级收藏集的条件
+export interface SmartCollection {
+  id: string;
+  name: string;
+  parentId?: string;       // 上级收藏集
+  pinned?: boolean;        // 是否固定在图库侧边栏顶部
+  query: CollectionQuery;
+}
+
+// 相册：手动挑选并排序的媒体，与标签无关，同一媒体可以出现在多个相册中
+export interface MediaAlbum {
+  id: string;
+  name: string;
+  items: string[];         // 媒体记录ID，按相册中的顺序
+  cover?: string;          // 封面的记录ID，未设置时使用第一项
+  createdAt: string;       // 创建时间 (ISO 格式)
+}
+
 // 向后兼容的别名
 export type ImageData = MediaData;
 
+// 媒体库元数据（随数据文件一起保存）
+export interface LibraryMetadata {
+  createdAt: string;       // 数据文件创建时间 (ISO 格式)
+  updatedAt: string;       // 最后写入时间 (ISO 格式)
+  pluginVersion?: string;  // 最后写入该文件的插件版本
+}
+
+// 数据文件的版本化封装格式
+export interface MediaLibraryEnvelope {
+  schemaVersion: number;   // 数据格式版本
+  library: LibraryMetadata;
+  items: MediaData[];
+  albums?: MediaAlbum[];   // 相册（v5 起）
+  tagDefinitions?: TagDefinition[]; // 标签的别名、颜色、图标和说明（v6 起）
+}
+
+// 自上次保存以来的数据变更（供按记录写入的存储后端使用）
+export interface MediaChanges {
+  upserted: MediaData[];   // 新增或修改的记录
+  removed: MediaData[];    // 已删除的记录（保留删除前的内容以便定位存储位置）
+  albums: boolean;         // 相册是否有修改
+  tagDefinitions: boolean; // 标签定义是否有修改
+}
+
+// 建立索引时记录的字段快照（记录可能被原地修改，更新索引时需要旧值）
+interface IndexedFields {
+  path: string;
+  tags: string[];
+  type: MediaData['type'];
+  format: string;
+  folder: string;
+}
+
+// 数据管理器事件：新增、修改、删除记录，或整体替换数据（加载、恢复备份等）
+// 所有事件的回调参数都是受影响的记录；bulk 事件携带替换后的全部记录
+// 相册变化时另外发出 albums 事件，回调参数为全部相册；标签定义变化时发出 tag-definitions 事件
+export type MediaDataEventName = 'added' | 'updated' | 'removed' | 'bulk';
+
+// 存储后端类型：单个 JSON 文件 / 按文件夹分片 / 每个媒体文件旁的附属文件
+export type StorageBackendType = 'json' | 'sharded' | 'sidecar';
+
+// 图库侧边栏的标签显示方式：热门标签 / 层级标签树
+export type TagDisplayMode = 'cloud' | 'tree';
+
 // 插件设置接口
 
 export interface ImageTaggingSettings {
 
   jsonStoragePath: string;
 
-  categories: string[];
-
   supportedFormats: string[];
 
   showInFileExplorer: boolean;
@@ -48,6 +154,32 @@ export interface ImageTaggingSettings {
   scanMultipleFolderPaths: string[]; // 新增：支持多个扫描文件夹路径
 
   recentTags: string[]; // 最近使用的标签
+
+  maxBackups: number; // 数据文件保留的滚动备份数量
+
+  storageBackend: StorageBackendType; // 标签数据的存储方式
+
+  enableMediaNotes: boolean; // 是否为每条记录维护一篇媒体笔记
+
+  mediaNotesFolder: string; // 媒体笔记所在的文件夹
+
+  customFields: CustomFieldDefinition[]; // 自定义字段定义
+
+  tagDisplayMode: TagDisplayMode; // 图库侧边栏的标签显示方式
+
+  tagRegistry?: TagDefinition[]; // 早期版本保存在设置中的标签定义，加载时移到数据文件
+
+  collections: SmartCollection[]; // 智能收藏集
+
+  enableThumbnails: boolean; // 卡片和预览使用缓存的缩略图代替原图
+
+  thumbnailSize: number; // 卡片和列表缩略图的最长边（像素）
+
+  panelThumbnailSize: number; // 媒体信息面板预览的最长边（像素）
+
+  thumbnailCacheLimit: number; // 缩略图缓存的大小上限（MB）
+
+  videoPosterTime: number; // 截取视频封面的时间点（秒）
 }
 
 // 默认设置 
@@ -56,8 +188,6 @@ export const DEFAULT_SETTINGS: ImageTaggingSettings = {
 
   jsonStoragePath: DEFAULT_JSON_STORAGE_PATH,
 
-  categories: DEFAULT_CATEGORIES,
-
   supportedFormats: DEFAULT_SUPPORTED_FORMATS,
 
   showInFileExplorer: true,
@@ -72,6 +202,30 @@ export const DEFAULT_SETTINGS: ImageTaggingSettings = {
 
   scanMultipleFolderPaths: [], // 默认为空数组
   recentTags: [], // 默认没有最近使用的标签,
+
+  maxBackups: DEFAULT_MAX_BACKUPS,
+
+  storageBackend: 'json',
+
+  enableMediaNotes: false,
+
+  mediaNotesFolder: DEFAULT_MEDIA_NOTES_FOLDER,
+
+  customFields: [],
+
+  tagDisplayMode: 'cloud',
+
+  collections: [],
+
+  enableThumbnails: true,
+
+  thumbnailSize: DEFAULT_THUMBNAIL_SIZE,
+
+  panelThumbnailSize: DEFAULT_PANEL_THUMBNAIL_SIZE,
+
+  thumbnailCacheLimit: DEFAULT_THUMBNAIL_CACHE_LIMIT,
+
+  videoPosterTime: DEFAULT_VIDEO_POSTER_TIME,
 };
 
 // 媒体文件类型检查辅助函数
@@ -98,29 +252,63 @@ export function getMediaType(file: TFile): 'image' | 'video' | 'audio' | null {
 
 // 数据管理器类 
 
-export class ImageDataManager {
+export class ImageDataManager extends Events {
   private data: Map<string, MediaData> = new Map();
   private pathToIdMap: Map<string, string> = new Map(); // 添加路径到ID的映射以提高查找效率
   private recentTags: string[] = [];
   private maxRecentTags: number = 20; // 限制最近标签数量
+  private library: LibraryMetadata = DataMigration.createLibraryMetadata();
+  private dirtyIds: Set<string> = new Set(); // 自上次保存以来修改过的记录
+  private removedRecords: Map<string, MediaData> = new Map(); // 自上次保存以来删除的记录
+  // 查询索引：随增删记录增量维护，避免每次查询遍历全部记录
+  private indexed: Map<string, IndexedFields> = new Map(); // 记录ID -> 建立索引时的字段
+  private tagIndex: Map<string, Set<string>> = new Map(); // 标签 -> 记录ID（集合大小即标签计数）
+  private typeIndex: Map<string, Set<string>> = new Map(); // 媒体类型 -> 记录ID
+  private formatIndex: Map<string, Set<string>> = new Map(); // 格式（大写扩展名） -> 记录ID
+  private folderIndex: Map<string, Set<string>> = new Map(); // 所在文件夹 -> 记录ID
+  private tagRegistry: TagRegistry | null = null; // 搜索时按别名匹配标准标签
+  private albums: MediaAlbum[] = [];
+  private albumsDirty = false; // 自上次保存以来相册是否有修改
+  private tagDefinitions: TagDefinition[] = [];
+  private tagDefinitionsDirty = false; // 自上次保存以来标签定义是否有修改
   
   constructor(recentTags: string[] = []) {
+    super();
     this.recentTags = recentTags;
   }
   
+  setTagRegistry(registry: TagRegistry) {
+    this.tagRegistry = registry;
+  }
+  
+  // 订阅数据变更事件
+  on(name: 'albums', callback: (albums: MediaAlbum[]) => any, ctx?: any): EventRef;
+  on(name: 'tag-definitions', callback: (definitions: TagDefinition[]) => any, ctx?: any): EventRef;
+  on(name: MediaDataEventName, callback: (records: MediaData[]) => any, ctx?: any): EventRef;
+  on(name: string, callback: (data: any) => any, ctx?: any): EventRef {
+    return super.on(name, callback, ctx);
+  }
+  
+  private emit(name: MediaDataEventName, records: MediaData[]) {
+    this.trigger(name, records);
+  }
+  
   // 添加或更新媒体数据
   addImageData(mediaData: MediaData): void {
-    // 如果之前存在相同路径的数据，先删除旧的路径映射
-    const existingData = this.data.get(mediaData.id);
-    if (existingData && existingData.path !== mediaData.path) {
-      this.pathToIdMap.delete(existingData.path);
-    }
+    // 先移除旧的索引和路径映射（按快照移除，记录可能已被原地修改）
+    const isNew = !this.data.has(mediaData.id);
+    this.unindexRecord(mediaData.id);
     
     this.data.set(mediaData.id, mediaData);
     this.pathToIdMap.set(mediaData.path, mediaData.id); // 添加路径到ID的映射
+    this.indexRecord(mediaData);
+    this.dirtyIds.add(mediaData.id);
+    this.removedRecords.delete(mediaData.id);
     
     // 更新最近使用的标签
     this.updateRecentTags(mediaData.tags);
+    
+    this.emit(isNew ? 'added' : 'updated', [mediaData]);
   }
   
   // 获取媒体数据
@@ -137,9 +325,14 @@ export class ImageDataManager {
   removeImageData(id: string): boolean {
     const mediaData = this.data.get(id);
     if (mediaData) {
-      this.pathToIdMap.delete(mediaData.path); // 同时删除路径映射
+      this.unindexRecord(id); // 同时删除路径映射和索引
+      this.dirtyIds.delete(id);
+      this.removedRecords.set(id, mediaData);
+      this.data.delete(id);
+      this.emit('removed', [mediaData]);
+      return true;
     }
-    return this.data.delete(id);
+    return false;
   }
   
   // 根据路径获取媒体数据
@@ -151,37 +344,461 @@ export class ImageDataManager {
     return undefined;
   }
   
-  // 搜索包含特定标签的媒体
+  // 获取记录总数
+  getCount(): number {
+    return this.data.size;
+  }
+  
+  // 搜索包含特定标签或其子标签（tag/...）的媒体
   searchByTag(tag: string): MediaData[] {
-    return Array.from(this.data.values()).filter(media => 
-      media.tags.includes(tag)
-    );
+    return this.resolveIds(this.getIdsByTag(tag));
   }
   
-  // 搜索包含特定关键词的媒体（标题或标签）
+  // 搜索同时包含所有指定标签（或其子标签）的媒体
+  searchByTags(tags: string[]): MediaData[] {
+    if (tags.length === 0) return this.getAllImageData();
+    return this.resolveIds(this.intersect(tags.map(tag => this.getIdsByTag(tag))));
+  }
+  
+  // 搜索对每个片段都至少有一个标签包含该片段的媒体（不区分大小写）
+  searchByTagFragments(fragments: string[]): MediaData[] {
+    if (fragments.length === 0) return this.getAllImageData();
+    return this.resolveIds(this.intersect(fragments.map(fragment => this.getIdsByTagFragment(fragment))));
+  }
+  
+  /**
+   * 搜索媒体并按相关度从高到低排序（标题、标签、文件名和描述，支持拼音、中文分词和拼写容错）
+   * 多个关键词用空格分隔，需全部匹配
+   */
   search(keyword: string): MediaData[] {
-    const lowerKeyword = keyword.toLowerCase();
-    return Array.from(this.data.values()).filter(media => 
-      media.title.toLowerCase().includes(lowerKeyword) ||
-      media.description.toLowerCase().includes(lowerKeyword) ||
-      media.tags.some(tag => tag.toLowerCase().includes(lowerKeyword))
+    if (MediaSearch.splitTerms(keyword).length === 0) return this.getAllImageData();
+    return MediaSearch.search(this.getAllImageData(), keyword, (media, term) => this.getSearchScore(media, term))
+      .map(result => result.record);
+  }
+  
+  /**
+   * 记录与单个关键词的相关度，0 表示不匹配；关键词是标签别名时按标准标签计分
+   */
+  getSearchScore(mediaData: MediaData, keyword: string): number {
+    const aliasTags = this.tagRegistry?.findByAlias(keyword.toLowerCase()) || [];
+    return MediaSearch.score(mediaData, keyword, aliasTags);
+  }
+  
+  /**
+   * 按查询语言筛选媒体（语法见 MediaQuery），查询有语法错误时忽略出错的条件
+   * @param query - 查询文本或已解析的查询
+   */
+  query(query: string | ParsedQuery): MediaData[] {
+    const parsed = typeof query === 'string' ? MediaQuery.parse(query) : query;
+    if (!parsed.root) return this.getAllImageData();
+    MediaSearch.prepare(this.data.size);
+    return this.getAllImageData().filter(media => MediaQuery.matches(media, parsed, this));
+  }
+  
+  /**
+   * 按查询筛选媒体并同时计算相关度（规则与 query 和 MediaQuery.score 相同），每条记录只求值一次
+   */
+  queryWithScores(query: ParsedQuery): { record: MediaData; score: number }[] {
+    const results: { record: MediaData; score: number }[] = [];
+    MediaSearch.prepare(this.data.size);
+    for (const record of this.getAllImageData()) {
+      const score = MediaQuery.match(record, query, this);
+      if (score !== null) results.push({ record, score });
+    }
+    return results;
+  }
+  
+  // 单条记录是否满足查询（规则与 query 相同）
+  matchesQuery(mediaData: MediaData, query: string | ParsedQuery): boolean {
+    const parsed = typeof query === 'string' ? MediaQuery.parse(query) : query;
+    return MediaQuery.matches(mediaData, parsed, this);
+  }
+  
+  // 将标签（或别名）转换为标准标签，未设置标签注册表时只做格式规范化
+  resolveTag(tag: string): string {
+    return this.tagRegistry ? this.tagRegistry.resolve(tag) : TagHierarchy.normalize(tag);
+  }
+  
+  // 单条记录是否有标签匹配该片段（规则与 searchByTagFragments 相同）
+  matchesTagFragment(mediaData: MediaData, fragment: string): boolean {
+    const lowerFragment = fragment.toLowerCase();
+    const canonicalTags = this.tagRegistry?.findByAlias(lowerFragment) || [];
+    return mediaData.tags.some(tag =>
+      tag.toLowerCase().includes(lowerFragment) ||
+      canonicalTags.some(canonical => TagHierarchy.isWithin(tag, canonical))
     );
   }
   
+  /**
+   * 逐条改写记录的标签，改写后重复的标签只保留一个
+   * @param rewrite - 返回新的标签（拆分时返回多个），返回空字符串或空数组表示删除该标签
+   * @returns 标签实际发生变化的记录数
+   */
+  rewriteTags(ids: string[], rewrite: (tag: string) => string | string[]): number {
+    let changed = 0;
+    for (const id of ids) {
+      const mediaData = this.data.get(id);
+      if (!mediaData) continue;
+      
+      const rewritten = mediaData.tags.reduce<string[]>((result, tag) => result.concat(rewrite(tag)), []);
+      const tags = Array.from(new Set(rewritten.filter(tag => tag.length > 0)));
+      if (tags.length === mediaData.tags.length && tags.every((tag, index) => tag === mediaData.tags[index])) continue;
+      
+      mediaData.tags = tags;
+      this.addImageData(mediaData);
+      changed++;
+    }
+    return changed;
+  }
+  
+  /**
+   * 带有指定标签的记录ID
+   * @param includeDescendants - 是否包含只带有子标签的记录
+   */
+  getTagRecordIds(tags: string[], includeDescendants: boolean = true): string[] {
+    const ids = new Set<string>();
+    for (const tag of tags) {
+      const tagIds = includeDescendants ? this.getIdsByTag(tag) : (this.tagIndex.get(tag) || new Set<string>());
+      tagIds.forEach(id => ids.add(id));
+    }
+    return Array.from(ids);
+  }
+  
+  /**
+   * 将标签（连同其子标签）重命名为目标标签，目标标签已存在时合并；传入多个标签即为合并
+   * 例如将 travel 重命名为 trip 时，travel/japan 变为 trip/japan
+   * @returns 修改的记录数
+   */
+  renameTags(sources: string[], target: string): number {
+    const ids = this.getTagRecordIds(sources);
+    // 同时合并父标签和子标签时优先匹配更深的层级
+    const ordered = [...sources].sort((a, b) => b.length - a.length);
+    return this.rewriteTags(ids, tag => {
+      const source = ordered.find(item => TagHierarchy.isWithin(tag, item));
+      return source === undefined ? tag : target + tag.substring(source.length);
+    });
+  }
+  
+  /**
+   * 将一个标签拆分为多个标签（不影响子标签）
+   * @returns 修改的记录数
+   */
+  splitTag(source: string, targets: string[]): number {
+    const ids = this.getTagRecordIds([source], false);
+    return this.rewriteTags(ids, tag => tag === source ? targets : tag);
+  }
+  
+  /**
+   * 从所有记录中删除标签（不影响子标签）
+   * @returns 修改的记录数
+   */
+  deleteTag(tag: string): number {
+    const ids = this.getTagRecordIds([tag], false);
+    return this.rewriteTags(ids, item => item === tag ? '' : item);
+  }
+  
+  // 获取全部相册，相册中已不存在的记录被忽略
+  getAlbums(): MediaAlbum[] {
+    return this.albums.map(album => ({ ...album, items: album.items.filter(id => this.data.has(id)) }));
+  }
+  
+  getAlbum(id: string): MediaAlbum | undefined {
+    return this.getAlbums().find(album => album.id === id);
+  }
+  
+  // 相册中的媒体（按相册顺序）
+  getAlbumItems(id: string): MediaData[] {
+    const album = this.albums.find(item => item.id === id);
+    return album ? this.resolveIds(new Set(album.items)) : [];
+  }
+  
+  // 相册的封面，未设置或封面已不在相册中时使用第一项
+  getAlbumCover(id: string): MediaData | undefined {
+    const album = this.albums.find(item => item.id === id);
+    if (!album) return undefined;
+    const cover = album.cover && album.items.includes(album.cover) ? this.data.get(album.cover) : undefined;
+    return cover || this.getAlbumItems(id)[0];
+  }
+  
+  createAlbum(name: string): MediaAlbum {
+    const album: MediaAlbum = {
+      id: `album_${crypto.randomUUID()}`,
+      name,
+      items: [],
+      createdAt: new Date().toISOString()
+    };
+    this.albums.push(album);
+    this.markAlbumsChanged();
+    return album;
+  }
+  
+  renameAlbum(id: string, name: string): void {
+    this.updateAlbum(id, album => album.name = name);
+  }
+  
+  deleteAlbum(id: string): void {
+    const count = this.albums.length;
+    this.albums = this.albums.filter(album => album.id !== id);
+    if (this.albums.length !== count) this.markAlbumsChanged();
+  }
+  
+  /**
+   * 将媒体追加到相册末尾，已在相册中的媒体保持原位
+   * @returns 新加入的数量
+   */
+  addToAlbum(id: string, mediaIds: string[]): number {
+    let added = 0;
+    this.updateAlbum(id, album => {
+      for (const mediaId of mediaIds) {
+        if (!this.data.has(mediaId) || album.items.includes(mediaId)) continue;
+        album.items.push(mediaId);
+        added++;
+      }
+    });
+    return added;
+  }
+  
+  removeFromAlbum(id: string, mediaIds: string[]): void {
+    this.updateAlbum(id, album => {
+      album.items = album.items.filter(mediaId => !mediaIds.includes(mediaId));
+      if (album.cover && mediaIds.includes(album.cover)) delete album.cover;
+    });
+  }
+  
+  /**
+   * 将相册中的一项移动到另一项之前或之后
+   * 位置按相册保存的完整列表计算，其中可能包含记录已删除、界面上不显示的项
+   */
+  moveAlbumItem(id: string, mediaId: string, targetId: string, after: boolean): void {
+    this.updateAlbum(id, album => {
+      if (mediaId === targetId) return;
+      const from = album.items.indexOf(mediaId);
+      if (from === -1 || !album.items.includes(targetId)) return;
+      album.items.splice(from, 1);
+      const target = album.items.indexOf(targetId);
+      album.items.splice(after ? target + 1 : target, 0, mediaId);
+    });
+  }
+  
+  setAlbumCover(id: string, mediaId: string | undefined): void {
+    this.updateAlbum(id, album => {
+      if (mediaId) {
+        album.cover = mediaId;
+      } else {
+        delete album.cover;
+      }
+    });
+  }
+  
+  // 用合并后的相册替换现有相册（例如合并数据文件的外部修改后）
+  applyMergedAlbums(albums: MediaAlbum[]): void {
+    if (JSON.stringify(albums) === JSON.stringify(this.albums)) return;
+    this.albums = albums.map(album => ({ ...album, items: [...album.items] }));
+    this.markAlbumsChanged();
+  }
+  
+  private updateAlbum(id: string, update: (album: MediaAlbum) => void) {
+    const album = this.albums.find(item => item.id === id);
+    if (!album) return;
+    const before = JSON.stringify(album);
+    update(album);
+    if (JSON.stringify(album) !== before) this.markAlbumsChanged();
+  }
+  
+  private markAlbumsChanged() {
+    this.albumsDirty = true;
+    this.trigger('albums', this.getAlbums());
+  }
+  
+  // 获取标签定义（由 TagRegistry 读取）
+  getTagDefinitions(): TagDefinition[] {
+    return this.tagDefinitions;
+  }
+  
+  // 替换全部标签定义
+  setTagDefinitions(definitions: TagDefinition[]): void {
+    if (JSON.stringify(definitions) === JSON.stringify(this.tagDefinitions)) return;
+    this.tagDefinitions = definitions.map(definition => ({ ...definition, aliases: [...definition.aliases] }));
+    this.tagDefinitionsDirty = true;
+    this.trigger('tag-definitions', this.tagDefinitions);
+  }
+  
   // 获取热门标签
   getPopularTags(limit: number = 10): { tag: string; count: number }[] {
-    const tagCounts: Map<string, number> = new Map();
+    return this.getAllTags().slice(0, limit);
+  }
+  
+  // 获取所有标签及其使用次数（按次数降序）
+  getAllTags(): { tag: string; count: number }[] {
+    return Array.from(this.tagIndex.entries())
+      .map(([tag, ids]) => ({ tag, count: ids.size }))
+      .sort((a, b) => b.count - a.count);
+  }
+  
+  // 获取标签的使用次数
+  getTagCount(tag: string): number {
+    return this.tagIndex.get(tag)?.size || 0;
+  }
+  
+  // 获取按 / 分层的标签树，父标签的计数包含子标签的记录
+  getTagTree(): TagTreeNode[] {
+    return TagHierarchy.buildTree(this.tagIndex);
+  }
+  
+  // 获取不同标签的数量
+  getTagTotal(): number {
+    return this.tagIndex.size;
+  }
+  
+  // 按媒体类型获取记录
+  getByType(type: MediaData['type']): MediaData[] {
+    return this.resolveIds(this.typeIndex.get(type));
+  }
+  
+  // 按格式（扩展名，不区分大小写）获取记录
+  getByFormat(format: string): MediaData[] {
+    return this.resolveIds(this.formatIndex.get(format.toUpperCase()));
+  }
+  
+  // 获取文件夹中的记录，recursive 为 true 时包含子文件夹
+  getByFolder(folder: string, recursive: boolean = false): MediaData[] {
+    const normalized = folder.replace(/^\/+|\/+$/g, '');
+    if (!recursive) {
+      return this.resolveIds(this.folderIndex.get(normalized));
+    }
     
-    for (const media of this.data.values()) {
-      for (const tag of media.tags) {
-        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+    const sets: Set<string>[] = [];
+    for (const [key, ids] of this.folderIndex) {
+      if (!normalized || key === normalized || key.startsWith(`${normalized}/`)) {
+        sets.push(ids);
       }
     }
+    return sets.flatMap(ids => this.resolveIds(ids));
+  }
+  
+  // 各媒体类型的记录数
+  getTypeCounts(): Record<MediaData['type'], number> {
+    return {
+      image: this.typeIndex.get('image')?.size || 0,
+      video: this.typeIndex.get('video')?.size || 0,
+      audio: this.typeIndex.get('audio')?.size || 0
+    };
+  }
+  
+  // 已有记录的格式及数量
+  getFormats(): { format: string; count: number }[] {
+    return Array.from(this.formatIndex.entries()).map(([format, ids]) => ({ format, count: ids.size }));
+  }
+  
+  // 包含记录的文件夹及数量（根目录为空字符串）
+  getFolders(): { folder: string; count: number }[] {
+    return Array.from(this.folderIndex.entries()).map(([folder, ids]) => ({ folder, count: ids.size }));
+  }
+  
+  // 将记录加入各个索引
+  private indexRecord(mediaData: MediaData) {
+    const fields: IndexedFields = {
+      path: mediaData.path,
+      tags: [...mediaData.tags],
+      type: mediaData.type,
+      format: (mediaData.format || '').toUpperCase(),
+      folder: mediaData.path.includes('/') ? mediaData.path.substring(0, mediaData.path.lastIndexOf('/')) : ''
+    };
+    this.indexed.set(mediaData.id, fields);
     
-    return Array.from(tagCounts.entries())
-      .map(([tag, count]) => ({ tag, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, limit);
+    for (const tag of new Set(fields.tags)) {
+      ImageDataManager.addToIndex(this.tagIndex, tag, mediaData.id);
+    }
+    ImageDataManager.addToIndex(this.typeIndex, fields.type, mediaData.id);
+    ImageDataManager.addToIndex(this.formatIndex, fields.format, mediaData.id);
+    ImageDataManager.addToIndex(this.folderIndex, fields.folder, mediaData.id);
+  }
+  
+  // 按建立索引时的快照从各个索引及路径映射中移除记录
+  private unindexRecord(id: string) {
+    const fields = this.indexed.get(id);
+    if (!fields) return;
+    
+    if (this.pathToIdMap.get(fields.path) === id) {
+      this.pathToIdMap.delete(fields.path);
+    }
+    for (const tag of fields.tags) {
+      ImageDataManager.removeFromIndex(this.tagIndex, tag, id);
+    }
+    ImageDataManager.removeFromIndex(this.typeIndex, fields.type, id);
+    ImageDataManager.removeFromIndex(this.formatIndex, fields.format, id);
+    ImageDataManager.removeFromIndex(this.folderIndex, fields.folder, id);
+    this.indexed.delete(id);
+  }
+  
+  private clearIndexes() {
+    this.indexed.clear();
+    this.tagIndex.clear();
+    this.typeIndex.clear();
+    this.formatIndex.clear();
+    this.folderIndex.clear();
+  }
+  
+  // 带有该标签或其子标签的记录ID
+  private getIdsByTag(tag: string): Set<string> {
+    const ids = new Set<string>();
+    for (const [key, tagIds] of this.tagIndex) {
+      if (TagHierarchy.isWithin(key, tag)) {
+        tagIds.forEach(id => ids.add(id));
+      }
+    }
+    return ids;
+  }
+  
+  // 所有包含该片段的标签对应的记录ID，以及别名包含该片段的标准标签（含子标签）对应的记录ID
+  private getIdsByTagFragment(fragment: string): Set<string> {
+    const lowerFragment = fragment.toLowerCase();
+    const ids = new Set<string>();
+    for (const [tag, tagIds] of this.tagIndex) {
+      if (tag.toLowerCase().includes(lowerFragment)) {
+        tagIds.forEach(id => ids.add(id));
+      }
+    }
+    for (const canonical of this.tagRegistry?.findByAlias(lowerFragment) || []) {
+      this.getIdsByTag(canonical).forEach(id => ids.add(id));
+    }
+    return ids;
+  }
+  
+  // 多个ID集合的交集，从最小的集合开始
+  private intersect(sets: Set<string>[]): Set<string> {
+    const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+    const result = new Set<string>();
+    for (const id of smallest) {
+      if (rest.every(set => set.has(id))) result.add(id);
+    }
+    return result;
+  }
+  
+  private resolveIds(ids: Set<string> | undefined): MediaData[] {
+    if (!ids) return [];
+    const result: MediaData[] = [];
+    for (const id of ids) {
+      const mediaData = this.data.get(id);
+      if (mediaData) result.push(mediaData);
+    }
+    return result;
+  }
+  
+  private static addToIndex(index: Map<string, Set<string>>, key: string, id: string) {
+    const ids = index.get(key);
+    if (ids) {
+      ids.add(id);
+    } else {
+      index.set(key, new Set([id]));
+    }
+  }
+  
+  private static removeFromIndex(index: Map<string, Set<string>>, key: string, id: string) {
+    const ids = index.get(key);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) index.delete(key);
   }
   
   // 更新最近使用的标签
@@ -201,34 +818,156 @@ export class ImageDataManager {
     return [...this.recentTags]; // 返回副本
   }
   
-  // 从 JSON 导入数据
-  importFromJSON(jsonData: string): void {
-    try {
-      // 使用数据迁移工具加载数据，自动处理旧版本格式
-      const parsed = DataMigration.loadDataWithMigration(jsonData);
-      
-      if (Array.isArray(parsed)) {
-        this.data.clear();
-        this.pathToIdMap.clear(); // 清空路径映射
-        for (const item of parsed) {
-          // 验证数据结构
-          if (this.isValidImageData(item)) {
-            this.data.set(item.id, item);
-            this.pathToIdMap.set(item.path, item.id); // 添加路径映射
-          } else {
-            Logger.warn('跳过无效的数据项:', item);
-          }
-        }
+  // 获取媒体库元数据
+  getLibraryMetadata(): LibraryMetadata {
+    return { ...this.library };
+  }
+  
+  // 更新媒体库元数据（例如写入当前插件版本）
+  setLibraryMetadata(metadata: Partial<LibraryMetadata>): void {
+    this.library = { ...this.library, ...metadata };
+  }
+  
+  // 取出自上次保存以来的变更，并重置变更记录
+  takeChanges(): MediaChanges {
+    const upserted: MediaData[] = [];
+    for (const id of this.dirtyIds) {
+      const mediaData = this.data.get(id);
+      if (mediaData) upserted.push(mediaData);
+    }
+    const changes = {
+      upserted,
+      removed: Array.from(this.removedRecords.values()),
+      albums: this.albumsDirty,
+      tagDefinitions: this.tagDefinitionsDirty
+    };
+    this.dirtyIds.clear();
+    this.removedRecords.clear();
+    this.albumsDirty = false;
+    this.tagDefinitionsDirty = false;
+    return changes;
+  }
+  
+  // 写入失败后放回取出的变更，下次保存时重试；取出后又被修改或删除的记录以当前状态为准
+  restoreChanges(changes: MediaChanges): void {
+    for (const item of changes.upserted) {
+      if (this.data.has(item.id)) this.dirtyIds.add(item.id);
+    }
+    for (const item of changes.removed) {
+      if (!this.data.has(item.id) && !this.removedRecords.has(item.id)) {
+        this.removedRecords.set(item.id, item);
       }
+    }
+    this.albumsDirty = this.albumsDirty || changes.albums;
+    this.tagDefinitionsDirty = this.tagDefinitionsDirty || changes.tagDefinitions;
+  }
+  
+  // 从 JSON 导入数据，返回迁移结果以便调用方决定是否备份并回写
+  importFromJSON(jsonData: string): MigrationResult {
+    try {
+      // 使用数据迁移工具加载数据，按版本逐步升级到当前格式
+      const result = DataMigration.parseLibrary(jsonData);
+      this.importEnvelope(result.envelope);
+      return result;
     } catch (error) {
       Logger.error('导入 JSON 数据失败:', error);
       throw error;
     }
   }
   
-  // 导出到 JSON
+  // 从已迁移到当前格式的封装对象导入数据（替换现有数据）
+  importEnvelope(envelope: MediaLibraryEnvelope): void {
+    if (!Array.isArray(envelope.items)) return;
+    
+    this.data.clear();
+    this.pathToIdMap.clear(); // 清空路径映射
+    this.clearIndexes();
+    this.dirtyIds.clear();
+    this.removedRecords.clear();
+    this.albumsDirty = false;
+    this.tagDefinitionsDirty = false;
+    this.library = { ...envelope.library };
+    this.albums = (envelope.albums || []).map(album => ({ ...album, items: [...album.items] }));
+    this.tagDefinitions = (envelope.tagDefinitions || []).map(definition => ({ ...definition, aliases: [...definition.aliases] }));
+    for (const item of envelope.items) {
+      // 验证数据结构
+      if (this.isValidImageData(item)) {
+        this.data.set(item.id, item);
+        this.pathToIdMap.set(item.path, item.id); // 添加路径映射
+        this.indexRecord(item);
+      } else {
+        Logger.warn('跳过无效的数据项:', item);
+      }
+    }
+    
+    this.emit('bulk', this.getAllImageData());
+    this.trigger('albums', this.getAlbums());
+    this.trigger('tag-definitions', this.tagDefinitions);
+  }
+  
+  // 用合并后的记录替换现有数据（例如合并数据文件的外部修改后）
+  // 与 importEnvelope 不同，只更新内容有变化的记录，并按新增、修改、删除分别发出事件
+  // 返回发生变化的记录数
+  applyMerged(items: MediaData[]): number {
+    const incoming = new Map(items.map(item => [item.id, item]));
+    const added: MediaData[] = [];
+    const updated: MediaData[] = [];
+    const removed: MediaData[] = [];
+
+    for (const [id, mediaData] of this.data) {
+      if (incoming.has(id)) continue;
+      this.unindexRecord(id);
+      this.dirtyIds.delete(id);
+      this.removedRecords.set(id, mediaData);
+      this.data.delete(id);
+      removed.push(mediaData);
+    }
+
+    for (const item of items) {
+      if (!this.isValidImageData(item)) {
+        Logger.warn('跳过无效的数据项:', item);
+        continue;
+      }
+      const current = this.data.get(item.id);
+      if (current && JSON.stringify(current) === JSON.stringify(item)) continue;
+
+      this.unindexRecord(item.id);
+      this.data.set(item.id, item);
+      this.pathToIdMap.set(item.path, item.id);
+      this.indexRecord(item);
+      this.dirtyIds.add(item.id);
+      this.removedRecords.delete(item.id);
+      (current ? updated : added).push(item);
+    }
+
+    if (removed.length > 0) this.emit('removed', removed);
+    if (added.length > 0) this.emit('added', added);
+    if (updated.length > 0) this.emit('updated', updated);
+    return removed.length + added.length + updated.length;
+  }
+
+  // 清空所有数据（例如数据文件无法读取时）
+  clear(): void {
+    this.importEnvelope({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      library: DataMigration.createLibraryMetadata(),
+      items: [],
+      albums: [],
+      tagDefinitions: []
+    });
+  }
+  
+  // 导出到 JSON（带版本信息的封装格式）
   exportToJSON(): string {
-    return JSON.stringify(Array.from(this.data.values()), null, 2);
+    this.library.updatedAt = new Date().toISOString();
+    const envelope: MediaLibraryEnvelope = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      library: { ...this.library },
+      items: Array.from(this.data.values()),
+      albums: this.getAlbums(),
+      tagDefinitions: this.tagDefinitions
+    };
+    return JSON.stringify(envelope, null, 2);
   }
   
   // 验证数据结构 - 兼容新旧版本格式
@@ -263,9 +1002,10 @@ export class ImageDataManager {
     return true;
   }
 
-  // 清理失效的媒体数据
-  public cleanupInvalidImages(app: App, scanFolderPath?: string, scanMultipleFolderPaths?: string[]): number {
+  // 清理失效的媒体数据；keepIds 中的记录（例如等待确认重新关联的记录）即使失效也保留
+  public cleanupInvalidImages(app: App, scanFolderPath?: string, scanMultipleFolderPaths?: string[], keepIds?: ReadonlySet<string>): number {
     let removedCount = 0;
+    const removed: MediaData[] = [];
     const validData = new Map<string, MediaData>();
     const validPathToIdMap = new Map<string, string>();
 
@@ -302,13 +1042,17 @@ export class ImageDataManager {
         isInScanFolder = normalizedMediaPath.startsWith(normalizedScanPath);
       }
 
-      if (file && file instanceof TFile && isInScanFolder) {
+      if ((file && file instanceof TFile && isInScanFolder) || keepIds?.has(id)) {
         // 文件存在且在扫描路径内，保留数据
         validData.set(id, mediaData);
         validPathToIdMap.set(mediaData.path, id); // 同时保留路径映射
       } else {
         // 文件不存在或不在扫描路径内，跳过（相当于删除）
         removedCount++;
+        this.unindexRecord(id);
+        this.dirtyIds.delete(id);
+        this.removedRecords.set(id, mediaData);
+        removed.push(mediaData);
         Logger.debug(`清理媒体数据: ${mediaData.path}`);
       }
     }
@@ -316,6 +1060,9 @@ export class ImageDataManager {
     // 更新数据存储
     this.data = validData;
     this.pathToIdMap = validPathToIdMap;
+    if (removed.length > 0) {
+      this.emit('removed', removed);
+    }
     return removedCount;
   }
 }
\ No newline at end of file
@@ -1,19 +1,38 @@
-import { ItemView, WorkspaceLeaf, TFile, Notice } from 'obsidian';
-import { MediaData, ImageTaggingSettings, ImageDataManager, getMediaType } from './image-data-model';
-import { getImageResolutionWithCache, getImageTaggingPlugin, getSafeImagePath, deleteImageFile, getMediaDurationWithCache } from './utils';
+import { ItemView, WorkspaceLeaf, TFile, Notice, Scope } from 'obsidian';
+import { MediaData, ImageTaggingSettings, ImageDataManager, CustomFieldValue } from './image-data-model';
+import { ImageTaggingPlugin, getSafeImagePath, deleteImageFile } from './utils';
 import { Logger } from './logger';
-import { IMAGE_INFO_VIEW_TYPE } from './constants';
+import { MediaRecordFactory } from './media-record-factory';
+import { MediaSnapshot } from './edit-history';
+import { CustomFields } from './custom-fields';
+import { MediaRating } from './media-rating';
+import { TagHierarchy } from './tag-hierarchy';
+import { IMAGE_INFO_VIEW_TYPE, MAX_RATING } from './constants';
 
 export class ImageView extends ItemView {
+  private plugin: ImageTaggingPlugin;
   private imageDataManager: ImageDataManager;
   private currentFile: TFile | null = null;
   private imageInfoContainer: HTMLElement;
   private settings: ImageTaggingSettings;
+  private recordFactory: MediaRecordFactory;
+  private committing = false; // 本视图正在写入记录，忽略由此触发的更新事件
+  private snapshot: MediaSnapshot | null = null; // 当前记录上一次写入后的内容，作为下一次编辑的撤销点
+  private ratingRow: HTMLElement | null = null;
 
-  constructor(leaf: WorkspaceLeaf, imageDataManager: ImageDataManager, settings: ImageTaggingSettings) {
+  constructor(leaf: WorkspaceLeaf, plugin: ImageTaggingPlugin) {
     super(leaf);
-    this.imageDataManager = imageDataManager;
-    this.settings = settings;
+    this.plugin = plugin;
+    this.imageDataManager = plugin.imageDataManager;
+    this.settings = plugin.settings;
+    this.recordFactory = plugin.recordFactory;
+
+    // 面板处于活动状态时数字键 0-5 为当前媒体评分，F 切换收藏
+    this.scope = new Scope(this.app.scope);
+    for (let rating = 0; rating <= MAX_RATING; rating++) {
+      this.scope.register(null, String(rating), () => this.handleShortcut(imageData => this.setRating(imageData, rating)));
+    }
+    this.scope.register(null, 'f', () => this.handleShortcut(imageData => this.setFavorite(imageData, !imageData.favorite)));
   }
 
   getViewType(): string {
@@ -30,6 +49,102 @@ export class ImageView extends ItemView {
 
   async onOpen() {
     this.createView();
+
+    // 其他视图或外部同步修改了当前记录时更新面板
+    this.registerEvent(this.imageDataManager.on('updated', (records) => this.handleRecordsChanged(records)));
+    this.registerEvent(this.imageDataManager.on('added', (records) => this.handleRecordsChanged(records)));
+    this.registerEvent(this.imageDataManager.on('removed', (records) => {
+      if (this.currentFile && records.some(record => record.path === this.currentFile?.path)) {
+        this.showPlaceholder();
+      }
+    }));
+    this.registerEvent(this.imageDataManager.on('bulk', () => this.updateForFile(this.currentFile)));
+  }
+
+  private handleRecordsChanged(records: MediaData[]) {
+    if (this.committing || !this.currentFile) return;
+    const current = records.find(record => record.path === this.currentFile?.path);
+    if (current) {
+      this.renderImageInfo(current);
+    }
+  }
+
+  // 写入记录，不触发本视图的重新渲染（避免打断正在进行的编辑）
+  // 提供 label 时记录为一次可撤销的编辑
+  private commit(imageData: MediaData, label?: string) {
+    this.committing = true;
+    try {
+      this.imageDataManager.addImageData(imageData);
+    } finally {
+      this.committing = false;
+    }
+    if (label && this.snapshot) {
+      this.plugin.editHistory.push(label, this.snapshot);
+    }
+    this.snapshot = this.plugin.editHistory.capture([imageData.id]);
+  }
+
+  /**
+   * 自定义字段定义变化后重新渲染当前记录
+   */
+  refreshFieldSchema() {
+    this.updateForFile(this.currentFile);
+  }
+
+  /**
+   * 缩略图缓存或设置变化后重新加载预览
+   */
+  refreshPreviews() {
+    this.updateForFile(this.currentFile);
+  }
+
+  /**
+   * 标签颜色、图标或说明变化后，重新绘制标签
+   */
+  refreshTagAppearance() {
+    this.updateForFile(this.currentFile);
+  }
+
+  // 只重新渲染评分行，不影响正在编辑的标题和描述
+  private renderRatingRow(imageData: MediaData) {
+    if (!this.ratingRow) return;
+    this.ratingRow.empty();
+    MediaRating.renderStars(this.ratingRow, MediaRating.getRating(imageData), (rating) => this.setRating(imageData, rating));
+    MediaRating.renderFavorite(this.ratingRow, imageData.favorite === true, (favorite) => this.setFavorite(imageData, favorite));
+  }
+
+  private async setRating(imageData: MediaData, rating: number) {
+    MediaRating.setRating(imageData, rating);
+    this.commit(imageData, '设置评分');
+    this.renderRatingRow(imageData);
+    await this.plugin.saveDataToFile();
+  }
+
+  private async setFavorite(imageData: MediaData, favorite: boolean) {
+    MediaRating.setFavorite(imageData, favorite);
+    this.commit(imageData, favorite ? '收藏' : '取消收藏');
+    this.renderRatingRow(imageData);
+    await this.plugin.saveDataToFile();
+  }
+
+  // 快捷键作用于当前显示的记录；焦点在输入框中时保留默认行为
+  private handleShortcut(action: (imageData: MediaData) => void): boolean {
+    const active = document.activeElement;
+    if (active instanceof HTMLElement && active.closest('input, textarea, [contenteditable="true"]')) {
+      return true;
+    }
+    const imageData = this.currentFile ? this.imageDataManager.getImageDataByPath(this.currentFile.path) : undefined;
+    if (!imageData) return true;
+    action(imageData);
+    return false;
+  }
+
+  private showPlaceholder() {
+    this.imageInfoContainer.empty();
+    this.imageInfoContainer.createEl('div', { 
+      cls: 'no-image-selected', 
+      text: '在库中选择一个媒体文件以查看详细信息' 
+    });
   }
 
   async onClose() {
@@ -67,11 +182,7 @@ export class ImageView extends ItemView {
     
     // 如果没有文件或者文件不是支持的媒体格式，则显示提示信息
     if (!file || !this.isSupportedImageFile(file)) {
-      this.imageInfoContainer.empty();
-      this.imageInfoContainer.createEl('div', { 
-        cls: 'no-image-selected', 
-        text: '在库中选择一个媒体文件以查看详细信息' 
-      });
+      this.showPlaceholder();
       return;
     }
 
@@ -80,38 +191,10 @@ export class ImageView extends ItemView {
     
     if (!imageData) {
       // 如果没有找到数据，则创建默认数据
-      const mediaType = getMediaType(file) || 'image';
-      imageData = {
-        id: `media_${Date.now()}_${file.path || file.name}`,
-        path: file.path || file.name || '',
-        title: file.basename,
-        tags: [],
-        date: new Date().toISOString(),
-        size: this.formatFileSize(file.stat.size),
-        fileSize: file.stat.size, // 添加原始字节大小
-        resolution: '未知',
-        format: file.extension.toUpperCase(),
-        description: '',
-        originalName: file.name,
-        lastModified: file.stat.mtime,
-        type: mediaType
-      };
-      
-      // 尝试获取媒体信息
-      try {
-        if (mediaType === 'image') {
-          const resolution = await this.getImageResolution(file);
-          imageData.resolution = resolution;
-        } else if (mediaType === 'video' || mediaType === 'audio') {
-          // 对于视频和音频，获取时长信息
-          const duration = await getMediaDurationWithCache(file, this.app);
-          imageData.resolution = duration ? `${duration}` : (mediaType === 'video' ? '视频文件' : '音频文件');
-        }
-          } catch (e) {
-            Logger.debug('无法获取媒体信息:', e);
-          }      
+      imageData = await this.recordFactory.create(file);
+
       // 保存新创建的数据
-      this.imageDataManager.addImageData(imageData);
+      this.commit(imageData);
     }
 
     // 渲染媒体信息
@@ -120,6 +203,7 @@ export class ImageView extends ItemView {
 
   private renderImageInfo(imageData: MediaData) {
     this.imageInfoContainer.empty();
+    this.snapshot = this.plugin.editHistory.capture([imageData.id]);
     
     // 验证媒体路径
     if (!imageData.path) {
@@ -138,10 +222,10 @@ export class ImageView extends ItemView {
       const img = previewContainer.createEl('img', {
         cls: 'image-preview',
         attr: {
-          src: getSafeImagePath(this.app, imageData.path),
           alt: imageData.title
         }
       });
+      this.plugin.thumbnails.loadImage(img, imageData.path, this.settings.panelThumbnailSize);
     } else if (imageData.type === 'video') {
       const video = previewContainer.createEl('video', {
         cls: 'image-preview',
@@ -218,6 +302,12 @@ export class ImageView extends ItemView {
       value: imageData.title
     });
     
+    // 评分和收藏（点击后立即保存）
+    const ratingContainer = infoContainer.createEl('div', { cls: 'info-item rating-section' });
+    ratingContainer.createEl('label', { text: '评分' });
+    this.ratingRow = ratingContainer.createEl('div', { cls: 'rating-row' });
+    this.renderRatingRow(imageData);
+    
     // 描述编辑
     const descContainer = infoContainer.createEl('div', { cls: 'info-item' });
     descContainer.createEl('label', { text: '描述' });
@@ -226,6 +316,16 @@ export class ImageView extends ItemView {
       text: imageData.description
     });
     
+    // 自定义字段编辑（与标题、描述一起在“保存更改”时写入）
+    const fieldValues = new Map<string, CustomFieldValue | undefined>();
+    for (const definition of this.settings.customFields) {
+      const fieldContainer = infoContainer.createEl('div', { cls: 'info-item custom-field-item' });
+      fieldContainer.createEl('label', { text: definition.name });
+      CustomFields.renderEditor(fieldContainer, definition, CustomFields.getValue(imageData, definition), (value) => {
+        fieldValues.set(definition.key, value);
+      });
+    }
+    
     // 标签编辑
     const tagsContainer = infoContainer.createEl('div', { cls: 'info-item tags-section' });
     tagsContainer.createEl('label', { text: '标签' });
@@ -248,6 +348,11 @@ export class ImageView extends ItemView {
       text: '添加'
     });
     
+    // 按层级补全标签（输入 travel/ 时提示 travel 的下一级）
+    TagHierarchy.attachAutocomplete(tagInput, tagInputContainer, () =>
+      this.imageDataManager.getAllTags().map(tagInfo => tagInfo.tag)
+    );
+    
     // 最近使用的标签部分
     const recentTagsContainer = tagsContainer.createEl('div', { cls: 'recent-tags-container' });
     const recentTagsLabel = recentTagsContainer.createEl('label', { text: '最近使用' });
@@ -269,7 +374,7 @@ export class ImageView extends ItemView {
           this.createTagElement(tagsList, tag, imageData);
           
           // 更新最近使用的标签
-          this.imageDataManager.addImageData(imageData);
+          this.commit(imageData, '添加标签');
           
           // 更新UI状态
           recentTagEl.addClass('selected');
@@ -290,7 +395,7 @@ export class ImageView extends ItemView {
           }
           
           // 更新最近使用的标签
-          this.imageDataManager.addImageData(imageData);
+          this.commit(imageData, '移除标签');
           
           // 更新UI状态
           recentTagEl.removeClass('selected');
@@ -339,7 +444,7 @@ export class ImageView extends ItemView {
     });
     
     saveBtn.addEventListener('click', () => {
-      this.saveImageInfo(imageData, titleInput, descInput);
+      this.saveImageInfo(imageData, titleInput, descInput, fieldValues);
     });
     
     deleteBtn.addEventListener('click', () => {
@@ -350,6 +455,8 @@ export class ImageView extends ItemView {
   private createTagElement(container: HTMLElement, tag: string, imageData: MediaData) {
     const tagEl = container.createEl('span', { cls: 'tag-item' });
     tagEl.setText(tag);
+    this.plugin.tagRegistry.decorate(tagEl, tag);
+    tagEl.addEventListener('contextmenu', (e) => this.plugin.showTagMenu(e, tag));
     
     const removeBtn = tagEl.createEl('span', { 
       cls: 'remove-tag', 
@@ -372,12 +479,12 @@ export class ImageView extends ItemView {
       }
       
       // 更新最近使用的标签
-      this.imageDataManager.addImageData(imageData);
+      this.commit(imageData, '移除标签');
     });
   }
 
   private addTag(input: HTMLInputElement, imageData: MediaData, container: HTMLElement) {
-    const newTag = input.value.trim();
+    const newTag = this.plugin.tagRegistry.resolve(input.value); // 输入别名时保存为标准标签
     if (!newTag) return;
     
     if (!imageData.tags.includes(newTag)) {
@@ -386,7 +493,7 @@ export class ImageView extends ItemView {
       input.value = '';
       
       // 更新最近使用的标签
-      this.imageDataManager.addImageData(imageData);
+      this.commit(imageData, '添加标签');
       
       // 更新最近使用标签的UI状态
       const recentTagElements = this.imageInfoContainer.querySelectorAll('.recent-tag-item');
@@ -400,10 +507,11 @@ export class ImageView extends ItemView {
     }
   }
 
-  private async saveImageInfo(imageData: MediaData, titleInput: HTMLInputElement, descInput: HTMLTextAreaElement) {
+  private async saveImageInfo(imageData: MediaData, titleInput: HTMLInputElement, descInput: HTMLTextAreaElement, fieldValues: Map<string, CustomFieldValue | undefined>) {
     // 更新数据
     imageData.title = titleInput.value;
     imageData.description = descInput.value;
+    fieldValues.forEach((value, key) => CustomFields.setValue(imageData, key, value));
     imageData.date = new Date().toISOString();
     
     // 更新最后修改时间
@@ -412,42 +520,15 @@ export class ImageView extends ItemView {
     }
     
     // 保存到数据管理器
-    this.imageDataManager.addImageData(imageData);
+    this.commit(imageData, '编辑媒体信息');
     
     // 保存到文件
-    const plugin = getImageTaggingPlugin(this.app);
-    if (plugin) {
-      await plugin.saveDataToFile();
-    }
+    await this.plugin.saveDataToFile();
     
     // 通知用户保存成功
     new Notice(`已保存 ${imageData.title} 的信息`);
   }
 
-  private formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-    
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  }
-
-  private async getImageResolution(file: TFile): Promise<string> {
-    try {
-      // 使用缓存的图片分辨率获取方法
-      const dimensions = await getImageResolutionWithCache(file, this.app);
-      if (dimensions) {
-        return dimensions.resolution;
-      }
-      return '未知';
-    } catch (e) {
-      Logger.warn(`无法获取图片分辨率: ${file.path}`, e);
-      return '未知';
-    }
-  }
-
   private async openImageFile(path: string) {
     try {
       const file = this.app.vault.getAbstractFileByPath(path);
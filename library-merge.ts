@@ -0,0 +1,269 @@
+/**
+ * 标签数据的三方合并
+ * 以上次加载/写入时的数据为共同基础，逐条合并本地数据和外部修改后的数据（同步工具、其他设备）
+ */
+import { MediaData, MediaAlbum, TagDefinition } from './image-data-model';
+import { DataMigration } from './data-migration';
+
+// 选择冲突记录时采用的版本
+export type MergeSide = 'local' | 'remote';
+
+// 无法自动合并的记录
+export interface MergeConflict {
+  id: string;
+  base: MediaData | null;     // 共同基础中的记录（双方各自新增时为 null）
+  local: MediaData | null;    // 本地记录，null 表示本地已删除
+  remote: MediaData | null;   // 外部文件中的记录，null 表示外部已删除
+  merged: MediaData | null;   // 已自动合并其余字段的记录（冲突字段暂用本地值）；删除冲突时为 null
+  fields: string[];           // 双方修改为不同值的字段；删除冲突时为空
+}
+
+export interface MergeResult {
+  items: MediaData[];         // 无冲突的合并结果（不含冲突记录）
+  conflicts: MergeConflict[];
+}
+
+// 用户对冲突的选择
+export interface MergeResolution {
+  conflict: MergeConflict;
+  side: MergeSide;
+}
+
+// 合并时取较新值而不视为冲突的字段
+const LATEST_WINS_FIELDS = ['date', 'lastModified'];
+
+export class LibraryMerge {
+  /**
+   * 三方合并
+   * @param base - 上次同步时的记录
+   * @param local - 当前内存中的记录
+   * @param remote - 外部修改后的记录
+   */
+  static merge(base: MediaData[], local: MediaData[], remote: MediaData[]): MergeResult {
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const localById = new Map(local.map(item => [item.id, item]));
+    const remoteById = new Map(remote.map(item => [item.id, item]));
+    const ids = new Set([...localById.keys(), ...remoteById.keys(), ...baseById.keys()]);
+
+    const items: MediaData[] = [];
+    const conflicts: MergeConflict[] = [];
+
+    for (const id of ids) {
+      const baseItem = baseById.get(id) || null;
+      const localItem = localById.get(id) || null;
+      const remoteItem = remoteById.get(id) || null;
+
+      if (!localItem || !remoteItem) {
+        const existing = localItem || remoteItem;
+        // 双方都已删除
+        if (!existing) continue;
+        // 一方新增
+        if (!baseItem) {
+          items.push(existing);
+          continue;
+        }
+        // 一方删除、另一方未修改：删除
+        if (LibraryMerge.isSame(existing, baseItem)) continue;
+        // 一方删除、另一方修改
+        conflicts.push({ id, base: baseItem, local: localItem, remote: remoteItem, merged: null, fields: [] });
+        continue;
+      }
+
+      const { record, fields } = LibraryMerge.mergeRecord(baseItem, localItem, remoteItem);
+      if (fields.length > 0) {
+        conflicts.push({ id, base: baseItem, local: localItem, remote: remoteItem, merged: record, fields });
+      } else {
+        items.push(record);
+      }
+    }
+
+    return { items, conflicts };
+  }
+
+  /**
+   * 按用户的选择处理冲突，返回完整的合并结果
+   * @param resolutions - 用户的选择；未包含的冲突保留本地版本
+   */
+  static resolve(result: MergeResult, resolutions: MergeResolution[]): MediaData[] {
+    const sides = new Map(resolutions.map(resolution => [resolution.conflict.id, resolution.side]));
+    const items = [...result.items];
+
+    for (const conflict of result.conflicts) {
+      const record = LibraryMerge.resolveConflict(conflict, sides.get(conflict.id) || 'local');
+      if (record) items.push(record);
+    }
+
+    // 双方为同一文件各自创建了记录时，按路径合并
+    const paths = new Set(items.map(item => item.path));
+    return paths.size === items.length ? items : DataMigration.normalizeRecordIds(items);
+  }
+
+  /**
+   * 两组记录的内容是否完全相同
+   */
+  static isSameLibrary(a: MediaData[], b: MediaData[]): boolean {
+    if (a.length !== b.length) return false;
+    const byId = new Map(b.map(item => [item.id, item]));
+    return a.every(item => {
+      const other = byId.get(item.id);
+      return other !== undefined && LibraryMerge.isSame(item, other);
+    });
+  }
+
+  /**
+   * 三方合并相册：逐个相册合并，相册中的媒体按增删合并（保留本地顺序，外部新增的排在后面）
+   * 名称和封面只有一方修改时采用修改后的值，双方都修改时采用本地值
+   */
+  static mergeAlbums(base: MediaAlbum[], local: MediaAlbum[], remote: MediaAlbum[]): MediaAlbum[] {
+    const baseById = new Map(base.map(album => [album.id, album]));
+    const remoteById = new Map(remote.map(album => [album.id, album]));
+    const localIds = new Set(local.map(album => album.id));
+    const albums: MediaAlbum[] = [];
+
+    for (const localAlbum of local) {
+      const baseAlbum = baseById.get(localAlbum.id);
+      const remoteAlbum = remoteById.get(localAlbum.id);
+      if (!remoteAlbum) {
+        // 外部删除、本地未修改：删除
+        if (!baseAlbum || !LibraryMerge.isSameValue(localAlbum, baseAlbum)) albums.push(localAlbum);
+        continue;
+      }
+      const pick = <T>(localValue: T, remoteValue: T, baseValue: T | undefined): T =>
+        baseAlbum && LibraryMerge.isSameValue(localValue, baseValue) ? remoteValue : localValue;
+      albums.push({
+        ...localAlbum,
+        name: pick(localAlbum.name, remoteAlbum.name, baseAlbum?.name),
+        cover: pick(localAlbum.cover, remoteAlbum.cover, baseAlbum?.cover),
+        items: LibraryMerge.mergeTags(baseAlbum ? baseAlbum.items : [], localAlbum.items, remoteAlbum.items)
+      });
+      if (albums[albums.length - 1].cover === undefined) delete albums[albums.length - 1].cover;
+    }
+
+    for (const remoteAlbum of remote) {
+      if (localIds.has(remoteAlbum.id)) continue;
+      // 本地删除、外部未修改：删除
+      const baseAlbum = baseById.get(remoteAlbum.id);
+      if (!baseAlbum || !LibraryMerge.isSameValue(remoteAlbum, baseAlbum)) albums.push(remoteAlbum);
+    }
+
+    return albums;
+  }
+
+  static isSameAlbums(a: MediaAlbum[], b: MediaAlbum[]): boolean {
+    return LibraryMerge.isSameValue(a, b);
+  }
+
+  static isSameTagDefinitions(a: TagDefinition[], b: TagDefinition[]): boolean {
+    return LibraryMerge.isSameValue(a, b);
+  }
+
+  /**
+   * 三方合并标签定义：按标签逐个合并，别名按增删合并
+   * 颜色、图标和说明只有一方修改时采用修改后的值，双方都修改时采用本地值
+   */
+  static mergeTagDefinitions(base: TagDefinition[], local: TagDefinition[], remote: TagDefinition[]): TagDefinition[] {
+    const baseByTag = new Map(base.map(definition => [definition.tag, definition]));
+    const remoteByTag = new Map(remote.map(definition => [definition.tag, definition]));
+    const localTags = new Set(local.map(definition => definition.tag));
+    const definitions: TagDefinition[] = [];
+
+    for (const localDefinition of local) {
+      const baseDefinition = baseByTag.get(localDefinition.tag);
+      const remoteDefinition = remoteByTag.get(localDefinition.tag);
+      if (!remoteDefinition) {
+        // 外部删除、本地未修改：删除
+        if (!baseDefinition || !LibraryMerge.isSameValue(localDefinition, baseDefinition)) definitions.push(localDefinition);
+        continue;
+      }
+      const merged: TagDefinition = {
+        tag: localDefinition.tag,
+        aliases: LibraryMerge.mergeTags(baseDefinition ? baseDefinition.aliases : [], localDefinition.aliases, remoteDefinition.aliases)
+      };
+      for (const key of ['color', 'icon', 'description'] as const) {
+        const value = baseDefinition && LibraryMerge.isSameValue(localDefinition[key], baseDefinition[key])
+          ? remoteDefinition[key]
+          : localDefinition[key];
+        if (value) merged[key] = value;
+      }
+      definitions.push(merged);
+    }
+
+    for (const remoteDefinition of remote) {
+      if (localTags.has(remoteDefinition.tag)) continue;
+      // 本地删除、外部未修改：删除
+      const baseDefinition = baseByTag.get(remoteDefinition.tag);
+      if (!baseDefinition || !LibraryMerge.isSameValue(remoteDefinition, baseDefinition)) definitions.push(remoteDefinition);
+    }
+
+    return definitions;
+  }
+
+  static isSame(a: MediaData, b: MediaData): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private static resolveConflict(conflict: MergeConflict, side: MergeSide): MediaData | null {
+    const chosen = side === 'local' ? conflict.local : conflict.remote;
+    if (!conflict.merged || !chosen) {
+      return chosen;
+    }
+
+    const record = { ...conflict.merged } as unknown as Record<string, unknown>;
+    const source = chosen as unknown as Record<string, unknown>;
+    for (const field of conflict.fields) {
+      record[field] = source[field];
+    }
+    return record as unknown as MediaData;
+  }
+
+  // 逐字段合并：只有一方修改的字段采用修改后的值，标签按增删合并
+  private static mergeRecord(base: MediaData | null, local: MediaData, remote: MediaData): { record: MediaData; fields: string[] } {
+    const baseValues = (base || {}) as unknown as Record<string, unknown>;
+    const localValues = local as unknown as Record<string, unknown>;
+    const remoteValues = remote as unknown as Record<string, unknown>;
+    const record: Record<string, unknown> = {};
+    const fields: string[] = [];
+
+    const keys = new Set([...Object.keys(localValues), ...Object.keys(remoteValues)]);
+    for (const key of keys) {
+      const localValue = localValues[key];
+      const remoteValue = remoteValues[key];
+      const baseValue = baseValues[key];
+
+      if (key === 'tags') {
+        record[key] = LibraryMerge.mergeTags(base ? base.tags : [], local.tags, remote.tags);
+      } else if (LibraryMerge.isSameValue(localValue, remoteValue) || LibraryMerge.isSameValue(remoteValue, baseValue)) {
+        record[key] = localValue;
+      } else if (LibraryMerge.isSameValue(localValue, baseValue)) {
+        record[key] = remoteValue;
+      } else if (LATEST_WINS_FIELDS.includes(key)) {
+        record[key] = (localValue as string | number) > (remoteValue as string | number) ? localValue : remoteValue;
+      } else {
+        record[key] = localValue;
+        fields.push(key);
+      }
+
+      if (record[key] === undefined) delete record[key];
+    }
+
+    return { record: record as unknown as MediaData, fields };
+  }
+
+  // 保留双方都有的标签以及任一方新增的标签，任一方删除的标签被删除（也用于相册中的媒体列表和标签别名）
+  private static mergeTags(base: string[], local: string[], remote: string[]): string[] {
+    const result: string[] = [];
+    for (const tag of [...local, ...remote]) {
+      if (result.includes(tag)) continue;
+      const inLocal = local.includes(tag);
+      const inRemote = remote.includes(tag);
+      if ((inLocal && inRemote) || !base.includes(tag)) {
+        result.push(tag);
+      }
+    }
+    return result;
+  }
+
+  private static isSameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
@@ -1,11 +1,34 @@
-import { App, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, Notice, Menu } from 'obsidian';
-import { MediaData, ImageTaggingSettings, DEFAULT_SETTINGS, ImageDataManager, getMediaType } from './image-data-model';
+import { App, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, Notice, Menu, debounce } from 'obsidian';
+import { MediaData, ImageTaggingSettings, DEFAULT_SETTINGS, ImageDataManager, StorageBackendType, CustomFieldDefinition, CustomFieldType, TagDefinition } from './image-data-model';
 import { DataMigration } from './data-migration';
 import { ImageView } from './image-info-view';
-import { GalleryView } from './gallery-view';
-import { getImageResolutionWithCache, getImageFileFromPath, getMediaDurationWithCache } from './utils';
+import { GalleryView, GalleryViewState } from './gallery-view';
+import { GalleryStateModal } from './gallery-state-modal';
+import { TagManagerView } from './tag-manager-view';
+import { AlbumView } from './album-view';
+import { AlbumNameModal } from './album-name-modal';
+import { getImageFileFromPath } from './utils';
 import { Logger, LogLevel } from './logger';
-import { GALLERY_VIEW_TYPE, IMAGE_INFO_VIEW_TYPE, DEFAULT_JSON_STORAGE_PATH, DEFAULT_SUPPORTED_FORMATS, DEFAULT_CATEGORIES } from './constants';
+import { ImageTaggingError } from './error-handler';
+import { BackupRestoreModal, BackupEntry } from './backup-restore-modal';
+import { ConfirmModal } from './confirm-modal';
+import { MediaStore, createMediaStore, STORAGE_BACKEND_NAMES } from './media-store';
+import { StorageBackendModal } from './storage-backend-modal';
+import { StorageSwitchModal } from './storage-switch-modal';
+import { MediaNoteSync } from './media-notes';
+import { MediaFingerprint, MediaRelinker, RelinkResult, RelinkCandidateGroup } from './media-fingerprint';
+import { RelinkReviewModal, RelinkChoice } from './relink-review-modal';
+import { MediaRecordFactory } from './media-record-factory';
+import { EditHistory } from './edit-history';
+import { LibraryMerge, MergeResolution } from './library-merge';
+import { MergeConflictModal } from './merge-conflict-modal';
+import { CustomFields, CUSTOM_FIELD_TYPE_NAMES } from './custom-fields';
+import { TagRegistry } from './tag-registry';
+import { TagHierarchy } from './tag-hierarchy';
+import { TagAppearanceModal } from './tag-appearance-modal';
+import { SmartCollections } from './smart-collections';
+import { ThumbnailService } from './thumbnail-service';
+import { GALLERY_VIEW_TYPE, IMAGE_INFO_VIEW_TYPE, TAG_MANAGER_VIEW_TYPE, ALBUM_VIEW_TYPE, DEFAULT_JSON_STORAGE_PATH, DEFAULT_SUPPORTED_FORMATS, RELINK_GRACE_PERIOD, EXTERNAL_CHANGE_POLL_INTERVAL, THUMBNAIL_CACHE_FOLDER } from './constants';
 
 // 导入样式
 import './styles.css';
@@ -17,10 +40,40 @@ interface Listener {
 export default class ImageTaggingPlugin extends Plugin {
   settings: ImageTaggingSettings;
   imageDataManager: ImageDataManager;
+  mediaStore: MediaStore;
+  mediaNotes: MediaNoteSync;
+  recordFactory: MediaRecordFactory;
+  editHistory: EditHistory;
+  tagRegistry: TagRegistry;
+  thumbnails: ThumbnailService;
+  private storageLocked = false; // 数据文件版本过新时禁止写入
+  private pendingOrphans: Map<string, number> = new Map(); // 等待重新关联的已删除记录ID -> 移除定时器
+  private awaitingRelink = { ids: new Set<string>(), paths: new Set<string>() }; // 等待用户在对话框中确认重新关联的记录和候选文件
+  private mergingExternalChanges = false; // 正在合并数据文件的外部修改（可能在等待用户处理冲突）
+  private saveAfterMerge = false; // 合并期间有保存因外部修改被拒绝，合并完成后重新保存
 
   async onload() {
     await this.loadSettings();
     this.imageDataManager = new ImageDataManager();
+    this.mediaStore = createMediaStore(this.app, this.settings.storageBackend, this.settings);
+    this.mediaNotes = new MediaNoteSync(this.app, this);
+    this.recordFactory = new MediaRecordFactory(this.app, () => this.settings);
+    this.editHistory = new EditHistory(this.imageDataManager);
+    this.tagRegistry = new TagRegistry(() => this.imageDataManager.getTagDefinitions(), async (definitions) => {
+      this.imageDataManager.setTagDefinitions(definitions);
+      await this.saveDataToFile();
+    });
+    this.imageDataManager.setTagRegistry(this.tagRegistry);
+    // 标签定义随数据文件加载、合并或被修改后，更新别名表和已打开视图中的标签外观
+    this.registerEvent(this.imageDataManager.on('tag-definitions', () => {
+      this.tagRegistry.refresh();
+      this.refreshTagAppearance();
+    }));
+    this.thumbnails = new ThumbnailService(this.app, {
+      getCacheFolder: () => `${this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/${THUMBNAIL_CACHE_FOLDER}`,
+      getMaxCacheSize: () => this.settings.thumbnailCacheLimit * 1024 * 1024,
+      isEnabled: () => this.settings.enableThumbnails
+    });
 
     // 从JSON文件加载数据
     await this.loadDataFromFile();
@@ -81,11 +134,20 @@ export default class ImageTaggingPlugin extends Plugin {
     // 注册视图
     this.registerView(
       GALLERY_VIEW_TYPE,
-      (leaf) => new GalleryView(leaf, this.settings, this.imageDataManager)
+      (leaf) => new GalleryView(leaf, this)
     );
     this.registerView(
       IMAGE_INFO_VIEW_TYPE,
-      (leaf) => new ImageView(leaf, this.imageDataManager, this.settings)
+      (leaf) => new ImageView(leaf, this)
+    );
+    this.registerView(
+      TAG_MANAGER_VIEW_TYPE,
+      (leaf) => new TagManagerView(leaf, this)
+    );
+
+    this.registerView(
+      ALBUM_VIEW_TYPE,
+      (leaf) => new AlbumView(leaf, this)
     );
 
     // 添加命令
@@ -97,6 +159,32 @@ export default class ImageTaggingPlugin extends Plugin {
       }
     });
 
+    this.addCommand({
+      id: 'open-gallery-view-with-state',
+      name: '按指定状态打开媒体图库',
+      callback: () => {
+        const current = this.app.workspace.getActiveViewOfType(GalleryView);
+        const value = current ? JSON.stringify(GalleryView.normalizeState(current.getState()), null, 2) : '';
+        new GalleryStateModal(this.app, value, (state) => this.openGalleryView(state)).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'copy-gallery-state',
+      name: '复制当前图库的状态',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(GalleryView);
+        if (!view) return false;
+        if (!checking) {
+          const state = JSON.stringify(GalleryView.normalizeState(view.getState()));
+          navigator.clipboard.writeText(state)
+            .then(() => new Notice('已复制图库状态'))
+            .catch(() => new Notice('复制图库状态失败'));
+        }
+        return true;
+      }
+    });
+
     // 添加功能区图标
     this.addRibbonIcon('image', '打开媒体图库', (evt: MouseEvent) => {
       this.openGalleryView();
@@ -110,6 +198,22 @@ export default class ImageTaggingPlugin extends Plugin {
       }
     });
 
+    this.addCommand({
+      id: 'open-tag-manager',
+      name: '打开标签管理器',
+      callback: () => {
+        this.openTagManager();
+      }
+    });
+
+    this.addCommand({
+      id: 'open-album-view',
+      name: '打开相册',
+      callback: () => {
+        this.openAlbumView();
+      }
+    });
+
     this.addCommand({
       id: 'scan-all-images',
       name: '扫描库中的所有媒体文件',
@@ -134,6 +238,70 @@ export default class ImageTaggingPlugin extends Plugin {
       }
     });
 
+    this.addCommand({
+      id: 'migrate-storage-backend',
+      name: '迁移标签数据到其他存储方式',
+      callback: () => {
+        new StorageBackendModal(this.app, this.settings.storageBackend, async (type) => {
+          await this.migrateStorageBackend(type);
+        }).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'sync-media-notes',
+      name: '同步所有媒体笔记',
+      callback: async () => {
+        await this.syncAllMediaNotes();
+      }
+    });
+
+    this.addCommand({
+      id: 'undo-metadata-edit',
+      name: '撤销上一次标签/信息编辑',
+      hotkeys: [{ modifiers: ['Mod', 'Alt'], key: 'z' }],
+      checkCallback: (checking: boolean) => {
+        if (!this.editHistory.canUndo()) return false;
+        if (!checking) this.undoEdit();
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'redo-metadata-edit',
+      name: '重做上一次撤销的标签/信息编辑',
+      hotkeys: [{ modifiers: ['Mod', 'Alt', 'Shift'], key: 'z' }],
+      checkCallback: (checking: boolean) => {
+        if (!this.editHistory.canRedo()) return false;
+        if (!checking) this.redoEdit();
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'rebuild-thumbnails',
+      name: '重建缩略图',
+      callback: async () => {
+        await this.rebuildThumbnails();
+      }
+    });
+
+    this.addCommand({
+      id: 'apply-tag-aliases',
+      name: '将已有标签中的别名替换为标准标签',
+      callback: async () => {
+        await this.applyTagAliases();
+      }
+    });
+
+    this.addCommand({
+      id: 'restore-from-backup',
+      name: '从备份恢复标签数据',
+      callback: async () => {
+        await this.restoreFromBackup();
+      }
+    });
+
     // 注册文件打开事件，用于显示图片信息
     this.registerEvent(
       this.app.workspace.on('file-open', (file) => {
@@ -145,18 +313,44 @@ export default class ImageTaggingPlugin extends Plugin {
 
 
 
+    // 媒体笔记的属性被编辑后同步回记录
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file, data, cache) => {
+        if (this.mediaNotes.isEnabled()) {
+          this.mediaNotes.handleNoteChanged(file, cache);
+        }
+      })
+    );
+
+    // 源文件修改后删除旧的缩略图，并更新内容指纹
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        if (!(file instanceof TFile)) return;
+        this.thumbnails.invalidate(file.path);
+        if (this.isSupportedImageFile(file)) this.updateFingerprint(file);
+      })
+    );
+
     // 注册文件删除事件，用于清理失效的图片数据
 this.registerEvent(
 
       this.app.vault.on('delete', (file) => {
 
+        if (file instanceof TFile) this.thumbnails.invalidate(file.path);
+
         if (file && this.isSupportedImageFile(file as TFile)) {
 
           // 检查是否有对应的图片数据
 
           const imageData = this.imageDataManager.getImageDataByPath(file.path);
 
-          if (imageData) {
+          if (imageData && imageData.fingerprint) {
+
+            // 外部移动文件表现为删除 + 创建，暂缓移除以便按内容指纹重新关联
+
+            this.scheduleOrphanRemoval(imageData);
+
+          } else if (imageData) {
 
             // 从数据管理器中移除对应的记录
 
@@ -184,6 +378,8 @@ this.registerEvent(
 
       this.app.vault.on('rename', (file, oldPath) => {
 
+        if (file instanceof TFile) this.thumbnails.invalidate(oldPath);
+
         if (file && this.isSupportedImageFile(file as TFile)) {
 
           // 检查是否有对应的图片数据
@@ -192,13 +388,9 @@ this.registerEvent(
 
           if (imageData) {
 
-            // 更新图片数据中的路径信息
-
-            imageData.path = file.path;
+            // 以新路径重新添加到数据管理器，同时移除旧路径的映射
 
-            // 重新添加到数据管理器
-
-            this.imageDataManager.addImageData(imageData);
+            this.imageDataManager.addImageData({ ...imageData, path: file.path, originalName: file.name });
 
             // 保存更改到文件
 
@@ -218,6 +410,18 @@ this.registerEvent(
     // 在布局准备就绪后设置编辑器图片点击处理程序
     this.app.workspace.onLayoutReady(() => {
       this.setupEditorImageClickHandler();
+
+      // 数据文件位于配置目录时不会触发库文件事件，定期检查同步工具或其他设备的修改
+      this.registerInterval(window.setInterval(() => this.mergeExternalChanges(), EXTERNAL_CHANGE_POLL_INTERVAL));
+
+      // 库加载时会为每个已有文件触发 create 事件，因此在布局就绪后再注册
+      this.registerEvent(
+        this.app.vault.on('create', (file) => {
+          if (file instanceof TFile && this.pendingOrphans.size > 0 && this.isSupportedImageFile(file)) {
+            this.relinkCreatedFile(file);
+          }
+        })
+      );
     });
 
     // 在编辑器的原生右键菜单中加入“查看图片信息”项
@@ -358,7 +562,7 @@ this.registerEvent(
         
         if (!imageData) {
           // 如果不存在，则创建默认数据
-          imageData = await this.createDefaultImageData(file);
+          imageData = await this.recordFactory.create(file);
           this.imageDataManager.addImageData(imageData);
           newImagesCount++;
         }
@@ -373,71 +577,6 @@ this.registerEvent(
     }
   }
 
-  /**
-   * 从 TFile 对象创建默认的 ImageData 结构。
-   */
-  private async createDefaultImageData(file: TFile): Promise<MediaData> {
-    // 获取文件信息
-    const stat = file.stat;
-    const path = file.path;
-    const name = file.basename;
-    const extension = file.extension;
-    const size = this.formatFileSize(stat.size);
-    const lastModified = stat.mtime;
-    
-    let resolution = '未知';
-    let width = 0;
-    let height = 0;
-    
-    const mediaType = getMediaType(file) || 'image';
-    
-    try {
-      // 对于图片，使用缓存的图片分辨率获取方法
-      if (mediaType === 'image') {
-        const dimensions = await getImageResolutionWithCache(file, this.app);
-        if (dimensions) {
-          width = dimensions.width;
-          height = dimensions.height;
-          resolution = dimensions.resolution;
-        }
-      } else if (mediaType === 'video' || mediaType === 'audio') {
-        // 对于视频和音频文件，获取时长信息
-        const duration = await getMediaDurationWithCache(file, this.app);
-        resolution = duration ? `${duration}` : (mediaType === 'video' ? '视频文件' : '音频文件');
-      }
-    } catch (e) {
-      console.warn(`无法获取媒体信息: ${path}`, e);
-    }
-    
-    // 根据设置确定标签
-    let tags: string[] = [];
-    if (this.settings.autoTagOnImport && this.settings.autoTagOnImportValue) {
-      // 如果启用了自动标签功能且有自定义标签值，则使用这些标签
-      tags = this.settings.autoTagOnImportValue
-        .split(',')
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
-    }
-    
-    return {
-      id: `media_${Date.now()}_${path}`,
-      path: path,
-      title: name,
-      tags: tags,
-      date: new Date().toISOString(),
-      size: size,
-      resolution: resolution,
-      format: extension.toUpperCase(),
-      description: '',
-      originalName: file.name,
-      lastModified: lastModified,
-      width: width,
-      height: height,
-      fileSize: stat.size,
-      type: mediaType
-    };
-  }
-
   /**
    * 从指定的 Markdown 文件中提取所有图片链接。
    */
@@ -524,9 +663,19 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 }
 
   onunload() {
+    // 等待重新关联的记录保持原样，下次扫描时仍可按指纹找回
+    this.pendingOrphans.forEach(timer => window.clearTimeout(timer));
+    this.pendingOrphans.clear();
+
+    // 写入尚未保存的修改
+    this.mediaStore?.flush().catch(error => Logger.error('卸载时保存图片标签数据失败:', error));
+    this.thumbnails?.flush();
+
     // 清理视图
     this.app.workspace.detachLeavesOfType(GALLERY_VIEW_TYPE);
     this.app.workspace.detachLeavesOfType(IMAGE_INFO_VIEW_TYPE);
+    this.app.workspace.detachLeavesOfType(TAG_MANAGER_VIEW_TYPE);
+    this.app.workspace.detachLeavesOfType(ALBUM_VIEW_TYPE);
 }
 
   async loadSettings() {
@@ -537,6 +686,16 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 
     this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
 
+    // 旧版的分类导航迁移为按标签筛选的收藏集；新安装时创建按媒体类型的默认收藏集
+    if (!loadedData?.collections) {
+      this.settings.collections = Array.isArray(loadedData?.categories)
+        ? SmartCollections.fromCategories(loadedData.categories)
+        : SmartCollections.createDefaults();
+      delete (this.settings as ImageTaggingSettings & { categories?: string[] }).categories;
+      // 立即保存，使收藏集ID保持不变
+      await this.saveSettings();
+    }
+
     
 
     // 确保jsonStoragePath不为空
@@ -614,40 +773,63 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 
 
 
-      if (await this.app.vault.adapter.exists(this.settings.jsonStoragePath)) {
+      // 由当前存储后端读取数据（JSON 后端会在升级格式前备份原文件）
+      const result = await this.mediaStore.load();
+
+      if (result) {
 
-        const jsonData = await this.app.vault.adapter.read(this.settings.jsonStoragePath);
+        this.imageDataManager.importEnvelope(result.envelope);
 
-        this.imageDataManager.importFromJSON(jsonData);
+        this.storageLocked = false;
 
-              Logger.info('图片标签数据加载成功:', this.settings.jsonStoragePath);
+        this.imageDataManager.setLibraryMetadata({ pluginVersion: this.manifest.version });
+
+        if (result.migratedFrom !== null) {
+
+          // 以当前格式回写
+          await this.saveDataToFile(true);
+
+          new Notice(`图片标签数据已从 v${result.migratedFrom} 格式升级，原文件已备份。`);
+
+        }
+
+              Logger.info('图片标签数据加载成功:', STORAGE_BACKEND_NAMES[this.mediaStore.type]);
         
               new Notice('图片标签数据加载成功。');
       } else {
 
-        Logger.info('JSON数据文件不存在，将创建新文件:', this.settings.jsonStoragePath);
-
-        // 确保目录存在
-
-        await this.ensureDirectoryExists(this.settings.jsonStoragePath);
+        Logger.info('尚无图片标签数据，将在首次保存时创建:', STORAGE_BACKEND_NAMES[this.mediaStore.type]);
 
-        // 文件不存在时，初始化空数据
+        // 没有数据时，初始化空数据
 
-        this.imageDataManager = new ImageDataManager();
+        this.imageDataManager.clear();
 
       }
 
+      await this.migrateTagDefinitionsFromSettings();
+
     } catch (error) {
 
       Logger.error('加载图片标签数据失败:', error);
 
       Logger.error('尝试加载的路径:', this.settings.jsonStoragePath);
 
-      new Notice('加载图片标签数据失败，已初始化空数据。');
+      if (error instanceof ImageTaggingError && error.code === 'SCHEMA_TOO_NEW') {
+
+        // 数据文件由更新版本的插件写入，禁止保存以免覆盖
+        this.storageLocked = true;
+
+        new Notice(`${error.message}。在此之前不会写入数据文件。`);
+
+      } else {
+
+        new Notice('加载图片标签数据失败，已初始化空数据。');
+
+      }
 
       // 初始化空数据
 
-      this.imageDataManager = new ImageDataManager();
+      this.imageDataManager.clear();
 
     }
 
@@ -757,7 +939,20 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
     }
   }
 
-  async saveDataToFile() {
+  /**
+   * 保存标签数据到当前存储后端
+   * @param fullWrite 是否整体写入（数据被整体替换后使用），否则只写入变更的记录
+   * @returns 是否写入成功
+   */
+  async saveDataToFile(fullWrite: boolean = false): Promise<boolean> {
+
+    if (this.storageLocked) {
+
+      Logger.warn('数据文件版本高于当前插件支持的版本，已跳过保存:', this.settings.jsonStoragePath);
+
+      return false;
+
+    }
 
     try {
 
@@ -775,32 +970,644 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 
 
 
-      // 确保目录存在
+      // 由存储后端写入：JSON 后端会合并短时间内的多次保存，分片/附属文件后端只写入受影响的文件
+
+      const changes = this.imageDataManager.takeChanges();
+
+      try {
+
+        if (fullWrite) {
+
+          await this.mediaStore.save(this.imageDataManager);
+
+        } else {
+
+          await this.mediaStore.patch(changes, this.imageDataManager);
+
+        }
+
+      } catch (error) {
+
+        // 写入失败（包括需要先合并外部修改）时放回变更，下次保存时重新写入
+        this.imageDataManager.restoreChanges(changes);
+
+        throw error;
 
-      await this.ensureDirectoryExists(this.settings.jsonStoragePath);
+      }
+
+      // 将变更同步到媒体笔记
+      if (this.mediaNotes.isEnabled()) {
 
+        if (fullWrite) {
 
+          await this.mediaNotes.syncAll();
 
-      const jsonData = this.imageDataManager.exportToJSON();
+        } else {
 
-      // 使用 Vault.write 代替 adapter.write 以便更好地兼容 Obsidian 环境
+          await this.mediaNotes.syncRecords(changes);
 
-      await this.app.vault.adapter.write(this.settings.jsonStoragePath, jsonData); 
+        }
 
-      // 注意：使用 adapter.write 避免了触发文件事件，是存储插件私有数据的好方法
+      }
 
-      Logger.info('图片标签数据保存成功:', this.settings.jsonStoragePath);
+      // 注意：使用 adapter 读写避免了触发文件事件，是存储插件私有数据的好方法
+
+      Logger.info('图片标签数据保存成功:', STORAGE_BACKEND_NAMES[this.mediaStore.type]);
+
+      return true;
 
     } catch (error) {
 
+      if (error instanceof ImageTaggingError && error.code === 'EXTERNAL_CHANGE') {
+
+        // 数据文件被外部修改：先合并，合并后会重新保存
+        Logger.info(error.message);
+
+        if (this.mergingExternalChanges) {
+
+          this.saveAfterMerge = true;
+
+        } else {
+
+          await this.mergeExternalChanges();
+
+        }
+
+        return false;
+
+      }
+
       Logger.error('保存图片标签数据失败:', error);
 
       Logger.error('尝试保存的路径:', this.settings.jsonStoragePath);
 
       new Notice('保存图片标签数据失败');
 
+      return false;
+
+    }
+
+  }
+
+  /**
+   * 早期版本把标签定义保存在插件设置中，移到数据文件后才能随同步、备份和合并
+   * 数据文件写入成功后才从设置中删除，失败时下次加载重试（只补充数据文件中没有的标签）
+   */
+  private async migrateTagDefinitionsFromSettings() {
+    const legacy = this.settings.tagRegistry;
+    if (!legacy || this.storageLocked) return;
+
+    if (legacy.length > 0) {
+      const existing = this.imageDataManager.getTagDefinitions();
+      const tags = new Set(existing.map(definition => definition.tag));
+      this.imageDataManager.setTagDefinitions([...existing, ...legacy.filter(definition => !tags.has(definition.tag))]);
+      if (!(await this.saveDataToFile())) return;
+      Logger.info(`已将 ${legacy.length} 个标签定义从插件设置移到数据文件`);
+    }
+
+    delete this.settings.tagRegistry;
+    await this.saveSettings();
+  }
+
+  /**
+   * 检查数据文件是否被同步工具或其他设备修改，有修改时与本地数据逐条进行三方合并
+   * 无法自动合并的记录由用户在冲突对话框中选择
+   */
+  async mergeExternalChanges() {
+    if (this.mergingExternalChanges || this.storageLocked || !this.mediaStore.readExternalChange) {
+      return;
+    }
+
+    this.mergingExternalChanges = true;
+    try {
+      const change = await this.mediaStore.readExternalChange();
+      if (!change) return;
+
+      Logger.info('检测到数据文件被外部修改，开始合并:', this.settings.jsonStoragePath);
+      // 记录会被原地修改，合并基于此刻的副本
+      const local = this.imageDataManager.getAllImageData().map(item => JSON.parse(JSON.stringify(item)) as MediaData);
+      const result = LibraryMerge.merge(change.base, local, change.remote.items);
+
+      let items = LibraryMerge.resolve(result, []);
+      if (result.conflicts.length > 0) {
+        const resolutions = await new Promise<MergeResolution[] | null>(resolve => {
+          new MergeConflictModal(this.app, result.conflicts, resolve).open();
+        });
+        // 对话框打开期间的编辑、扫描和重新关联：以合并开始时的数据为基础再合并一次，这些修改优先
+        const resolved = LibraryMerge.resolve(result, resolutions || []);
+        items = LibraryMerge.resolve(LibraryMerge.merge(local, this.imageDataManager.getAllImageData(), resolved), []);
+
+        // 外部版本中未被采用的修改保留在备份中
+        if (this.mediaStore.createBackup) {
+          await this.mediaStore.createBackup();
+        }
+      }
+
+      const changedCount = this.imageDataManager.applyMerged(items);
+      const remoteAlbums = change.remote.albums || [];
+      const albums = LibraryMerge.mergeAlbums(change.baseAlbums, this.imageDataManager.getAlbums(), remoteAlbums);
+      this.imageDataManager.applyMergedAlbums(albums);
+      const remoteTagDefinitions = change.remote.tagDefinitions || [];
+      this.imageDataManager.setTagDefinitions(
+        LibraryMerge.mergeTagDefinitions(change.baseTagDefinitions, this.imageDataManager.getTagDefinitions(), remoteTagDefinitions)
+      );
+      this.mediaStore.acceptExternalChange?.(change);
+      // 撤销历史中的快照可能覆盖刚合并的外部修改
+      this.editHistory.clear();
+
+      if (LibraryMerge.isSameLibrary(items, change.remote.items)
+        && LibraryMerge.isSameAlbums(this.imageDataManager.getAlbums(), remoteAlbums)
+        && LibraryMerge.isSameTagDefinitions(this.imageDataManager.getTagDefinitions(), remoteTagDefinitions)) {
+        // 合并结果与外部文件一致，无需回写
+        this.imageDataManager.takeChanges();
+      } else {
+        await this.saveDataToFile();
+      }
+
+      Logger.info(`外部修改合并完成：更新了 ${changedCount} 条记录，冲突 ${result.conflicts.length} 条`);
+      if (result.conflicts.length > 0) {
+        new Notice(`已合并标签数据的外部修改，处理了 ${result.conflicts.length} 条冲突记录。`);
+      } else if (changedCount > 0) {
+        new Notice(`已载入标签数据的外部修改（${changedCount} 条记录）。`);
+      }
+    } catch (error) {
+      Logger.error('合并数据文件的外部修改失败:', error);
+      new Notice('合并标签数据的外部修改失败，请查看控制台了解详细信息。');
+    } finally {
+      this.mergingExternalChanges = false;
+      if (this.saveAfterMerge) {
+        this.saveAfterMerge = false;
+        await this.saveDataToFile();
+      }
+    }
+  }
+
+  /**
+   * 从备份恢复标签数据
+   */
+  async restoreFromBackup() {
+    try {
+      if (!this.mediaStore.listBackups || !this.mediaStore.createBackup) {
+        new Notice(`当前存储方式（${STORAGE_BACKEND_NAMES[this.mediaStore.type]}）不支持备份恢复。`);
+        return;
+      }
+
+      // 先写入尚未保存的修改，确保备份列表和当前数据一致
+      await this.mediaStore.flush();
+
+      const backups = await this.mediaStore.listBackups();
+      if (backups.length === 0) {
+        new Notice('没有找到图片标签数据的备份。');
+        return;
+      }
+
+      const entries = await BackupRestoreModal.loadEntries(this.app, backups);
+      new BackupRestoreModal(this.app, entries, (entry) => {
+        if (entry.itemCount === null) {
+          new Notice('该备份无法读取，请选择其他备份。');
+          return;
+        }
+
+        const backupTime = new Date(entry.timestamp).toLocaleString();
+        new ConfirmModal(this.app, {
+          title: '从备份恢复',
+          message: `确定要用 ${backupTime} 的备份（${entry.itemCount} 条记录）替换当前数据吗？`,
+          confirmText: '恢复',
+          warning: true
+        }, () => this.restoreBackupEntry(entry)).open();
+      }).open();
+    } catch (error) {
+      Logger.error('读取备份列表失败:', error);
+      new Notice('读取备份列表失败，请查看控制台了解详细信息。');
+    }
+  }
+
+  // 用选中的备份替换当前数据
+  private async restoreBackupEntry(entry: BackupEntry) {
+    try {
+      const content = await this.app.vault.adapter.read(entry.path);
+
+      // 恢复前为当前数据再做一次备份，便于反悔
+      if (this.mediaStore.createBackup && await this.app.vault.adapter.exists(this.settings.jsonStoragePath)) {
+        await this.mediaStore.createBackup();
+      }
+
+      this.imageDataManager.importFromJSON(content);
+      this.imageDataManager.setLibraryMetadata({ pluginVersion: this.manifest.version });
+      this.storageLocked = false;
+      await this.saveDataToFile(true);
+
+      new Notice(`已从备份恢复 ${entry.itemCount} 条图片标签记录。`);
+    } catch (error) {
+      Logger.error('从备份恢复图片标签数据失败:', error);
+      new Notice('恢复备份失败，请查看控制台了解详细信息。');
+    }
+  }
+
+  /**
+   * 将全部标签数据写入新的存储后端并切换到该后端
+   * 原存储中的数据会保留，便于需要时切换回去
+   * @returns 是否已切换到新后端
+   */
+  async migrateStorageBackend(target: StorageBackendType): Promise<boolean> {
+    if (target === this.mediaStore.type) {
+      new Notice(`标签数据已经使用${STORAGE_BACKEND_NAMES[target]}存储。`);
+      return true;
+    }
+
+    if (this.storageLocked) {
+      new Notice('数据文件版本高于当前插件支持的版本，无法迁移存储方式。');
+      return false;
+    }
+
+    try {
+      new Notice(`正在将标签数据迁移到${STORAGE_BACKEND_NAMES[target]}...`);
+
+      // 写完当前后端的未保存修改后再切换
+      await this.saveDataToFile();
+      await this.mediaStore.flush();
+
+      const targetStore = createMediaStore(this.app, target, this.settings);
+      const changes = this.imageDataManager.takeChanges();
+      try {
+        await targetStore.save(this.imageDataManager);
+        await targetStore.flush();
+      } catch (error) {
+        // 仍使用原后端，尚未写入原后端的变更留待下次保存
+        this.imageDataManager.restoreChanges(changes);
+        throw error;
+      }
+
+      this.mediaStore = targetStore;
+      this.settings.storageBackend = target;
+      await this.saveSettings();
+
+      new Notice(`已将 ${this.imageDataManager.getAllImageData().length} 条记录迁移到${STORAGE_BACKEND_NAMES[target]}。原存储中的数据已保留。`);
+      return true;
+    } catch (error) {
+      Logger.error('迁移存储方式失败:', error);
+      new Notice('迁移存储方式失败，请查看控制台了解详细信息。');
+      return false;
     }
+  }
+
+  /**
+   * 切换存储后端但不迁移数据，先把未保存的修改写入当前后端，再从新后端重新加载
+   * @returns 是否已切换到新后端
+   */
+  async switchStorageBackend(target: StorageBackendType): Promise<boolean> {
+    if (target === this.mediaStore.type) return true;
 
+    try {
+      // 数据文件版本过高时不能写入，当前修改本来就无法保存
+      if (!this.storageLocked) {
+        if (!(await this.saveDataToFile())) {
+          new Notice('保存当前修改失败，已取消切换存储方式。');
+          return false;
+        }
+        await this.mediaStore.flush();
+      }
+    } catch (error) {
+      Logger.error('切换存储方式前保存数据失败:', error);
+      new Notice('保存当前修改失败，已取消切换存储方式。');
+      return false;
+    }
+
+    this.settings.storageBackend = target;
+    await this.saveSettings();
+    this.mediaStore = createMediaStore(this.app, target, this.settings);
+    await this.loadDataFromFile();
+    return true;
+  }
+
+  /**
+   * 自定义字段定义变化后，更新已打开视图中的字段编辑控件、筛选和排序选项
+   */
+  refreshFieldSchema() {
+    for (const leaf of this.app.workspace.getLeavesOfType(GALLERY_VIEW_TYPE)) {
+      if (leaf.view instanceof GalleryView) leaf.view.refreshFieldSchema();
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(IMAGE_INFO_VIEW_TYPE)) {
+      if (leaf.view instanceof ImageView) leaf.view.refreshFieldSchema();
+    }
+  }
+
+  /**
+   * 收藏集变化后，更新所有已打开图库的侧边栏和筛选结果
+   */
+  refreshCollections() {
+    for (const leaf of this.app.workspace.getLeavesOfType(GALLERY_VIEW_TYPE)) {
+      if (leaf.view instanceof GalleryView) leaf.view.refreshCollections();
+    }
+  }
+
+  /**
+   * 标签颜色、图标或说明变化后，重新绘制已打开视图中的标签
+   */
+  refreshTagAppearance() {
+    for (const leaf of this.app.workspace.getLeavesOfType(GALLERY_VIEW_TYPE)) {
+      if (leaf.view instanceof GalleryView) leaf.view.refreshTagAppearance();
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(IMAGE_INFO_VIEW_TYPE)) {
+      if (leaf.view instanceof ImageView) leaf.view.refreshTagAppearance();
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(TAG_MANAGER_VIEW_TYPE)) {
+      if (leaf.view instanceof TagManagerView) leaf.view.refreshTagAppearance();
+    }
+  }
+
+  /**
+   * 缩略图缓存或设置变化后，重新加载已打开视图中的预览
+   */
+  refreshPreviews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(GALLERY_VIEW_TYPE)) {
+      if (leaf.view instanceof GalleryView) leaf.view.refreshPreviews();
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(IMAGE_INFO_VIEW_TYPE)) {
+      if (leaf.view instanceof ImageView) leaf.view.refreshPreviews();
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(TAG_MANAGER_VIEW_TYPE)) {
+      if (leaf.view instanceof TagManagerView) leaf.view.refreshPreviews();
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(ALBUM_VIEW_TYPE)) {
+      if (leaf.view instanceof AlbumView) leaf.view.refreshPreviews();
+    }
+  }
+
+  /**
+   * 标签的右键菜单：编辑颜色、图标和说明
+   */
+  showTagMenu(event: MouseEvent, tag: string) {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const menu = new Menu();
+    menu.addItem(item => item
+      .setTitle('编辑颜色、图标和说明')
+      .setIcon('palette')
+      .onClick(() => new TagAppearanceModal(this.app, tag, this.tagRegistry).open()));
+
+    const definition = this.tagRegistry.getDefinition(tag);
+    if (definition?.color || definition?.icon) {
+      menu.addItem(item => item
+        .setTitle('清除颜色和图标')
+        .setIcon('eraser')
+        .onClick(() => this.tagRegistry.update(tag, { color: undefined, icon: undefined })));
+    }
+    menu.showAtMouseEvent(event);
+  }
+
+  /**
+   * “添加到相册”菜单：列出全部相册，也可以新建相册后添加
+   */
+  showAddToAlbumMenu(event: MouseEvent, mediaIds: string[]) {
+    if (mediaIds.length === 0) return;
+
+    const addTo = async (albumId: string, albumName: string) => {
+      const added = this.imageDataManager.addToAlbum(albumId, mediaIds);
+      await this.saveDataToFile();
+      new Notice(added > 0
+        ? `已将 ${added} 项添加到相册“${albumName}”`
+        : `所选媒体已在相册“${albumName}”中`);
+    };
+
+    const menu = new Menu();
+    for (const album of this.imageDataManager.getAlbums()) {
+      menu.addItem(item => item
+        .setTitle(`${album.name} (${album.items.length})`)
+        .setIcon('book-image')
+        .onClick(() => addTo(album.id, album.name)));
+    }
+    menu.addSeparator();
+    menu.addItem(item => item
+      .setTitle('新建相册…')
+      .setIcon('plus')
+      .onClick(() => new AlbumNameModal(this.app, '新建相册', '', '创建并添加', name => {
+        const album = this.imageDataManager.createAlbum(name);
+        addTo(album.id, album.name);
+      }).open()));
+    menu.showAtMouseEvent(event);
+  }
+
+  /**
+   * 撤销最近一次元数据编辑
+   */
+  async undoEdit() {
+    const operation = this.editHistory.undo();
+    if (!operation) {
+      new Notice('没有可撤销的编辑');
+      return;
+    }
+    await this.saveDataToFile();
+    new Notice(`已撤销: ${operation.label}`);
+  }
+
+  /**
+   * 重做最近一次撤销的编辑
+   */
+  async redoEdit() {
+    const operation = this.editHistory.redo();
+    if (!operation) {
+      new Notice('没有可重做的编辑');
+      return;
+    }
+    await this.saveDataToFile();
+    new Notice(`已重做: ${operation.label}`);
+  }
+
+  /**
+   * 将所有记录中作为别名使用的标签替换为标准标签（可撤销）
+   */
+  async applyTagAliases() {
+    const resolve = (tag: string) => this.tagRegistry.resolve(tag);
+    const ids = this.imageDataManager.getAllImageData()
+      .filter(mediaData => mediaData.tags.some(tag => resolve(tag) !== tag))
+      .map(mediaData => mediaData.id);
+    if (ids.length === 0) {
+      new Notice('没有需要替换的标签别名');
+      return;
+    }
+
+    let changed = 0;
+    this.editHistory.run('替换标签别名', ids, () => {
+      changed = this.imageDataManager.rewriteTags(ids, resolve);
+    });
+    await this.saveDataToFile();
+    new Notice(`已将 ${changed} 条记录中的标签别名替换为标准标签`);
+  }
+
+  /**
+   * 清空缩略图缓存，并为所有图片和视频记录重新生成卡片尺寸的缩略图和封面
+   */
+  async rebuildThumbnails() {
+    if (!this.settings.enableThumbnails) {
+      new Notice('请先在设置中启用缩略图。');
+      return;
+    }
+
+    const files = this.imageDataManager.getAllImageData()
+      .filter(mediaData => mediaData.type === 'image' || mediaData.type === 'video')
+      .map(mediaData => this.app.vault.getAbstractFileByPath(mediaData.path))
+      .filter((file): file is TFile => file instanceof TFile);
+    const notice = new Notice('正在重建缩略图...', 0);
+    try {
+      const count = await this.thumbnails.rebuild(files, this.settings.thumbnailSize, this.settings.videoPosterTime, (done, total) => {
+        notice.setMessage(`正在重建缩略图 (${done}/${total})...`);
+      });
+      new Notice(`缩略图重建完成，生成了 ${count} 个缩略图。`);
+    } catch (error) {
+      Logger.error('重建缩略图失败:', error);
+      new Notice('重建缩略图失败，请查看控制台了解详情。');
+    } finally {
+      notice.hide();
+    }
+    this.refreshPreviews();
+  }
+
+  /**
+   * 为所有记录生成或更新媒体笔记
+   */
+  async syncAllMediaNotes() {
+    if (!this.mediaNotes.isEnabled()) {
+      new Notice('请先在设置中启用媒体笔记。');
+      return;
+    }
+
+    new Notice('正在同步媒体笔记...');
+    const count = await this.mediaNotes.syncAll();
+    new Notice(`媒体笔记同步完成，更新了 ${count} 篇笔记。`);
+  }
+
+  /**
+   * 为缺少指纹的记录补充指纹，并把路径失效的记录重新关联到内容相同的新文件
+   * 无法自动确定对应关系的记录交由用户在对话框中确认
+   * @param files - 本次扫描范围内支持的媒体文件
+   */
+  async relinkOrphanedRecords(files: TFile[]): Promise<RelinkResult> {
+    const relinker = new MediaRelinker(this.app, this.imageDataManager);
+    const backfilled = await relinker.backfill();
+    // 已在对话框中等待确认的记录和文件不再参与
+    const result = await relinker.relinkOrphans(files.filter(file => !this.isAwaitingRelink(file.path)), this.awaitingRelink.ids);
+
+    if (backfilled > 0 || result.relinked.length > 0) {
+      await this.saveDataToFile();
+    }
+    if (result.relinked.length > 0) {
+      new Notice(`已根据文件内容重新关联 ${result.relinked.length} 个被重命名或移动的媒体文件`);
+    }
+
+    if (result.ambiguous.length > 0) {
+      // 对话框关闭前，扫描不为候选文件创建记录，清理也不移除这些失效记录
+      for (const group of result.ambiguous) {
+        group.orphans.forEach(media => this.awaitingRelink.ids.add(media.id));
+        group.files.forEach(file => this.awaitingRelink.paths.add(file.path));
+      }
+      new RelinkReviewModal(this.app, result.ambiguous, (choices) => this.applyRelinkChoices(result.ambiguous, choices)).open();
+    }
+
+    return result;
+  }
+
+  /**
+   * 文件是否为等待用户确认重新关联的候选文件（扫描时暂不为其创建记录）
+   */
+  isAwaitingRelink(path: string): boolean {
+    return this.awaitingRelink.paths.has(path);
+  }
+
+  /**
+   * 等待用户确认重新关联的失效记录（清理时保留）
+   */
+  getAwaitingRelinkIds(): ReadonlySet<string> {
+    return this.awaitingRelink.ids;
+  }
+
+  // 应用对话框中的选择；未被关联的候选文件补建记录
+  private async applyRelinkChoices(groups: RelinkCandidateGroup[], choices: RelinkChoice[]) {
+    for (const group of groups) {
+      group.orphans.forEach(media => this.awaitingRelink.ids.delete(media.id));
+      group.files.forEach(file => this.awaitingRelink.paths.delete(file.path));
+    }
+
+    const relinker = new MediaRelinker(this.app, this.imageDataManager);
+    let relinked = 0;
+    for (const { media, file } of choices) {
+      // 对话框打开期间记录可能已被删除或关联到其他文件，目标文件也可能已有记录
+      const current = this.imageDataManager.getImageData(media.id);
+      if (!current || this.app.vault.getAbstractFileByPath(current.path) instanceof TFile) continue;
+      if (!(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile) || this.imageDataManager.getImageDataByPath(file.path)) continue;
+      relinker.relink(current, file);
+      relinked++;
+    }
+
+    let created = 0;
+    for (const file of groups.flatMap(group => group.files)) {
+      if (this.imageDataManager.getImageDataByPath(file.path) || !(this.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) continue;
+      this.imageDataManager.addImageData(await this.recordFactory.create(file));
+      created++;
+    }
+
+    if (relinked > 0 || created > 0) {
+      await this.saveDataToFile();
+    }
+    if (relinked > 0) {
+      new Notice(`已重新关联 ${relinked} 个媒体文件`);
+    }
+  }
+
+  // 源文件被修改后重新计算指纹，否则之后在外部重命名或移动时无法找回记录
+  private async updateFingerprint(file: TFile) {
+    const media = this.imageDataManager.getImageDataByPath(file.path);
+    if (!media) return;
+
+    const fingerprint = await MediaFingerprint.compute(this.app, file);
+    const current = this.imageDataManager.getImageDataByPath(file.path);
+    if (!fingerprint || !current || current.fingerprint === fingerprint) return;
+
+    this.imageDataManager.addImageData({ ...current, fingerprint });
+    this.saveDataToFile();
+  }
+
+  // 文件被删除后等待一段时间，期间出现同内容的新文件则重新关联，否则移除记录
+  private scheduleOrphanRemoval(media: MediaData) {
+    const existing = this.pendingOrphans.get(media.id);
+    if (existing !== undefined) window.clearTimeout(existing);
+
+    const timer = window.setTimeout(() => {
+      this.pendingOrphans.delete(media.id);
+      const current = this.imageDataManager.getImageData(media.id);
+      if (!current || this.app.vault.getAbstractFileByPath(current.path)) return;
+      // 正在等待用户确认重新关联，之后再检查
+      if (this.awaitingRelink.ids.has(media.id)) {
+        this.scheduleOrphanRemoval(current);
+        return;
+      }
+
+      this.imageDataManager.removeImageData(media.id);
+      this.saveDataToFile();
+      Logger.debug(`已清理已删除图片的数据: ${current.path}`);
+    }, RELINK_GRACE_PERIOD);
+
+    this.pendingOrphans.set(media.id, timer);
+  }
+
+  // 新建的文件与等待中的已删除记录内容相同时，视为外部移动并重新关联
+  private async relinkCreatedFile(file: TFile) {
+    if (this.imageDataManager.getImageDataByPath(file.path)) return;
+
+    const fingerprint = await MediaFingerprint.compute(this.app, file);
+    if (!fingerprint) return;
+
+    for (const id of this.pendingOrphans.keys()) {
+      const media = this.imageDataManager.getImageData(id);
+      if (!media || media.fingerprint !== fingerprint) continue;
+
+      window.clearTimeout(this.pendingOrphans.get(id));
+      this.pendingOrphans.delete(id);
+      new MediaRelinker(this.app, this.imageDataManager).relink(media, file);
+      await this.saveDataToFile();
+      return;
+    }
   }
 
     /**
@@ -859,9 +1666,17 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 
   
 
+      // 先按内容指纹找回在外部被重命名或移动的文件，避免为它们创建新记录
+
+      await this.relinkOrphanedRecords(supportedFiles);
+
+  
+
       // 检查哪些文件还没有数据记录
 
-      const filesToProcess = supportedFiles.filter(file => !this.imageDataManager.getImageDataByPath(file.path));
+      const filesToProcess = supportedFiles.filter(file =>
+        !this.imageDataManager.getImageDataByPath(file.path) && !this.isAwaitingRelink(file.path)
+      );
 
   
 
@@ -883,7 +1698,7 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 
         const batchPromises = batch.map(async file => {
 
-          const mediaData = await this.createDefaultImageData(file);
+          const mediaData = await this.recordFactory.create(file);
 
           this.imageDataManager.addImageData(mediaData);
 
@@ -938,16 +1753,6 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
     return folderPaths.some(folderPath => normalizedFilePath.startsWith(folderPath));
   }
 
-  private formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-    
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  }
-
   /**
    * 监听文档中的元素事件
    * @param el HTML元素
@@ -1020,13 +1825,39 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
     }
   }
 
-  async openGalleryView() {
+  async openGalleryView(state?: GalleryViewState) {
     const { workspace } = this.app;
 
     // 总是创建一个新的标签页
     const leaf = workspace.getLeaf(true);
-    await leaf.setViewState({ type: GALLERY_VIEW_TYPE, active: true });
+    await leaf.setViewState({ type: GALLERY_VIEW_TYPE, active: true, state: state ? { ...state } : undefined });
+
+    workspace.revealLeaf(leaf);
+  }
 
+  // 打开标签管理器，已打开时切换到该标签页
+  async openTagManager() {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(TAG_MANAGER_VIEW_TYPE);
+    const leaf = existing.length > 0 ? existing[0] : workspace.getLeaf(true);
+    if (existing.length === 0) {
+      await leaf.setViewState({ type: TAG_MANAGER_VIEW_TYPE, active: true });
+    }
+    workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * 打开相册视图，指定相册时直接显示该相册
+   */
+  async openAlbumView(albumId?: string) {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(ALBUM_VIEW_TYPE);
+    const leaf = existing.length > 0 ? existing[0] : workspace.getLeaf(true);
+    if (existing.length === 0) {
+      await leaf.setViewState({ type: ALBUM_VIEW_TYPE, active: true, state: albumId ? { albumId } : {} });
+    } else if (albumId && leaf.view instanceof AlbumView) {
+      leaf.view.showAlbum(albumId);
+    }
     workspace.revealLeaf(leaf);
   }
 
@@ -1086,7 +1917,7 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 
 
 
-    const removedCount = this.imageDataManager.cleanupInvalidImages(this.app, this.settings.scanFolderPath, this.settings.scanMultipleFolderPaths);
+    const removedCount = this.imageDataManager.cleanupInvalidImages(this.app, this.settings.scanFolderPath, this.settings.scanMultipleFolderPaths, this.awaitingRelink.ids);
 
 
 
@@ -1107,6 +1938,9 @@ async getImageInfoFromPath(imagePath: string, activeFile: TFile): Promise<TFile
 class ImageTaggingSettingTab extends PluginSettingTab {
   plugin: ImageTaggingPlugin;
 
+  // 输入尺寸时等停止输入后再重新加载预览
+  private refreshPreviews = debounce(() => this.plugin.refreshPreviews(), 1000, true);
+
   constructor(app: App, plugin: ImageTaggingPlugin) {
     super(app, plugin);
     this.plugin = plugin;
@@ -1213,8 +2047,286 @@ class ImageTaggingSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
 
         }));
+
+    new Setting(containerEl)
+      .setName('存储方式')
+      .setDesc('单个 JSON 文件适合小型库；按文件夹分片或媒体附属文件 (photo.jpg.meta.json) 便于同步工具按文件合并，适合大型共享库')
+      .addDropdown(dropdown => {
+        for (const [type, name] of Object.entries(STORAGE_BACKEND_NAMES)) {
+          dropdown.addOption(type, name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.storageBackend)
+          .onChange((value) => {
+            const target = value as StorageBackendType;
+            new StorageSwitchModal(this.app, target, async (choice) => {
+              let switched = false;
+              if (choice === 'migrate') {
+                switched = await this.plugin.migrateStorageBackend(target);
+              } else if (choice === 'switch') {
+                switched = await this.plugin.switchStorageBackend(target);
+              }
+              // 取消或失败时恢复为实际使用的存储方式
+              if (!switched) dropdown.setValue(this.plugin.settings.storageBackend);
+            }).open();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('媒体笔记')
+      .setDesc('为每个媒体文件维护一篇带属性的 Markdown 笔记（标签、标题、描述、来源），使标签可在 Obsidian 的标签面板、搜索和关系图中使用。编辑笔记属性会同步回图片标签数据')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableMediaNotes)
+        .onChange(async (value) => {
+          this.plugin.settings.enableMediaNotes = value;
+          await this.plugin.saveSettings();
+          if (value) {
+            await this.plugin.syncAllMediaNotes();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('媒体笔记文件夹')
+      .setDesc('媒体笔记按媒体文件的路径存放在此文件夹中')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.mediaNotesFolder)
+        .setValue(this.plugin.settings.mediaNotesFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.mediaNotesFolder = value.trim() || DEFAULT_SETTINGS.mediaNotesFolder;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('保留的备份数量')
+      .setDesc('保存数据时在 JSON 文件旁保留的带时间戳备份数量，可通过“从备份恢复标签数据”命令恢复')
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_SETTINGS.maxBackups))
+        .setValue(String(this.plugin.settings.maxBackups))
+        .onChange(async (value) => {
+          const count = parseInt(value, 10);
+          if (!isNaN(count) && count >= 0) {
+            this.plugin.settings.maxBackups = count;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    this.displayThumbnails(containerEl);
+
+    this.displayCustomFields(containerEl);
+
+    this.displayTagAliases(containerEl);
     
 
   }
 
+  // 缩略图：开关、尺寸和缓存上限
+  private displayThumbnails(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('缩略图')
+      .setDesc('图库和相册卡片、媒体信息面板和标签管理器的预览使用缩小后的图片，视频显示截取的封面；缩略图缓存在插件目录的 cache/thumbnails 文件夹中。可用“重建缩略图”命令重新生成')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('使用缩略图')
+      .setDesc('关闭后直接加载原图（视频封面不受影响）')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.enableThumbnails)
+        .onChange(async (value) => {
+          this.plugin.settings.enableThumbnails = value;
+          await this.plugin.saveSettings();
+          this.plugin.refreshPreviews();
+        }));
+
+    this.addPixelSetting(containerEl, '卡片缩略图尺寸', '卡片和列表中缩略图的最长边（像素）', 'thumbnailSize');
+    this.addPixelSetting(containerEl, '面板预览尺寸', '媒体信息面板中预览图的最长边（像素）', 'panelThumbnailSize');
+    this.addPosterTimeSetting(containerEl);
+
+    new Setting(containerEl)
+      .setName('缓存大小上限 (MB)')
+      .setDesc(`超过上限时删除最久未使用的缩略图。当前已使用 ${(this.plugin.thumbnails.getCacheSize() / 1024 / 1024).toFixed(1)} MB`)
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_SETTINGS.thumbnailCacheLimit))
+        .setValue(String(this.plugin.settings.thumbnailCacheLimit))
+        .onChange(async (value) => {
+          const limit = parseInt(value, 10);
+          if (!isNaN(limit) && limit > 0) {
+            this.plugin.settings.thumbnailCacheLimit = limit;
+            await this.plugin.saveSettings();
+          }
+        }));
+  }
+
+  private addPosterTimeSetting(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('视频封面时间点（秒）')
+      .setDesc('从视频的这一时间点截取封面，视频较短时取中间的画面')
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_SETTINGS.videoPosterTime))
+        .setValue(String(this.plugin.settings.videoPosterTime))
+        .onChange(async (value) => {
+          const time = parseFloat(value);
+          if (!isNaN(time) && time >= 0) {
+            this.plugin.settings.videoPosterTime = time;
+            await this.plugin.saveSettings();
+            this.refreshPreviews();
+          }
+        }));
+  }
+
+  private addPixelSetting(containerEl: HTMLElement, name: string, desc: string, key: 'thumbnailSize' | 'panelThumbnailSize') {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_SETTINGS[key]))
+        .setValue(String(this.plugin.settings[key]))
+        .onChange(async (value) => {
+          const size = parseInt(value, 10);
+          if (!isNaN(size) && size >= 32) {
+            this.plugin.settings[key] = size;
+            await this.plugin.saveSettings();
+            this.refreshPreviews();
+          }
+        }));
+  }
+
+  // 自定义字段定义：名称、类型、单选/多选的选项
+  private displayCustomFields(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('自定义字段')
+      .setDesc('为媒体记录添加带类型的字段（如来源链接、作者、许可、拍摄日期、项目、评分），可在媒体信息面板和图库详情中编辑，并在图库中筛选和排序。删除字段不会清除记录中已保存的值')
+      .setHeading();
+
+    this.plugin.settings.customFields.forEach((field, index) => {
+      const setting = new Setting(containerEl)
+        .setDesc(`键: ${field.key}`)
+        .addText(text => text
+          .setPlaceholder('字段名称')
+          .setValue(field.name)
+          .onChange(async (value) => {
+            await this.updateCustomField(index, { name: value.trim() || '未命名字段' });
+          }))
+        .addDropdown(dropdown => {
+          for (const [type, name] of Object.entries(CUSTOM_FIELD_TYPE_NAMES)) {
+            dropdown.addOption(type, name);
+          }
+          dropdown
+            .setValue(field.type)
+            .onChange(async (value) => {
+              await this.updateCustomField(index, { type: value as CustomFieldType });
+              this.display();
+            });
+        });
+
+      if (field.type === 'select' || field.type === 'multi-select') {
+        setting.addText(text => text
+          .setPlaceholder('可选值，用逗号分隔')
+          .setValue((field.options || []).join(', '))
+          .onChange(async (value) => {
+            const options = value.split(',').map(option => option.trim()).filter(option => option.length > 0);
+            await this.updateCustomField(index, { options });
+          }));
+      }
+
+      setting.addExtraButton(button => button
+        .setIcon('trash')
+        .setTooltip('删除字段')
+        .onClick(async () => {
+          this.plugin.settings.customFields = this.plugin.settings.customFields.filter((_, i) => i !== index);
+          await this.plugin.saveSettings();
+          this.plugin.refreshFieldSchema();
+          this.display();
+        }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('添加字段')
+        .onClick(async () => {
+          const fields = this.plugin.settings.customFields;
+          this.plugin.settings.customFields = [...fields, { key: CustomFields.createKey(fields), name: '新字段', type: 'text' }];
+          await this.plugin.saveSettings();
+          this.plugin.refreshFieldSchema();
+          this.display();
+        }));
+  }
+
+  private async updateCustomField(index: number, changes: Partial<CustomFieldDefinition>) {
+    this.plugin.settings.customFields = this.plugin.settings.customFields.map((field, i) =>
+      i === index ? { ...field, ...changes } : field
+    );
+    await this.plugin.saveSettings();
+    this.plugin.refreshFieldSchema();
+  }
+
+  // 标签定义：每个标准标签的别名和颜色
+  private displayTagAliases(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('标签别名和颜色')
+      .setDesc('为标准标签声明别名（如 cat 的别名 cats、猫）。添加标签时输入别名会保存为标准标签，图库搜索别名时也会匹配标准标签。已有记录中的别名可通过“将已有标签中的别名替换为标准标签”命令统一替换。标签的图标和说明可在标签的右键菜单中编辑')
+      .setHeading();
+
+    // 标签定义保存在数据文件中，修改后由数据管理器通知更新标签外观
+    this.plugin.imageDataManager.getTagDefinitions().forEach((definition, index) => {
+      new Setting(containerEl)
+        .addText(text => text
+          .setPlaceholder('标准标签')
+          .setValue(definition.tag)
+          .onChange(async (value) => {
+            await this.updateTagDefinition(index, { tag: TagHierarchy.normalize(value) });
+          }))
+        .addText(text => text
+          .setPlaceholder('别名，用逗号分隔')
+          .setValue(definition.aliases.join(', '))
+          .onChange(async (value) => {
+            const aliases = value.split(',').map(alias => TagHierarchy.normalize(alias)).filter(alias => alias.length > 0);
+            await this.updateTagDefinition(index, { aliases });
+          }))
+        .addColorPicker(picker => {
+          // 未设置颜色时不写入取色器的默认值
+          if (definition.color) picker.setValue(definition.color);
+          picker.onChange(async (value) => {
+            await this.updateTagDefinition(index, { color: value });
+          });
+        })
+        .addExtraButton(button => button
+          .setIcon('rotate-ccw')
+          .setTooltip('清除颜色')
+          .setDisabled(!definition.color)
+          .onClick(async () => {
+            await this.updateTagDefinition(index, { color: undefined });
+            this.display();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('删除')
+          .onClick(async () => {
+            await this.saveTagDefinitions(this.plugin.imageDataManager.getTagDefinitions().filter((_, i) => i !== index));
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('添加标准标签')
+        .onClick(async () => {
+          await this.saveTagDefinitions([...this.plugin.imageDataManager.getTagDefinitions(), { tag: '', aliases: [] }]);
+          this.display();
+        }));
+  }
+
+  private async updateTagDefinition(index: number, changes: Partial<TagDefinition>) {
+    await this.saveTagDefinitions(this.plugin.imageDataManager.getTagDefinitions().map((definition, i) => {
+      if (i !== index) return definition;
+      const updated = { ...definition, ...changes };
+      if (!updated.color) delete updated.color;
+      return updated;
+    }));
+  }
+
+  private async saveTagDefinitions(definitions: TagDefinition[]) {
+    this.plugin.imageDataManager.setTagDefinitions(definitions);
+    await this.plugin.saveDataToFile();
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+/**
+ * 媒体内容指纹
+ * 指纹由文件大小和文件头、中、尾部分内容的哈希组成，用于在文件被外部重命名或移动后重新关联记录
+ */
+import { App, TFile, FileSystemAdapter } from 'obsidian';
+import { MediaData, ImageDataManager } from './image-data-model';
+import { Logger } from './logger';
+import { FINGERPRINT_SAMPLE_SIZE } from './constants';
+
+// 同一指纹下无法自动确定对应关系的记录和文件
+export interface RelinkCandidateGroup {
+  fingerprint: string;
+  orphans: MediaData[];   // 路径已失效的记录
+  files: TFile[];         // 尚未被记录的同指纹文件
+}
+
+export interface RelinkResult {
+  relinked: MediaData[];              // 已自动重新关联的记录
+  ambiguous: RelinkCandidateGroup[];  // 需要用户确认的候选
+}
+
+export class MediaFingerprint {
+  /**
+   * 计算文件的内容指纹，格式为 `<字节数>-<哈希>`
+   * @returns 指纹字符串，读取失败时返回 null
+   */
+  static async compute(app: App, file: TFile): Promise<string | null> {
+    try {
+      const size = file.stat.size;
+      const sample = await this.readSample(app, file, size);
+      const digest = await crypto.subtle.digest('SHA-256', sample);
+      const hash = Array.from(new Uint8Array(digest))
+        .slice(0, 16)
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+      return `${size}-${hash}`;
+    } catch (error) {
+      Logger.warn(`无法计算内容指纹: ${file.path}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 从指纹中取出文件大小，用于在计算哈希前快速筛选候选文件
+   */
+  static sizeOf(fingerprint: string): number {
+    return parseInt(fingerprint.split('-')[0], 10);
+  }
+
+  // 读取文件头、中、尾三段内容；小文件直接读取全部内容
+  private static async readSample(app: App, file: TFile, size: number): Promise<ArrayBuffer> {
+    const adapter = app.vault.adapter;
+    const ranges = size <= FINGERPRINT_SAMPLE_SIZE * 3
+      ? [[0, size]]
+      : [
+          [0, FINGERPRINT_SAMPLE_SIZE],
+          [Math.floor(size / 2), FINGERPRINT_SAMPLE_SIZE],
+          [size - FINGERPRINT_SAMPLE_SIZE, FINGERPRINT_SAMPLE_SIZE]
+        ];
+
+    // 桌面端按区段读取，避免把大视频整个读入内存
+    if (adapter instanceof FileSystemAdapter) {
+      const fs = require('fs') as typeof import('fs');
+      const handle = await fs.promises.open(adapter.getFullPath(file.path), 'r');
+      try {
+        const buffer = new Uint8Array(ranges.reduce((sum, [, length]) => sum + length, 0));
+        let offset = 0;
+        for (const [position, length] of ranges) {
+          await handle.read(buffer, offset, length, position);
+          offset += length;
+        }
+        return buffer.buffer;
+      } finally {
+        await handle.close();
+      }
+    }
+
+    const content = new Uint8Array(await app.vault.readBinary(file));
+    const buffer = new Uint8Array(ranges.reduce((sum, [, length]) => sum + length, 0));
+    let offset = 0;
+    for (const [position, length] of ranges) {
+      buffer.set(content.subarray(position, position + length), offset);
+      offset += length;
+    }
+    return buffer.buffer;
+  }
+}
+
+/**
+ * 根据内容指纹把路径失效的记录重新关联到新位置的文件
+ */
+export class MediaRelinker {
+  private app: App;
+  private manager: ImageDataManager;
+
+  constructor(app: App, manager: ImageDataManager) {
+    this.app = app;
+    this.manager = manager;
+  }
+
+  /**
+   * 为文件仍然存在但还没有指纹的记录补充指纹
+   * @returns 补充的记录数
+   */
+  async backfill(): Promise<number> {
+    let count = 0;
+    for (const media of this.manager.getAllImageData()) {
+      if (media.fingerprint) continue;
+      const file = this.app.vault.getAbstractFileByPath(media.path);
+      if (!(file instanceof TFile)) continue;
+
+      const fingerprint = await MediaFingerprint.compute(this.app, file);
+      if (fingerprint) {
+        this.manager.addImageData({ ...media, fingerprint });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 在候选文件中为失效记录寻找同指纹的文件
+   * 指纹唯一对应的记录会被自动重新关联，其余的作为待确认候选返回
+   * @param files - 支持的媒体文件（通常是扫描范围内的全部文件）
+   * @param skipIds - 不参与本次关联的失效记录
+   */
+  async relinkOrphans(files: TFile[], skipIds?: ReadonlySet<string>): Promise<RelinkResult> {
+    const result: RelinkResult = { relinked: [], ambiguous: [] };
+
+    const orphans = this.manager.getAllImageData().filter(media =>
+      media.fingerprint && !skipIds?.has(media.id) && !(this.app.vault.getAbstractFileByPath(media.path) instanceof TFile)
+    );
+    if (orphans.length === 0) return result;
+
+    // 只为大小与某条失效记录一致且尚未被记录的文件计算指纹
+    const orphanSizes = new Set(orphans.map(media => MediaFingerprint.sizeOf(media.fingerprint!)));
+    const untracked = files.filter(file =>
+      orphanSizes.has(file.stat.size) && !this.manager.getImageDataByPath(file.path)
+    );
+
+    const filesByFingerprint = new Map<string, TFile[]>();
+    for (const file of untracked) {
+      const fingerprint = await MediaFingerprint.compute(this.app, file);
+      if (!fingerprint) continue;
+      const group = filesByFingerprint.get(fingerprint) || [];
+      group.push(file);
+      filesByFingerprint.set(fingerprint, group);
+    }
+
+    const orphansByFingerprint = new Map<string, MediaData[]>();
+    for (const media of orphans) {
+      const group = orphansByFingerprint.get(media.fingerprint!) || [];
+      group.push(media);
+      orphansByFingerprint.set(media.fingerprint!, group);
+    }
+
+    for (const [fingerprint, group] of orphansByFingerprint) {
+      const candidates = filesByFingerprint.get(fingerprint);
+      if (!candidates) continue;
+
+      if (group.length === 1 && candidates.length === 1) {
+        result.relinked.push(this.relink(group[0], candidates[0]));
+      } else {
+        result.ambiguous.push({ fingerprint, orphans: group, files: candidates });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 将记录关联到新的文件位置，保留标签、标题和描述
+   * @returns 更新后的记录
+   */
+  relink(media: MediaData, file: TFile): MediaData {
+    // 使用新对象更新，使数据管理器能移除旧路径的映射
+    const updated: MediaData = {
+      ...media,
+      path: file.path,
+      originalName: file.name,
+      lastModified: file.stat.mtime
+    };
+    this.manager.addImageData(updated);
+    Logger.info(`已根据内容指纹重新关联: ${media.path} -> ${file.path}`);
+    return updated;
+  }
+}
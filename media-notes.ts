@@ -0,0 +1,220 @@
+/**
+ * 媒体笔记同步
+ * 为每条媒体记录维护一篇带属性（frontmatter）的 Markdown 笔记，使标签能被 Obsidian 的标签面板、搜索和关系图识别
+ * 记录与笔记双向同步：编辑笔记属性会更新记录，保存记录会重写笔记属性
+ */
+import { App, TFile, TFolder, CachedMetadata, normalizePath } from 'obsidian';
+import { MediaData, MediaChanges } from './image-data-model';
+import { ImageTaggingPlugin } from './utils';
+import { Logger } from './logger';
+import { MediaRating } from './media-rating';
+import { MEDIA_NOTE_ID_KEY } from './constants';
+
+export class MediaNoteSync {
+  private app: App;
+  private plugin: ImageTaggingPlugin;
+  private noteOf: Map<string, string> = new Map(); // 记录ID -> 笔记路径
+
+  constructor(app: App, plugin: ImageTaggingPlugin) {
+    this.app = app;
+    this.plugin = plugin;
+  }
+
+  isEnabled(): boolean {
+    return this.plugin.settings.enableMediaNotes;
+  }
+
+  private getFolder(): string {
+    return normalizePath(this.plugin.settings.mediaNotesFolder || 'Media Notes');
+  }
+
+  /**
+   * 笔记路径按媒体文件路径镜像到笔记文件夹中，例如 Media Notes/Attachments/photo.jpg.md
+   */
+  getNotePath(media: MediaData): string {
+    return normalizePath(`${this.getFolder()}/${media.path}.md`);
+  }
+
+  isMediaNote(file: TFile): boolean {
+    return file.extension === 'md' && file.path.startsWith(`${this.getFolder()}/`);
+  }
+
+  /**
+   * 为所有记录生成或更新媒体笔记
+   * @returns 写入的笔记数量
+   */
+  async syncAll(): Promise<number> {
+    this.rebuildNoteIndex();
+    let count = 0;
+    for (const media of this.plugin.imageDataManager.getAllImageData()) {
+      if (await this.writeNote(media)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * 将记录的变更写入对应的笔记
+   */
+  async syncRecords(changes: MediaChanges) {
+    if (this.noteOf.size === 0) this.rebuildNoteIndex();
+
+    for (const media of changes.upserted) {
+      await this.writeNote(media);
+    }
+
+    for (const media of changes.removed) {
+      const notePath = this.noteOf.get(media.id) ?? this.getNotePath(media);
+      const file = this.app.vault.getAbstractFileByPath(notePath);
+      if (file instanceof TFile) {
+        // 按用户的回收站设置删除，笔记中的自定义内容仍可找回
+        await this.app.fileManager.trashFile(file);
+      }
+      this.noteOf.delete(media.id);
+    }
+  }
+
+  /**
+   * 创建或更新单条记录的笔记，只改写属性，保留用户写在正文中的内容
+   * @returns 是否实际写入了笔记
+   */
+  private async writeNote(media: MediaData): Promise<boolean> {
+    try {
+      const notePath = this.getNotePath(media);
+      let file = this.app.vault.getAbstractFileByPath(notePath);
+
+      // 媒体文件被重命名或移动后，把旧笔记移动到新位置
+      const previousPath = this.noteOf.get(media.id);
+      if (!(file instanceof TFile) && previousPath && previousPath !== notePath) {
+        const previous = this.app.vault.getAbstractFileByPath(previousPath);
+        if (previous instanceof TFile) {
+          await this.ensureFolder(notePath);
+          await this.app.fileManager.renameFile(previous, notePath);
+          file = previous;
+        }
+      }
+
+      if (!(file instanceof TFile)) {
+        await this.ensureFolder(notePath);
+        file = await this.app.vault.create(notePath, `![[${media.path}]]\n`);
+      } else if (this.isUpToDate(media, this.app.metadataCache.getFileCache(file))) {
+        this.noteOf.set(media.id, file.path);
+        return false;
+      }
+
+      await this.app.fileManager.processFrontMatter(file as TFile, (frontmatter) => {
+        frontmatter[MEDIA_NOTE_ID_KEY] = media.id;
+        frontmatter.title = media.title;
+        frontmatter.tags = [...media.tags];
+        frontmatter.description = media.description;
+        frontmatter.rating = MediaRating.getRating(media);
+        frontmatter.favorite = media.favorite === true;
+        frontmatter.source = `[[${media.path}]]`;
+      });
+
+      this.noteOf.set(media.id, file.path);
+      return true;
+    } catch (error) {
+      Logger.error(`写入媒体笔记失败: ${media.path}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 笔记属性被编辑后同步回记录
+   */
+  async handleNoteChanged(file: TFile, cache: CachedMetadata) {
+    if (!this.isMediaNote(file)) return;
+
+    const frontmatter = cache.frontmatter;
+    if (!frontmatter || typeof frontmatter[MEDIA_NOTE_ID_KEY] !== 'string') return;
+
+    const manager = this.plugin.imageDataManager;
+    const media = manager.getImageData(frontmatter[MEDIA_NOTE_ID_KEY]);
+    if (!media) {
+      Logger.debug(`媒体笔记没有对应的记录: ${file.path}`);
+      return;
+    }
+    this.noteOf.set(media.id, file.path);
+
+    const title = typeof frontmatter.title === 'string' ? frontmatter.title : media.title;
+    const description = typeof frontmatter.description === 'string' ? frontmatter.description : media.description;
+    const tags = MediaNoteSync.normalizeTags(frontmatter.tags);
+    const rating = typeof frontmatter.rating === 'number' ? frontmatter.rating : MediaRating.getRating(media);
+    const favorite = typeof frontmatter.favorite === 'boolean' ? frontmatter.favorite : media.favorite === true;
+
+    if (title === media.title && description === media.description && MediaNoteSync.sameTags(tags, media.tags) &&
+        rating === MediaRating.getRating(media) && favorite === (media.favorite === true)) {
+      return; // 没有变化（包括插件自己写入笔记触发的事件）
+    }
+
+    media.title = title;
+    media.description = description;
+    media.tags = tags;
+    MediaRating.setRating(media, rating);
+    MediaRating.setFavorite(media, favorite);
+    media.date = new Date().toISOString();
+    manager.addImageData(media);
+    await this.plugin.saveDataToFile();
+
+    Logger.debug(`已从媒体笔记同步记录: ${file.path}`);
+  }
+
+  // 从笔记文件夹中的属性重建 记录ID -> 笔记路径 的索引
+  private rebuildNoteIndex() {
+    this.noteOf.clear();
+    const folder = this.app.vault.getAbstractFileByPath(this.getFolder());
+    if (!(folder instanceof TFolder)) return;
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (!this.isMediaNote(file)) continue;
+      const id = this.app.metadataCache.getFileCache(file)?.frontmatter?.[MEDIA_NOTE_ID_KEY];
+      if (typeof id === 'string') this.noteOf.set(id, file.path);
+    }
+  }
+
+  private isUpToDate(media: MediaData, cache: CachedMetadata | null): boolean {
+    const frontmatter = cache?.frontmatter;
+    if (!frontmatter) return false;
+    return frontmatter[MEDIA_NOTE_ID_KEY] === media.id &&
+      frontmatter.title === media.title &&
+      (frontmatter.description ?? '') === media.description &&
+      frontmatter.rating === MediaRating.getRating(media) &&
+      frontmatter.favorite === (media.favorite === true) &&
+      frontmatter.source === `[[${media.path}]]` &&
+      MediaNoteSync.sameTags(MediaNoteSync.normalizeTags(frontmatter.tags), media.tags);
+  }
+
+  // 逐级创建笔记所在的文件夹
+  private async ensureFolder(notePath: string) {
+    const dirPath = notePath.substring(0, notePath.lastIndexOf('/'));
+    let currentPath = '';
+    for (const part of dirPath.split('/')) {
+      if (!part) continue;
+      currentPath += (currentPath ? '/' : '') + part;
+      if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+        await this.app.vault.createFolder(currentPath);
+      }
+    }
+  }
+
+  // 属性中的标签可能是数组或逗号/空格分隔的字符串，并可能带有 # 前缀
+  static normalizeTags(value: unknown): string[] {
+    let raw: string[] = [];
+    if (Array.isArray(value)) {
+      raw = value.filter(tag => tag !== null && tag !== undefined).map(tag => String(tag));
+    } else if (typeof value === 'string') {
+      raw = value.split(/[,\s]+/);
+    }
+
+    const tags: string[] = [];
+    for (const tag of raw) {
+      const cleaned = tag.trim().replace(/^#/, '');
+      if (cleaned && !tags.includes(cleaned)) tags.push(cleaned);
+    }
+    return tags;
+  }
+
+  private static sameTags(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every(tag => b.includes(tag));
+  }
+}
@@ -0,0 +1,458 @@
+/**
+ * 媒体查询语言
+ * 语法示例：`tag:travel -tag:draft`、`tag:a OR tag:b`、`type:video`、`format:png`、`path:Attachments/`、
+ * `width>1920`、`size<2MB`、`added:2025-01..2025-06`、`rating>=4`、`"带空格的短语"` 以及括号分组
+ * 相邻条件同时满足（空格或逗号分隔），OR 的优先级低于相邻条件，`-` 或 NOT 表示排除
+ */
+import { MediaData } from './image-data-model';
+import { MediaRating } from './media-rating';
+import { MediaSort } from './media-sort';
+import { TagHierarchy } from './tag-hierarchy';
+
+// 可查询的字段
+export type QueryField = 'tag' | 'type' | 'format' | 'path' | 'title' | 'description' |
+  'width' | 'height' | 'size' | 'added' | 'rating' | 'favorite';
+
+// 比较运算符，`:` 对文本表示包含、对数字和日期表示等于或范围
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+// 单个条件；field 为 null 时由搜索引擎在标题、标签、文件名和描述中查找（支持拼音和拼写容错）
+export interface QueryTerm {
+  field: QueryField | null;
+  operator: QueryOperator;
+  value: string;           // 文本条件的值（已转为小写）
+  min?: number | string;   // 数字或日期条件的下限
+  max?: number | string;   // 数字或日期条件的上限
+  minExclusive?: boolean;  // 下限不含等于（> 条件）
+  maxExclusive?: boolean;  // 上限不含等于（< 条件）
+  start: number;           // 条件在查询文本中的位置
+  end: number;
+}
+
+export type QueryNode =
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'term'; term: QueryTerm };
+
+// 语法错误，start/end 为出错文本的位置，用于高亮
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+// 解析结果：出错的部分被忽略，其余条件照常生效；root 为 null 表示不限制
+export interface ParsedQuery {
+  source: string;
+  root: QueryNode | null;
+  errors: QueryError[];
+}
+
+// 求值时使用的标签和文字匹配规则（由数据管理器提供，以便处理别名）
+export interface QueryContext {
+  resolveTag(tag: string): string;
+  getSearchScore(record: MediaData, text: string): number; // 文字条件的相关度，0 表示不匹配
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; start: number; end: number }
+  | { kind: 'term'; field: string | null; operator: QueryOperator; value: string; start: number; end: number };
+
+// 字段名称及别名
+const FIELD_NAMES: Record<string, QueryField> = {
+  'tag': 'tag',
+  'type': 'type',
+  'format': 'format',
+  'ext': 'format',
+  'path': 'path',
+  'title': 'title',
+  'desc': 'description',
+  'description': 'description',
+  'width': 'width',
+  'height': 'height',
+  'size': 'size',
+  'added': 'added',
+  'date': 'added',
+  'rating': 'rating',
+  'fav': 'favorite',
+  'favorite': 'favorite'
+};
+
+const TEXT_FIELDS: QueryField[] = ['tag', 'type', 'format', 'path', 'title', 'description', 'favorite'];
+
+const TYPE_VALUES: Record<string, MediaData['type']> = {
+  'image': 'image', '图片': 'image',
+  'video': 'video', '视频': 'video',
+  'audio': 'audio', '音频': 'audio'
+};
+
+const FIELD_PATTERN = /^([A-Za-z]+)(>=|<=|:|=|>|<)/;
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+export class MediaQuery {
+  /**
+   * 解析查询文本，收集所有语法错误
+   */
+  static parse(source: string): ParsedQuery {
+    const errors: QueryError[] = [];
+    const tokens = MediaQuery.tokenize(source, errors);
+    let position = 0;
+
+    const peek = () => tokens[position];
+
+    // or := and ('OR' and)*
+    const parseOr = (): QueryNode | null => {
+      const children: QueryNode[] = [];
+      let node = parseAnd();
+      if (node) {
+        children.push(node);
+      } else if (peek()?.kind === 'or') {
+        errors.push({ message: 'OR 前缺少条件', start: peek().start, end: peek().end });
+      }
+      while (peek()?.kind === 'or') {
+        const orToken = tokens[position++];
+        node = parseAnd();
+        if (node) {
+          children.push(node);
+        } else {
+          errors.push({ message: 'OR 后缺少条件', start: orToken.start, end: orToken.end });
+        }
+      }
+      if (children.length <= 1) return children[0] || null;
+      return { kind: 'or', children };
+    };
+
+    // and := unary*（遇到 OR、右括号或结尾时结束）
+    const parseAnd = (): QueryNode | null => {
+      const children: QueryNode[] = [];
+      while (position < tokens.length && peek().kind !== 'or' && peek().kind !== 'rparen') {
+        const node = parseUnary();
+        if (node) children.push(node);
+      }
+      if (children.length <= 1) return children[0] || null;
+      return { kind: 'and', children };
+    };
+
+    // unary := ('-' | 'NOT') unary | '(' or ')' | term
+    const parseUnary = (): QueryNode | null => {
+      const token = tokens[position++];
+      if (token.kind === 'not') {
+        if (position >= tokens.length || peek().kind === 'or' || peek().kind === 'rparen') {
+          errors.push({ message: '排除符号后缺少条件', start: token.start, end: token.end });
+          return null;
+        }
+        const child = parseUnary();
+        return child ? { kind: 'not', child } : null;
+      }
+      if (token.kind === 'lparen') {
+        const node = parseOr();
+        if (peek()?.kind === 'rparen') {
+          position++;
+        } else {
+          errors.push({ message: '缺少右括号', start: token.start, end: token.end });
+        }
+        return node;
+      }
+      if (token.kind === 'term') {
+        return MediaQuery.createTerm(token, errors);
+      }
+      return null;
+    };
+
+    const nodes: QueryNode[] = [];
+    while (position < tokens.length) {
+      const node = parseOr();
+      if (node) nodes.push(node);
+      // 多余的右括号
+      const token = peek();
+      if (token && token.kind === 'rparen') {
+        errors.push({ message: '多余的右括号', start: token.start, end: token.end });
+        position++;
+      }
+    }
+
+    const root = nodes.length <= 1 ? nodes[0] || null : { kind: 'and' as const, children: nodes };
+    return { source, root, errors };
+  }
+
+  /**
+   * 记录是否满足查询
+   */
+  static matches(record: MediaData, query: ParsedQuery, context: QueryContext): boolean {
+    return !query.root || MediaQuery.evaluate(record, query.root, context);
+  }
+
+  /**
+   * 记录与查询中文字条件的相关度，用于按相关度排序：同时满足的条件得分相加，OR 取最高分，排除条件不计分
+   */
+  static score(record: MediaData, query: ParsedQuery, context: QueryContext): number {
+    return MediaQuery.match(record, query, context) ?? 0;
+  }
+
+  /**
+   * 记录满足查询时返回相关度（规则与 score 相同），不满足时返回 null；匹配和计分只遍历一次查询
+   */
+  static match(record: MediaData, query: ParsedQuery, context: QueryContext): number | null {
+    return query.root ? MediaQuery.matchNode(record, query.root, context) : 0;
+  }
+
+  /**
+   * 查询是否包含需要按相关度排序的文字条件（不含排除条件中的文字）
+   */
+  static hasTextTerms(query: ParsedQuery): boolean {
+    const visit = (node: QueryNode): boolean => {
+      switch (node.kind) {
+        case 'and':
+        case 'or':
+          return node.children.some(visit);
+        case 'not':
+          return false;
+        case 'term':
+          return node.term.field === null;
+      }
+    };
+    return query.root ? visit(query.root) : false;
+  }
+
+  /**
+   * 查询中必须满足的标签条件（顶层、未排除的 tag: 条件），用于在侧边栏中标记选中的标签
+   */
+  static getRequiredTags(query: ParsedQuery): string[] {
+    const root = query.root;
+    const nodes = !root ? [] : root.kind === 'and' ? root.children : [root];
+    return nodes
+      .filter((node): node is { kind: 'term'; term: QueryTerm } => node.kind === 'term' && node.term.field === 'tag')
+      .map(node => node.term.value);
+  }
+
+  /**
+   * 生成按标签筛选的查询文本，包含空格、括号或引号的标签加引号
+   */
+  static formatTags(tags: string[]): string {
+    return tags.map(tag => `tag:${MediaQuery.quote(tag)}`).join(' ');
+  }
+
+  static quote(value: string): string {
+    return /[\s(),"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+  }
+
+  private static evaluate(record: MediaData, node: QueryNode, context: QueryContext): boolean {
+    switch (node.kind) {
+      case 'and':
+        return node.children.every(child => MediaQuery.evaluate(record, child, context));
+      case 'or':
+        return node.children.some(child => MediaQuery.evaluate(record, child, context));
+      case 'not':
+        return !MediaQuery.evaluate(record, node.child, context);
+      case 'term':
+        return MediaQuery.matchesTerm(record, node.term, context);
+    }
+  }
+
+  // 满足条件时返回文字条件的相关度，不满足时返回 null
+  private static matchNode(record: MediaData, node: QueryNode, context: QueryContext): number | null {
+    switch (node.kind) {
+      case 'and': {
+        let sum = 0;
+        for (const child of node.children) {
+          const score = MediaQuery.matchNode(record, child, context);
+          if (score === null) return null;
+          sum += score;
+        }
+        return sum;
+      }
+      case 'or': {
+        let best: number | null = null;
+        for (const child of node.children) {
+          const score = MediaQuery.matchNode(record, child, context);
+          if (score !== null && (best === null || score > best)) best = score;
+        }
+        return best;
+      }
+      case 'not':
+        return MediaQuery.evaluate(record, node.child, context) ? null : 0;
+      case 'term': {
+        if (node.term.field !== null) return MediaQuery.matchesTerm(record, node.term, context) ? 0 : null;
+        const score = context.getSearchScore(record, node.term.value);
+        return score > 0 ? score : null;
+      }
+    }
+  }
+
+  private static matchesTerm(record: MediaData, term: QueryTerm, context: QueryContext): boolean {
+    const { value } = term;
+    switch (term.field) {
+      case null:
+        return context.getSearchScore(record, value) > 0;
+      case 'tag': {
+        // 标签条件包含子标签，别名按标准标签匹配
+        const tag = context.resolveTag(value).toLowerCase();
+        return record.tags.some(item => TagHierarchy.isWithin(item.toLowerCase(), tag));
+      }
+      case 'type':
+        return record.type === TYPE_VALUES[value];
+      case 'format':
+        return record.format.toLowerCase() === value;
+      case 'path':
+        return record.path.toLowerCase().includes(value);
+      case 'title':
+        return record.title.toLowerCase().includes(value);
+      case 'description':
+        return record.description.toLowerCase().includes(value);
+      case 'favorite':
+        return (record.favorite === true) === MediaQuery.parseBoolean(value);
+      case 'width':
+        return MediaQuery.inRange(MediaSort.getDimensions(record)?.width, term);
+      case 'height':
+        return MediaQuery.inRange(MediaSort.getDimensions(record)?.height, term);
+      case 'size':
+        return MediaQuery.inRange(MediaSort.getFileSize(record), term);
+      case 'rating':
+        return MediaQuery.inRange(MediaRating.getRating(record), term);
+      case 'added':
+        return MediaQuery.inDateRange(MediaSort.getAddedAt(record).substring(0, 10), term);
+    }
+  }
+
+  private static inRange(actual: number | undefined, term: QueryTerm): boolean {
+    if (actual === undefined) return false;
+    const min = term.min as number | undefined;
+    const max = term.max as number | undefined;
+    if (min !== undefined && (term.minExclusive ? actual <= min : actual < min)) return false;
+    if (max !== undefined && (term.maxExclusive ? actual >= max : actual > max)) return false;
+    return true;
+  }
+
+  // 日期按时间段比较：2025-06 表示六月的所有日期，>2025-06 表示七月及以后
+  private static inDateRange(date: string, term: QueryTerm): boolean {
+    if (!date) return false;
+    const min = term.min as string | undefined;
+    const max = term.max as string | undefined;
+    if (min !== undefined && (term.minExclusive ? date.substring(0, min.length) <= min : date < min)) return false;
+    if (max !== undefined && (term.maxExclusive ? date >= max : date.substring(0, max.length) > max)) return false;
+    return true;
+  }
+
+  private static parseBoolean(value: string): boolean {
+    return ['true', 'yes', '1', '是'].includes(value);
+  }
+
+  // 将词法单元转换为条件，值不合法时记录错误并忽略该条件
+  private static createTerm(token: Extract<Token, { kind: 'term' }>, errors: QueryError[]): QueryNode | null {
+    const fail = (message: string) => {
+      errors.push({ message, start: token.start, end: token.end });
+      return null;
+    };
+    const term: QueryTerm = { field: null, operator: token.operator, value: token.value.toLowerCase(), start: token.start, end: token.end };
+
+    if (token.field === null) {
+      return term.value ? { kind: 'term', term } : null;
+    }
+
+    const field = FIELD_NAMES[token.field.toLowerCase()];
+    if (!field) return fail(`未知的字段“${token.field}”`);
+    term.field = field;
+    if (!token.value) return fail(`“${token.field}”缺少值`);
+
+    if (TEXT_FIELDS.includes(field)) {
+      if (token.operator !== ':' && token.operator !== '=') return fail(`“${token.field}”只支持 : 条件`);
+      if (field === 'type' && !TYPE_VALUES[term.value]) return fail('媒体类型应为 image、video 或 audio');
+      if (field === 'format') term.value = term.value.replace(/^\./, '');
+      if (field === 'tag') term.value = TagHierarchy.normalize(token.value);
+      return { kind: 'term', term };
+    }
+
+    // 数字和日期：`:` 或 `=` 后可以是单个值或 a..b 范围（任一端可省略）
+    const parse = field === 'added'
+      ? (value: string) => DATE_PATTERN.test(value) ? value : null
+      : field === 'size'
+        ? (value: string) => MediaSort.parseSize(value)
+        : (value: string) => /^\d+(\.\d+)?$/.test(value) ? parseFloat(value) : null;
+    const invalid = field === 'added' ? '日期格式应为 YYYY、YYYY-MM 或 YYYY-MM-DD' :
+      field === 'size' ? '大小格式应为数字加单位，例如 500KB、2MB' : `“${token.field}”的值应为数字`;
+
+    const operator = token.operator;
+    if (operator === ':' || operator === '=') {
+      const range = token.value.split('..');
+      if (range.length > 2) return fail(invalid);
+      const min = range[0] ? parse(range[0]) : undefined;
+      const max = range.length === 2 ? (range[1] ? parse(range[1]) : undefined) : min;
+      if (min === null || max === null || (min === undefined && max === undefined)) return fail(invalid);
+      term.min = min;
+      term.max = max;
+      return { kind: 'term', term };
+    }
+
+    const bound = parse(token.value);
+    if (bound === null) return fail(invalid);
+    if (operator === '>' || operator === '>=') {
+      term.min = bound;
+      term.minExclusive = operator === '>';
+    } else {
+      term.max = bound;
+      term.maxExclusive = operator === '<';
+    }
+    return { kind: 'term', term };
+  }
+
+  private static tokenize(source: string, errors: QueryError[]): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    const isDelimiter = (char: string) => /[\s(),]/.test(char);
+
+    // 读取值：引号中的短语或到分隔符为止的文字
+    const readValue = (): string => {
+      if (source[position] === '"') {
+        const start = position;
+        const end = source.indexOf('"', position + 1);
+        if (end === -1) {
+          errors.push({ message: '缺少右引号', start, end: source.length });
+          position = source.length;
+          return source.substring(start + 1);
+        }
+        position = end + 1;
+        return source.substring(start + 1, end);
+      }
+      const start = position;
+      while (position < source.length && !isDelimiter(source[position]) && source[position] !== '"') {
+        position++;
+      }
+      return source.substring(start, position);
+    };
+
+    while (position < source.length) {
+      const char = source[position];
+      const start = position;
+
+      if (/[\s,]/.test(char)) {
+        position++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start, end: ++position });
+      } else if (char === '|') {
+        tokens.push({ kind: 'or', start, end: ++position });
+      } else if (char === '-' && position + 1 < source.length && !/[\s,)]/.test(source[position + 1])) {
+        tokens.push({ kind: 'not', start, end: ++position });
+      } else {
+        const fieldMatch = FIELD_PATTERN.exec(source.substring(position));
+        if (fieldMatch) {
+          position += fieldMatch[0].length;
+          const value = readValue();
+          tokens.push({ kind: 'term', field: fieldMatch[1], operator: fieldMatch[2] as QueryOperator, value, start, end: position });
+          continue;
+        }
+
+        const quoted = char === '"';
+        const value = readValue();
+        if (!quoted && (value === 'OR' || value === 'NOT')) {
+          tokens.push({ kind: value === 'OR' ? 'or' : 'not', start, end: position });
+        } else {
+          tokens.push({ kind: 'term', field: null, operator: ':', value, start, end: position });
+        }
+      }
+    }
+
+    return tokens;
+  }
+}
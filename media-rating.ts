@@ -0,0 +1,68 @@
+/**
+ * 星级评分和收藏
+ * 图库卡片、评分筛选和媒体信息面板共用的控件
+ */
+import { setIcon } from 'obsidian';
+import { MediaData } from './image-data-model';
+import { MAX_RATING } from './constants';
+
+export class MediaRating {
+  /**
+   * 记录的评分（0 表示未评分）
+   */
+  static getRating(record: MediaData): number {
+    const rating = record.rating ?? 0;
+    return Math.max(0, Math.min(MAX_RATING, Math.round(rating)));
+  }
+
+  static setRating(record: MediaData, rating: number) {
+    const value = Math.max(0, Math.min(MAX_RATING, Math.round(rating)));
+    if (value > 0) {
+      record.rating = value;
+    } else {
+      delete record.rating;
+    }
+  }
+
+  static setFavorite(record: MediaData, favorite: boolean) {
+    if (favorite) {
+      record.favorite = true;
+    } else {
+      delete record.favorite;
+    }
+  }
+
+  /**
+   * 渲染可点击的星级，再次点击当前星级时清除评分
+   */
+  static renderStars(container: HTMLElement, rating: number, onChange: (rating: number) => void): HTMLElement {
+    const stars = container.createDiv({ cls: 'media-rating' });
+    for (let i = 1; i <= MAX_RATING; i++) {
+      const star = stars.createSpan({ cls: 'media-rating-star', text: '★', attr: { 'aria-label': `${i} 星` } });
+      star.toggleClass('is-filled', i <= rating);
+      star.addEventListener('click', (e) => {
+        // 不触发卡片的选择或打开详情
+        e.stopPropagation();
+        onChange(i === rating ? 0 : i);
+      });
+    }
+    return stars;
+  }
+
+  /**
+   * 渲染收藏开关
+   */
+  static renderFavorite(container: HTMLElement, favorite: boolean, onToggle: (favorite: boolean) => void): HTMLElement {
+    const toggle = container.createSpan({
+      cls: 'media-favorite-toggle',
+      attr: { 'aria-label': favorite ? '取消收藏' : '收藏' }
+    });
+    setIcon(toggle, 'heart');
+    toggle.toggleClass('is-favorite', favorite);
+    toggle.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onToggle(!favorite);
+    });
+    return toggle;
+  }
+}
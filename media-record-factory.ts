@@ -0,0 +1,110 @@
+/**
+ * 媒体记录工厂
+ * 所有新记录都通过这里创建：生成稳定的ID、读取分辨率/时长、计算内容指纹并应用导入规则
+ */
+import { App, TFile } from 'obsidian';
+import { MediaData, ImageTaggingSettings, getMediaType } from './image-data-model';
+import { getImageResolutionWithCache, getMediaDurationWithCache } from './utils';
+import { MediaFingerprint } from './media-fingerprint';
+import { Logger } from './logger';
+
+// 记录ID格式：media_ 前缀 + UUID，与文件路径和创建时间无关
+const MEDIA_ID_PATTERN = /^media_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export class MediaRecordFactory {
+  private app: App;
+  private getSettings: () => ImageTaggingSettings;
+
+  constructor(app: App, getSettings: () => ImageTaggingSettings) {
+    this.app = app;
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * 为媒体文件创建新记录
+   */
+  async create(file: TFile): Promise<MediaData> {
+    const stat = file.stat;
+    const mediaType = getMediaType(file) || 'image';
+
+    const now = new Date().toISOString();
+    const record: MediaData = {
+      id: MediaRecordFactory.generateId(),
+      path: file.path,
+      title: file.basename,
+      tags: this.getImportTags(),
+      date: now,
+      addedAt: now,
+      size: MediaRecordFactory.formatFileSize(stat.size),
+      resolution: '未知',
+      format: file.extension.toUpperCase(),
+      description: '',
+      originalName: file.name,
+      lastModified: stat.mtime,
+      width: 0,
+      height: 0,
+      fileSize: stat.size,
+      type: mediaType
+    };
+
+    await this.probeMedia(file, record);
+
+    const fingerprint = await MediaFingerprint.compute(this.app, file);
+    if (fingerprint) record.fingerprint = fingerprint;
+
+    return record;
+  }
+
+  // 读取图片分辨率或音视频时长
+  private async probeMedia(file: TFile, record: MediaData) {
+    try {
+      if (record.type === 'image') {
+        const dimensions = await getImageResolutionWithCache(file, this.app);
+        if (dimensions) {
+          record.width = dimensions.width;
+          record.height = dimensions.height;
+          record.resolution = dimensions.resolution;
+        }
+      } else {
+        const duration = await getMediaDurationWithCache(file, this.app);
+        record.resolution = duration ? `${duration}` : (record.type === 'video' ? '视频文件' : '音频文件');
+      }
+    } catch (e) {
+      Logger.warn(`无法获取媒体信息: ${file.path}`, e);
+    }
+  }
+
+  // 导入规则：启用自动标签且填写了标签值时，为新记录添加这些标签
+  private getImportTags(): string[] {
+    const settings = this.getSettings();
+    if (!settings.autoTagOnImport || !settings.autoTagOnImportValue) {
+      return [];
+    }
+    return settings.autoTagOnImportValue
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0);
+  }
+
+  /**
+   * 生成新的记录ID
+   */
+  static generateId(): string {
+    return `media_${crypto.randomUUID()}`;
+  }
+
+  /**
+   * ID 是否符合当前的格式
+   */
+  static isStableId(id: unknown): boolean {
+    return typeof id === 'string' && MEDIA_ID_PATTERN.test(id);
+  }
+
+  static formatFileSize(bytes: number): string {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * 媒体搜索引擎
+ * 在标题、标签、文件名和描述中查找关键词，并按相关度打分：
+ * 完全匹配 > 前缀 > 包含 > 拼音（全拼或首字母）> 中文双字重合 > 拼写容错
+ */
+import { MediaData } from './image-data-model';
+import { Pinyin } from './pinyin';
+import { TagHierarchy } from './tag-hierarchy';
+
+// 各字段的权重
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2.5,
+  filename: 2,
+  description: 1
+};
+
+// 各种匹配方式的得分（乘以字段权重）
+const MATCH_SCORES = {
+  exact: 1,
+  prefix: 0.9,
+  contains: 0.8,
+  pinyin: 0.7,
+  initials: 0.6,
+  ngram: 0.6,   // 乘以双字重合度
+  fuzzy: 0.5    // 每差一个字符减少 0.1
+};
+
+// 中文双字重合度的下限
+const MIN_NGRAM_SIMILARITY = 0.5;
+
+export class MediaSearch {
+  /**
+   * 按关键词搜索并按相关度从高到低排序；多个关键词（空格分隔）需全部匹配，得分相加
+   * @param score - 单个关键词的计分方法，默认为 MediaSearch.score
+   */
+  static search(records: MediaData[], query: string, score: (record: MediaData, term: string) => number = MediaSearch.score): { record: MediaData; score: number }[] {
+    const terms = MediaSearch.splitTerms(query);
+    if (terms.length === 0) return records.map(record => ({ record, score: 0 }));
+    MediaSearch.prepare(records.length);
+
+    const results: { record: MediaData; score: number }[] = [];
+    for (const record of records) {
+      let total = 0;
+      for (const term of terms) {
+        const termScore = score(record, term);
+        if (termScore === 0) {
+          total = 0;
+          break;
+        }
+        total += termScore;
+      }
+      if (total > 0) results.push({ record, score: total });
+    }
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * 遍历整个库计分前调用：按记录数预留拼音缓存
+   */
+  static prepare(recordCount: number) {
+    Pinyin.reserveCache(recordCount);
+  }
+
+  static splitTerms(query: string): string[] {
+    return query.toLowerCase().split(/[\s,]+/).filter(term => term.length > 0);
+  }
+
+  /**
+   * 记录与单个关键词的相关度，0 表示不匹配
+   * @param aliasTags - 关键词作为别名对应的标准标签，带有这些标签（含子标签）的记录按包含匹配计分
+   */
+  static score(record: MediaData, term: string, aliasTags: string[] = []): number {
+    const keyword = term.trim().toLowerCase();
+    if (!keyword) return 0;
+
+    const filename = record.originalName || record.path.substring(record.path.lastIndexOf('/') + 1);
+    let best = MediaSearch.scoreText(record.title, keyword) * FIELD_WEIGHTS.title;
+    best = Math.max(best, MediaSearch.scoreText(filename.replace(/\.[^.]+$/, ''), keyword) * FIELD_WEIGHTS.filename);
+    for (const tag of record.tags) {
+      const tagScore = aliasTags.some(canonical => TagHierarchy.isWithin(tag, canonical))
+        ? MATCH_SCORES.contains
+        : MediaSearch.scoreText(tag, keyword);
+      best = Math.max(best, tagScore * FIELD_WEIGHTS.tags);
+    }
+    best = Math.max(best, MediaSearch.scoreText(record.description, keyword) * FIELD_WEIGHTS.description);
+    return best;
+  }
+
+  /**
+   * 单个字段与关键词（小写）的匹配得分，0 到 1
+   */
+  static scoreText(text: string, keyword: string): number {
+    if (!text) return 0;
+    const value = text.toLowerCase();
+
+    if (value === keyword) return MATCH_SCORES.exact;
+    if (value.startsWith(keyword)) return MATCH_SCORES.prefix;
+    if (value.includes(keyword)) return MATCH_SCORES.contains;
+
+    const keywordHasCJK = Pinyin.hasCJK(keyword);
+    if (!keywordHasCJK && Pinyin.hasCJK(value) && /^[a-z]+$/.test(keyword)) {
+      const pinyin = Pinyin.convert(value);
+      if (pinyin.full.includes(keyword)) return MATCH_SCORES.pinyin;
+      // 首字母至少两个字母，避免单个字母匹配过多
+      if (keyword.length >= 2 && pinyin.initials.includes(keyword)) return MATCH_SCORES.initials;
+    }
+
+    if (keywordHasCJK && keyword.length >= 2) {
+      const similarity = MediaSearch.ngramSimilarity(value, keyword);
+      if (similarity >= MIN_NGRAM_SIMILARITY) return MATCH_SCORES.ngram * similarity;
+    }
+
+    if (!keywordHasCJK && keyword.length >= 3) {
+      const distance = MediaSearch.fuzzyDistance(value, keyword);
+      if (distance > 0) return MATCH_SCORES.fuzzy - 0.1 * (distance - 1);
+    }
+
+    return 0;
+  }
+
+  /**
+   * 将中文文本切分为相邻双字（单字文本为其自身），其余字符按连续的字母数字作为一个词
+   */
+  static segment(text: string): string[] {
+    const segments: string[] = [];
+    for (const run of text.toLowerCase().match(/[一-龥]+|[a-z0-9]+/g) || []) {
+      if (!Pinyin.hasCJK(run) || run.length === 1) {
+        segments.push(run);
+        continue;
+      }
+      for (let i = 0; i < run.length - 1; i++) {
+        segments.push(run.substring(i, i + 2));
+      }
+    }
+    return segments;
+  }
+
+  // 关键词的双字有多大比例出现在文本中
+  private static ngramSimilarity(text: string, keyword: string): number {
+    const keywordSegments = MediaSearch.segment(keyword);
+    if (keywordSegments.length === 0) return 0;
+    const textSegments = new Set(MediaSearch.segment(text));
+    const matched = keywordSegments.filter(segment => textSegments.has(segment)).length;
+    return matched / keywordSegments.length;
+  }
+
+  /**
+   * 关键词与文本中最接近的词的编辑距离（含相邻字母交换），超出容错范围时返回 0
+   * 容错范围：5 个字母以内允许 1 处差异，更长允许 2 处
+   */
+  private static fuzzyDistance(text: string, keyword: string): number {
+    const limit = keyword.length <= 5 ? 1 : 2;
+    let best = limit + 1;
+    for (const word of text.match(/[a-z0-9]+/g) || []) {
+      if (Math.abs(word.length - keyword.length) > limit) continue;
+      // 较长的词也比较同长度的前缀，例如 photgraph 匹配 photographs
+      const candidates = word.length > keyword.length ? [word, word.substring(0, keyword.length)] : [word];
+      for (const candidate of candidates) {
+        best = Math.min(best, MediaSearch.editDistance(candidate, keyword, best));
+      }
+    }
+    return best <= limit ? best : 0;
+  }
+
+  // 限定上限的编辑距离（Damerau-Levenshtein 的相邻交换版本），超过上限时提前返回
+  private static editDistance(a: string, b: string, max: number): number {
+    if (a === b) return 0;
+    let previousPrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          value = Math.min(value, previousPrevious[j - 2] + 1);
+        }
+        current.push(value);
+        rowMin = Math.min(rowMin, value);
+      }
+      if (rowMin > max) return max + 1;
+      previousPrevious = previous;
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
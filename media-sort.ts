@@ -0,0 +1,222 @@
+/**
+ * 媒体排序
+ * 主排序键和次要排序键各自可选升序或降序；大小、像素数、宽高比和时长按数值比较，
+ * 缺少该值的记录总是排在最后；随机排序按种子打乱，种子不变时顺序不变
+ */
+import { MediaData, CustomFieldDefinition } from './image-data-model';
+import { CustomFields } from './custom-fields';
+import { MediaRating } from './media-rating';
+
+export type SortDirection = 'asc' | 'desc';
+
+// 排序设置；自定义字段的排序键为 `field:<key>`
+export interface SortSpec {
+  key: string;
+  direction: SortDirection;
+  secondaryKey: string;          // 空字符串表示没有次要排序
+  secondaryDirection: SortDirection;
+  seed: number;                  // 随机排序的种子
+}
+
+// 内置排序键：显示名称和默认方向
+export const SORT_KEYS: Record<string, { name: string; direction: SortDirection }> = {
+  'date': { name: '添加时间', direction: 'desc' },
+  'modified': { name: '修改时间', direction: 'desc' },
+  'name': { name: '名称', direction: 'asc' },
+  'size': { name: '文件大小', direction: 'desc' },
+  'pixels': { name: '像素数', direction: 'desc' },
+  'aspect': { name: '宽高比', direction: 'desc' },
+  'duration': { name: '时长', direction: 'desc' },
+  'tags': { name: '标签数', direction: 'desc' },
+  'rating': { name: '评分', direction: 'desc' },
+  'random': { name: '随机', direction: 'asc' }
+};
+
+// 文件大小字符串的单位
+const SIZE_UNITS: Record<string, number> = {
+  '': 1, 'b': 1,
+  'k': 1024, 'kb': 1024,
+  'm': 1024 ** 2, 'mb': 1024 ** 2,
+  'g': 1024 ** 3, 'gb': 1024 ** 3
+};
+
+// 升序比较两个值，undefined 表示缺少该值
+type SortValue = number | string | undefined;
+
+export class MediaSort {
+  static createDefault(): SortSpec {
+    return { key: 'date', direction: 'desc', secondaryKey: '', secondaryDirection: 'desc', seed: MediaSort.createSeed() };
+  }
+
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x7fffffff);
+  }
+
+  /**
+   * 排序键的默认方向：文字升序，数值和日期降序；自定义字段中数字、日期、是/否降序
+   */
+  static getDefaultDirection(key: string, fieldDefinitions: CustomFieldDefinition[]): SortDirection {
+    if (key.startsWith('field:')) {
+      const definition = fieldDefinitions.find(field => field.key === key.slice('field:'.length));
+      return definition && ['number', 'date', 'boolean'].includes(definition.type) ? 'desc' : 'asc';
+    }
+    return SORT_KEYS[key]?.direction ?? 'asc';
+  }
+
+  static getKeyName(key: string, fieldDefinitions: CustomFieldDefinition[]): string {
+    if (key.startsWith('field:')) {
+      return fieldDefinitions.find(field => field.key === key.slice('field:'.length))?.name ?? key;
+    }
+    return SORT_KEYS[key]?.name ?? key;
+  }
+
+  /**
+   * 按排序设置生成比较函数；主次排序键都相同时按名称排序，保证顺序稳定
+   */
+  static createComparator(spec: SortSpec, fieldDefinitions: CustomFieldDefinition[]): (a: MediaData, b: MediaData) => number {
+    const primary = MediaSort.createKeyComparator(spec.key, spec.direction, spec.seed, fieldDefinitions);
+    const secondary = spec.secondaryKey && spec.secondaryKey !== spec.key
+      ? MediaSort.createKeyComparator(spec.secondaryKey, spec.secondaryDirection, spec.seed, fieldDefinitions)
+      : null;
+    return (a, b) => primary(a, b) || (secondary ? secondary(a, b) : 0) || a.title.localeCompare(b.title) || a.id.localeCompare(b.id);
+  }
+
+  /**
+   * 加入媒体库的时间（ISO 格式）；缺少 addedAt 的记录使用 date
+   */
+  static getAddedAt(record: MediaData): string {
+    return record.addedAt || record.date || '';
+  }
+
+  /**
+   * 文件大小（字节）：优先使用记录中的字节数，否则解析格式化的大小
+   */
+  static getFileSize(record: MediaData): number | undefined {
+    if (record.fileSize !== undefined) return record.fileSize;
+    return record.size ? MediaSort.parseSize(record.size.replace(/\s+/g, '')) ?? undefined : undefined;
+  }
+
+  /**
+   * 解析大小字符串，例如 500KB、2.4MB；格式不正确时返回 null
+   */
+  static parseSize(value: string): number | null {
+    const match = /^(\d+(?:\.\d+)?)([a-z]*)$/i.exec(value);
+    if (!match) return null;
+    const unit = SIZE_UNITS[match[2].toLowerCase()];
+    return unit === undefined ? null : parseFloat(match[1]) * unit;
+  }
+
+  /**
+   * 宽高：优先使用记录中的宽高，否则解析分辨率字符串（例如 1920x1080）
+   * 宽或高为 0 表示未知（视频、音频和旧记录保存为 0），返回 undefined
+   */
+  static getDimensions(record: MediaData): { width: number; height: number } | undefined {
+    if (record.width && record.height && record.width > 0 && record.height > 0) {
+      return { width: record.width, height: record.height };
+    }
+    const match = /(\d+)\s*[x×]\s*(\d+)/.exec(record.resolution || '');
+    if (!match) return undefined;
+    const width = parseInt(match[1], 10);
+    const height = parseInt(match[2], 10);
+    return width > 0 && height > 0 ? { width, height } : undefined;
+  }
+
+  /**
+   * 视频和音频的时长（秒），解析保存在 resolution 中的 m:ss 或 h:mm:ss
+   */
+  static getDuration(record: MediaData): number | undefined {
+    if (record.type === 'image') return undefined;
+    const match = /^(?:(\d+):)?(\d+):(\d{2})$/.exec((record.resolution || '').trim());
+    if (!match) return undefined;
+    return parseInt(match[1] || '0', 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  }
+
+  /**
+   * 将秒数格式化为 m:ss 或 h:mm:ss（与 getDuration 解析的格式一致）
+   */
+  static formatDuration(seconds: number): string {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = String(total % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+  }
+
+  private static createKeyComparator(key: string, direction: SortDirection, seed: number, fieldDefinitions: CustomFieldDefinition[]): (a: MediaData, b: MediaData) => number {
+    const sign = direction === 'asc' ? 1 : -1;
+
+    if (key.startsWith('field:')) {
+      const definition = fieldDefinitions.find(field => field.key === key.slice('field:'.length));
+      if (!definition) return () => 0;
+      // CustomFields.compare 按字段的默认方向比较，空值在后
+      const defaultSign = MediaSort.getDefaultDirection(key, fieldDefinitions) === direction ? 1 : -1;
+      return (a, b) => {
+        const emptyA = CustomFields.isEmpty(CustomFields.getValue(a, definition));
+        const emptyB = CustomFields.isEmpty(CustomFields.getValue(b, definition));
+        if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+        return defaultSign * CustomFields.compare(definition, a, b);
+      };
+    }
+
+    const getValue = MediaSort.getValueGetter(key, seed);
+    return (a, b) => {
+      const valueA = getValue(a);
+      const valueB = getValue(b);
+      if (valueA === undefined || valueB === undefined) {
+        return Number(valueA === undefined) - Number(valueB === undefined);
+      }
+      const result = typeof valueA === 'string' && typeof valueB === 'string'
+        ? valueA.localeCompare(valueB)
+        : (valueA as number) - (valueB as number);
+      return sign * result;
+    };
+  }
+
+  private static getValueGetter(key: string, seed: number): (record: MediaData) => SortValue {
+    switch (key) {
+      case 'date':
+        return record => MediaSort.toTime(MediaSort.getAddedAt(record));
+      case 'modified':
+        return record => record.lastModified || undefined;
+      case 'name':
+        return record => record.title;
+      case 'size':
+        return record => MediaSort.getFileSize(record);
+      case 'pixels':
+        return record => {
+          const dimensions = MediaSort.getDimensions(record);
+          return dimensions ? dimensions.width * dimensions.height : undefined;
+        };
+      case 'aspect':
+        return record => {
+          const dimensions = MediaSort.getDimensions(record);
+          return dimensions && dimensions.height > 0 ? dimensions.width / dimensions.height : undefined;
+        };
+      case 'duration':
+        return record => MediaSort.getDuration(record);
+      case 'tags':
+        return record => record.tags.length;
+      case 'rating':
+        return record => MediaRating.getRating(record);
+      case 'random':
+        return record => MediaSort.hash(`${seed}:${record.id}`);
+      default:
+        return () => undefined;
+    }
+  }
+
+  private static toTime(date: string): number | undefined {
+    const time = date ? new Date(date).getTime() : NaN;
+    return isNaN(time) ? undefined : time;
+  }
+
+  // 32 位 FNV-1a 哈希，用于按种子打乱
+  private static hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
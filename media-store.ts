@@ -0,0 +1,617 @@
+/**
+ * 标签数据存储后端
+ * 将 ImageDataManager 与具体的存储格式解耦：单个 JSON 文件、按文件夹分片、每个媒体文件的附属文件
+ */
+import { App } from 'obsidian';
+import { MediaData, MediaAlbum, MediaChanges, LibraryMetadata, MediaLibraryEnvelope, StorageBackendType, ImageTaggingSettings, TagDefinition } from './image-data-model';
+import { DataMigration } from './data-migration';
+import { SaveScheduler, BackupInfo, writeFileAtomically } from './save-scheduler';
+import { Logger } from './logger';
+import { ImageTaggingError } from './error-handler';
+import { CURRENT_SCHEMA_VERSION, SIDECAR_SUFFIX, ALBUMS_SIDECAR_PATH } from './constants';
+
+// 存储后端读取数据所需的数据源（由 ImageDataManager 提供）
+export interface MediaLibrarySource {
+  getAllImageData(): MediaData[];
+  getAlbums(): MediaAlbum[];
+  getTagDefinitions(): TagDefinition[];
+  getLibraryMetadata(): LibraryMetadata;
+  exportToJSON(): string;
+}
+
+// 加载结果
+export interface MediaStoreLoadResult {
+  envelope: MediaLibraryEnvelope;
+  migratedFrom: number | null; // 如果存储中的数据经过了格式升级，记录原始版本
+}
+
+// 存储在插件之外被修改（同步工具、其他设备）
+export interface ExternalChange {
+  base: MediaData[];               // 上次加载或写入时存储中的记录，作为合并的共同基础
+  baseAlbums: MediaAlbum[];        // 上次加载或写入时存储中的相册
+  baseTagDefinitions: TagDefinition[]; // 上次加载或写入时存储中的标签定义
+  remote: MediaLibraryEnvelope;    // 外部修改后的数据
+  content: string;                 // 外部修改后的原始内容
+  mtime: number;                   // 外部修改后的文件修改时间
+}
+
+export interface MediaStore {
+  readonly type: StorageBackendType;
+
+  /** 读取全部数据，存储中没有任何数据时返回 null */
+  load(): Promise<MediaStoreLoadResult | null>;
+
+  /** 全量写入，并清除存储中已不存在的记录 */
+  save(source: MediaLibrarySource): Promise<void>;
+
+  /** 只写入发生变化的记录 */
+  patch(changes: MediaChanges, source: MediaLibrarySource): Promise<void>;
+
+  /** 等待所有未完成的写入 */
+  flush(): Promise<void>;
+
+  /** 列出可恢复的备份（仅部分后端支持） */
+  listBackups?(): Promise<BackupInfo[]>;
+
+  /** 为当前数据创建备份（仅部分后端支持） */
+  createBackup?(): Promise<string>;
+
+  /** 检查存储自上次加载或写入后是否被外部修改，没有修改时返回 null（仅部分后端支持） */
+  readExternalChange?(): Promise<ExternalChange | null>;
+
+  /** 外部修改已合并到内存后调用，之后以该内容作为合并基础 */
+  acceptExternalChange?(change: ExternalChange): void;
+}
+
+// 存储后端的显示名称
+export const STORAGE_BACKEND_NAMES: Record<StorageBackendType, string> = {
+  json: '单个 JSON 文件',
+  sharded: '按文件夹分片',
+  sidecar: '媒体附属文件 (.meta.json)'
+};
+
+/**
+ * 根据设置创建存储后端
+ */
+export function createMediaStore(app: App, type: StorageBackendType, settings: ImageTaggingSettings): MediaStore {
+  switch (type) {
+    case 'sharded':
+      return new ShardedFolderStore(app, () => getShardDirectory(settings.jsonStoragePath));
+    case 'sidecar':
+      return new SidecarStore(app);
+    case 'json':
+    default:
+      return new JsonFileStore(app, () => settings.jsonStoragePath, () => settings.maxBackups);
+  }
+}
+
+// 分片文件目录：与 JSON 数据文件同名的文件夹
+function getShardDirectory(jsonStoragePath: string): string {
+  return jsonStoragePath.endsWith('.json') ? jsonStoragePath.slice(0, -'.json'.length) : `${jsonStoragePath}.d`;
+}
+
+function getParentPath(path: string): string {
+  return path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+}
+
+// 逐级创建文件所在的目录
+async function ensureParentFolder(app: App, filePath: string) {
+  const dirPath = getParentPath(filePath);
+  if (!dirPath || await app.vault.adapter.exists(dirPath)) return;
+
+  let currentPath = '';
+  for (const part of dirPath.split('/')) {
+    if (!part) continue;
+    currentPath += (currentPath ? '/' : '') + part;
+    if (!(await app.vault.adapter.exists(currentPath))) {
+      await app.vault.adapter.mkdir(currentPath);
+    }
+  }
+}
+
+// 相册和标签定义：分片存储时保存在根目录分片中，附属文件存储时保存在库根目录的单独文件中
+interface SharedLibraryData {
+  albums: MediaAlbum[];
+  tagDefinitions: TagDefinition[];
+}
+
+function getSharedData(source: MediaLibrarySource): SharedLibraryData {
+  return { albums: source.getAlbums(), tagDefinitions: source.getTagDefinitions() };
+}
+
+function hasSharedData(shared: SharedLibraryData): boolean {
+  return shared.albums.length > 0 || shared.tagDefinitions.length > 0;
+}
+
+// 将多个文件中的封装对象合并为一个
+function mergeEnvelopes(envelopes: MediaLibraryEnvelope[]): MediaLibraryEnvelope {
+  const library = DataMigration.createLibraryMetadata();
+  const items: MediaData[] = [];
+  const albums: MediaAlbum[] = [];
+  const tagDefinitions: TagDefinition[] = [];
+
+  for (const envelope of envelopes) {
+    items.push(...envelope.items);
+    for (const album of envelope.albums || []) {
+      if (!albums.some(item => item.id === album.id)) albums.push(album);
+    }
+    for (const definition of envelope.tagDefinitions || []) {
+      if (!tagDefinitions.some(item => item.tag === definition.tag)) tagDefinitions.push(definition);
+    }
+    if (envelope.library.createdAt < library.createdAt) library.createdAt = envelope.library.createdAt;
+    if (envelope.library.updatedAt > library.updatedAt) library.updatedAt = envelope.library.updatedAt;
+    if (envelope.library.pluginVersion) library.pluginVersion = envelope.library.pluginVersion;
+  }
+
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, library, items, albums, tagDefinitions };
+}
+
+// 相册和标签定义只写入保存它们的文件
+function serializeEnvelope(items: MediaData[], library: LibraryMetadata, shared?: SharedLibraryData): string {
+  const envelope: MediaLibraryEnvelope = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    library: { ...library, updatedAt: new Date().toISOString() },
+    items
+  };
+  if (shared) {
+    envelope.albums = shared.albums;
+    envelope.tagDefinitions = shared.tagDefinitions;
+  }
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * 存储后端基类：串行执行写入任务，避免并发写入同一文件
+ */
+abstract class BaseMediaStore implements MediaStore {
+  abstract readonly type: StorageBackendType;
+  protected app: App;
+  private writeChain: Promise<void> = Promise.resolve();
+  // 加载时无法解析的文件（例如尚未同步完成）：清理时不删除，被覆盖前先另存一份
+  protected unreadable: Set<string> = new Set();
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  abstract load(): Promise<MediaStoreLoadResult | null>;
+  abstract save(source: MediaLibrarySource): Promise<void>;
+  abstract patch(changes: MediaChanges, source: MediaLibrarySource): Promise<void>;
+
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  protected enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.then(task);
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 读取单个文件并迁移到当前格式，返回 null 表示文件无法解析
+   * 文件版本高于当前插件支持的版本时抛出 SCHEMA_TOO_NEW，由插件锁定存储
+   */
+  protected async readEnvelope(path: string): Promise<{ envelope: MediaLibraryEnvelope; fromVersion: number } | null> {
+    try {
+      const result = DataMigration.parseLibrary(await this.app.vault.adapter.read(path));
+      this.unreadable.delete(path);
+      return { envelope: result.envelope, fromVersion: result.fromVersion };
+    } catch (error) {
+      if (error instanceof ImageTaggingError && error.code === 'SCHEMA_TOO_NEW') {
+        throw new ImageTaggingError(`${path}: ${error.message}`, error.code, error.details);
+      }
+      Logger.warn(`无法读取标签数据文件: ${path}`, error);
+      this.unreadable.add(path);
+      return null;
+    }
+  }
+
+  protected async writeFile(path: string, content: string) {
+    await ensureParentFolder(this.app, path);
+    if (this.unreadable.has(path)) {
+      await this.preserveUnreadable(path);
+    }
+    await writeFileAtomically(this.app, path, content);
+  }
+
+  // 删除不再需要的文件；加载时无法解析的文件不删除
+  protected async removeFile(path: string) {
+    if (this.unreadable.has(path)) return;
+    if (await this.app.vault.adapter.exists(path)) {
+      await this.app.vault.adapter.remove(path);
+    }
+  }
+
+  // 覆盖无法解析的文件前另存一份（文件名不以 .json 结尾，不会被当作数据文件读取）
+  private async preserveUnreadable(path: string) {
+    this.unreadable.delete(path);
+    if (!(await this.app.vault.adapter.exists(path))) return;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const copyPath = `${path}.unreadable-${timestamp}`;
+    await this.app.vault.adapter.copy(path, copyPath);
+    Logger.warn(`无法解析的标签数据文件将被覆盖，原内容已另存为: ${copyPath}`);
+  }
+}
+
+/**
+ * 单个 JSON 文件存储（默认）
+ * 保存请求由 SaveScheduler 合并，并维护滚动备份
+ * 记住上次加载或写入的内容，文件被外部修改后拒绝覆盖，由插件合并后再写入
+ */
+export class JsonFileStore extends BaseMediaStore {
+  readonly type = 'json';
+  private getPath: () => string;
+  private source: MediaLibrarySource | null = null;
+  private scheduler: SaveScheduler;
+  // 上次加载或写入后文件的内容和修改时间；content 为 null 表示当时文件不存在
+  // 整体为 null 表示尚未加载（例如迁移存储方式时新建的后端），此时不检查外部修改
+  private synced: { content: string | null; mtime: number } | null = null;
+
+  constructor(app: App, getPath: () => string, getMaxBackups: () => number) {
+    super(app);
+    this.getPath = getPath;
+    this.scheduler = new SaveScheduler(app, {
+      getPath,
+      serialize: () => this.source ? this.source.exportToJSON() : '',
+      getMaxBackups,
+      beforeWrite: async (path) => {
+        if (await this.hasExternalChange(path)) {
+          throw new ImageTaggingError(`数据文件已被外部修改，需要先合并: ${path}`, 'EXTERNAL_CHANGE');
+        }
+      },
+      afterWrite: async (path, content) => {
+        const stat = await this.app.vault.adapter.stat(path);
+        this.synced = { content, mtime: stat?.mtime ?? 0 };
+      }
+    });
+  }
+
+  async load(): Promise<MediaStoreLoadResult | null> {
+    const path = this.getPath();
+
+    // 上次写入若在替换文件前中断，先从临时文件恢复
+    if (await this.scheduler.recoverInterruptedWrite()) {
+      Logger.warn('检测到未完成的保存，已从临时文件恢复:', path);
+    }
+
+    const stat = await this.app.vault.adapter.stat(path);
+    if (!stat) {
+      this.synced = { content: null, mtime: 0 };
+      return null;
+    }
+
+    const jsonData = await this.app.vault.adapter.read(path);
+    const result = DataMigration.parseLibrary(jsonData);
+    this.synced = { content: jsonData, mtime: stat.mtime };
+
+    if (result.migrated) {
+      // 升级前先备份原始文件
+      await DataMigration.backupBeforeMigration(this.app, path, jsonData, result.fromVersion);
+      await this.scheduler.pruneBackups(path);
+    }
+
+    return {
+      envelope: result.envelope,
+      migratedFrom: result.migrated ? result.fromVersion : null
+    };
+  }
+
+  async save(source: MediaLibrarySource): Promise<void> {
+    this.source = source;
+    await ensureParentFolder(this.app, this.getPath());
+    await this.scheduler.schedule();
+  }
+
+  async patch(changes: MediaChanges, source: MediaLibrarySource): Promise<void> {
+    // 单文件存储总是整体写入
+    await this.save(source);
+  }
+
+  flush(): Promise<void> {
+    return this.scheduler.flush();
+  }
+
+  listBackups(): Promise<BackupInfo[]> {
+    return this.scheduler.listBackups();
+  }
+
+  createBackup(): Promise<string> {
+    return this.scheduler.createBackup();
+  }
+
+  readExternalChange(): Promise<ExternalChange | null> {
+    // 与写入串行执行，避免把写入过程中的文件误认为外部修改
+    return this.scheduler.exclusive(async () => {
+      const path = this.getPath();
+      if (!this.synced || !(await this.hasExternalChange(path))) return null;
+
+      const stat = await this.app.vault.adapter.stat(path);
+      const content = await this.app.vault.adapter.read(path);
+      let remote: MediaLibraryEnvelope;
+      try {
+        remote = DataMigration.parseLibrary(content).envelope;
+      } catch (error) {
+        // 同步工具可能尚未写完文件，下次检查时再读取
+        Logger.warn(`外部修改后的数据文件无法解析，稍后重试: ${path}`, error);
+        return null;
+      }
+
+      const base = this.synced.content !== null
+        ? DataMigration.parseLibrary(this.synced.content).envelope
+        : null;
+      return {
+        base: base ? base.items : [],
+        baseAlbums: base?.albums || [],
+        baseTagDefinitions: base?.tagDefinitions || [],
+        remote,
+        content,
+        mtime: stat?.mtime ?? 0
+      };
+    });
+  }
+
+  acceptExternalChange(change: ExternalChange) {
+    this.synced = { content: change.content, mtime: change.mtime };
+  }
+
+  // 文件内容是否与上次加载或写入时不同（修改时间相同时不读取内容）
+  private async hasExternalChange(path: string): Promise<boolean> {
+    if (!this.synced) return false;
+
+    const stat = await this.app.vault.adapter.stat(path);
+    if (!stat) return false;
+    if (this.synced.content !== null && stat.mtime === this.synced.mtime) return false;
+
+    const content = await this.app.vault.adapter.read(path);
+    if (content === this.synced.content) {
+      // 只有修改时间变化（例如同步工具重新写入了相同内容）
+      this.synced.mtime = stat.mtime;
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * 按文件夹分片存储
+ * 每个媒体文件夹对应分片目录中的一个 JSON 文件，修改只会重写受影响的分片
+ * 相册和标签定义保存在根目录的分片中（没有根目录记录时该分片只包含它们）
+ */
+export class ShardedFolderStore extends BaseMediaStore {
+  readonly type = 'sharded';
+  private getDirectory: () => string;
+  private shardOf: Map<string, string> = new Map(); // 记录ID -> 所在分片的文件夹
+
+  constructor(app: App, getDirectory: () => string) {
+    super(app);
+    this.getDirectory = getDirectory;
+  }
+
+  // 分片文件名为文件夹路径的 URI 编码，根目录使用 '/'
+  private getShardPath(folder: string): string {
+    return `${this.getDirectory()}/${encodeURIComponent(folder || '/')}.json`;
+  }
+
+  private async listShardFiles(): Promise<string[]> {
+    const dir = this.getDirectory();
+    if (!(await this.app.vault.adapter.exists(dir))) return [];
+    const listed = await this.app.vault.adapter.list(dir);
+    return listed.files.filter(path => path.endsWith('.json'));
+  }
+
+  async load(): Promise<MediaStoreLoadResult | null> {
+    const shardFiles = await this.listShardFiles();
+    if (shardFiles.length === 0) return null;
+
+    const envelopes: MediaLibraryEnvelope[] = [];
+    let migratedFrom: number | null = null;
+    this.shardOf.clear();
+    this.unreadable.clear();
+
+    for (const shardPath of shardFiles) {
+      const result = await this.readEnvelope(shardPath);
+      if (!result) continue;
+      if (result.fromVersion !== CURRENT_SCHEMA_VERSION) {
+        migratedFrom = Math.min(migratedFrom ?? result.fromVersion, result.fromVersion);
+      }
+      for (const item of result.envelope.items) {
+        this.shardOf.set(item.id, getParentPath(item.path));
+      }
+      envelopes.push(result.envelope);
+    }
+
+    return { envelope: mergeEnvelopes(envelopes), migratedFrom };
+  }
+
+  save(source: MediaLibrarySource): Promise<void> {
+    return this.enqueue(async () => {
+      const groups = this.groupByFolder(source.getAllImageData());
+      const library = source.getLibraryMetadata();
+      const shared = getSharedData(source);
+      const written = new Set<string>();
+      if (hasSharedData(shared) && !groups.has('')) {
+        groups.set('', []);
+      }
+
+      for (const [folder, items] of groups) {
+        const shardPath = this.getShardPath(folder);
+        await this.writeFile(shardPath, serializeEnvelope(items, library, folder === '' ? shared : undefined));
+        written.add(shardPath);
+      }
+
+      // 删除已经没有记录的分片（无法解析的分片保留）
+      for (const shardPath of await this.listShardFiles()) {
+        if (!written.has(shardPath)) {
+          await this.removeFile(shardPath);
+        }
+      }
+
+      this.shardOf.clear();
+      for (const [folder, items] of groups) {
+        items.forEach(item => this.shardOf.set(item.id, folder));
+      }
+    });
+  }
+
+  patch(changes: MediaChanges, source: MediaLibrarySource): Promise<void> {
+    return this.enqueue(async () => {
+      // 找出受影响的分片：记录当前所在的文件夹以及移动前所在的文件夹
+      const affected = new Set<string>();
+      for (const item of changes.upserted) {
+        affected.add(getParentPath(item.path));
+        const previous = this.shardOf.get(item.id);
+        if (previous !== undefined) affected.add(previous);
+      }
+      for (const item of changes.removed) {
+        affected.add(this.shardOf.get(item.id) ?? getParentPath(item.path));
+        this.shardOf.delete(item.id);
+      }
+      if (changes.albums || changes.tagDefinitions) affected.add('');
+      if (affected.size === 0) return;
+
+      const groups = this.groupByFolder(source.getAllImageData());
+      const library = source.getLibraryMetadata();
+      const shared = getSharedData(source);
+
+      for (const folder of affected) {
+        const shardPath = this.getShardPath(folder);
+        const items = groups.get(folder) || [];
+        const shardShared = folder === '' ? shared : undefined;
+        if (items.length > 0 || (shardShared && hasSharedData(shardShared))) {
+          await this.writeFile(shardPath, serializeEnvelope(items, library, shardShared));
+          items.forEach(item => this.shardOf.set(item.id, folder));
+        } else {
+          await this.removeFile(shardPath);
+        }
+      }
+    });
+  }
+
+  private groupByFolder(items: MediaData[]): Map<string, MediaData[]> {
+    const groups = new Map<string, MediaData[]>();
+    for (const item of items) {
+      const folder = getParentPath(item.path);
+      const group = groups.get(folder);
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(folder, [item]);
+      }
+    }
+    return groups;
+  }
+}
+
+/**
+ * 媒体附属文件存储
+ * 每条记录保存在媒体文件旁的 `<文件名>.meta.json` 中，便于同步工具按文件合并
+ * 相册和标签定义保存在库根目录的 `media-albums.meta.json` 中
+ */
+export class SidecarStore extends BaseMediaStore {
+  readonly type = 'sidecar';
+  private sidecarOf: Map<string, string> = new Map(); // 记录ID -> 附属文件路径
+
+  static getSidecarPath(mediaPath: string): string {
+    return `${mediaPath}${SIDECAR_SUFFIX}`;
+  }
+
+  // 递归列出库中的所有附属文件（跳过配置目录和隐藏文件夹）
+  private async listSidecarFiles(dir: string = '/'): Promise<string[]> {
+    const listed = await this.app.vault.adapter.list(dir);
+    const result = listed.files.filter(path => path.endsWith(SIDECAR_SUFFIX));
+
+    for (const folder of listed.folders) {
+      const name = folder.split('/').pop() || '';
+      if (name.startsWith('.') || folder === this.app.vault.configDir) continue;
+      result.push(...await this.listSidecarFiles(folder));
+    }
+    return result;
+  }
+
+  async load(): Promise<MediaStoreLoadResult | null> {
+    const sidecarFiles = await this.listSidecarFiles();
+    if (sidecarFiles.length === 0) return null;
+
+    const envelopes: MediaLibraryEnvelope[] = [];
+    let migratedFrom: number | null = null;
+    this.sidecarOf.clear();
+    this.unreadable.clear();
+
+    for (const sidecarPath of sidecarFiles) {
+      const result = await this.readEnvelope(sidecarPath);
+      if (!result) continue;
+      if (result.fromVersion !== CURRENT_SCHEMA_VERSION) {
+        migratedFrom = Math.min(migratedFrom ?? result.fromVersion, result.fromVersion);
+      }
+      result.envelope.items.forEach(item => this.sidecarOf.set(item.id, sidecarPath));
+      envelopes.push(result.envelope);
+    }
+
+    return { envelope: mergeEnvelopes(envelopes), migratedFrom };
+  }
+
+  save(source: MediaLibrarySource): Promise<void> {
+    return this.enqueue(async () => {
+      const library = source.getLibraryMetadata();
+      const written = new Set<string>();
+      this.sidecarOf.clear();
+
+      for (const item of source.getAllImageData()) {
+        const sidecarPath = await this.writeSidecar(item, library);
+        written.add(sidecarPath);
+      }
+      if (await this.writeSharedData(source)) {
+        written.add(ALBUMS_SIDECAR_PATH);
+      }
+
+      // 删除已经没有对应记录的附属文件（无法解析的附属文件保留）
+      for (const sidecarPath of await this.listSidecarFiles()) {
+        if (!written.has(sidecarPath)) {
+          await this.removeFile(sidecarPath);
+        }
+      }
+    });
+  }
+
+  patch(changes: MediaChanges, source: MediaLibrarySource): Promise<void> {
+    return this.enqueue(async () => {
+      const library = source.getLibraryMetadata();
+
+      for (const item of changes.upserted) {
+        const previous = this.sidecarOf.get(item.id);
+        const sidecarPath = await this.writeSidecar(item, library);
+
+        // 媒体文件被重命名或移动后，删除旧位置的附属文件
+        if (previous && previous !== sidecarPath) {
+          await this.removeFile(previous);
+        }
+      }
+
+      for (const item of changes.removed) {
+        const sidecarPath = this.sidecarOf.get(item.id) ?? SidecarStore.getSidecarPath(item.path);
+        this.sidecarOf.delete(item.id);
+        await this.removeFile(sidecarPath);
+      }
+
+      if ((changes.albums || changes.tagDefinitions) && !(await this.writeSharedData(source))) {
+        await this.removeFile(ALBUMS_SIDECAR_PATH);
+      }
+    });
+  }
+
+  // 写入相册和标签定义，两者都为空时不写入并返回 false
+  private async writeSharedData(source: MediaLibrarySource): Promise<boolean> {
+    const shared = getSharedData(source);
+    if (!hasSharedData(shared)) return false;
+    await this.writeFile(ALBUMS_SIDECAR_PATH, serializeEnvelope([], source.getLibraryMetadata(), shared));
+    return true;
+  }
+
+  private async writeSidecar(item: MediaData, library: LibraryMetadata): Promise<string> {
+    const sidecarPath = SidecarStore.getSidecarPath(item.path);
+    await this.writeFile(sidecarPath, serializeEnvelope([item], library));
+    this.sidecarOf.set(item.id, sidecarPath);
+    return sidecarPath;
+  }
+}
@@ -0,0 +1,137 @@
+import { App, Modal, Setting } from 'obsidian';
+import { MediaData } from './image-data-model';
+import { MergeConflict, MergeResolution, MergeSide } from './library-merge';
+
+// 冲突字段的显示名称
+const FIELD_LABELS: Record<string, string> = {
+  title: '标题',
+  description: '描述',
+  tags: '标签',
+  path: '路径',
+  originalName: '文件名',
+  resolution: '分辨率/时长',
+  fingerprint: '内容指纹',
+  fields: '自定义字段'
+};
+
+/**
+ * 合并冲突对话框
+ * 数据文件的外部修改与本地修改无法自动合并时，并排显示两个版本，由用户为每条记录选择保留的版本
+ * 关闭对话框而未确认时以 null 回调，调用方保留本地版本
+ */
+export class MergeConflictModal extends Modal {
+  private conflicts: MergeConflict[];
+  private onResolve: (resolutions: MergeResolution[] | null) => void;
+  private sides: Map<string, MergeSide> = new Map(); // 记录ID -> 选择的版本
+  private resolved = false;
+
+  constructor(app: App, conflicts: MergeConflict[], onResolve: (resolutions: MergeResolution[] | null) => void) {
+    super(app);
+    this.conflicts = conflicts;
+    this.onResolve = onResolve;
+    conflicts.forEach(conflict => this.sides.set(conflict.id, 'local'));
+  }
+
+  onOpen() {
+    this.titleEl.setText('合并标签数据的外部修改');
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.resolved) {
+      this.resolved = true;
+      this.onResolve(null);
+    }
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('merge-conflict-modal');
+    contentEl.createEl('p', {
+      cls: 'merge-conflict-hint',
+      text: `数据文件被同步工具或其他设备修改，其中 ${this.conflicts.length} 条记录在两边都有不同的修改。请为每条记录选择要保留的版本，其余修改已自动合并。未采用的外部版本会保留在备份中。`
+    });
+
+    for (const conflict of this.conflicts) {
+      this.renderConflict(contentEl, conflict);
+    }
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('全部使用本机版本')
+        .onClick(() => this.chooseAll('local')))
+      .addButton(button => button
+        .setButtonText('全部使用外部版本')
+        .onClick(() => this.chooseAll('remote')))
+      .addButton(button => button
+        .setButtonText('应用')
+        .setCta()
+        .onClick(() => this.confirm()));
+  }
+
+  private renderConflict(parent: HTMLElement, conflict: MergeConflict) {
+    const record = conflict.local || conflict.remote;
+    const item = parent.createDiv({ cls: 'merge-conflict-item' });
+    item.createEl('h4', { text: record ? (record.title || record.originalName) : conflict.id });
+    if (record) {
+      item.createEl('small', { cls: 'merge-conflict-path', text: record.path });
+    }
+
+    const columns = item.createDiv({ cls: 'merge-conflict-columns' });
+    this.renderSide(columns, conflict, 'local', '本机版本', conflict.local);
+    this.renderSide(columns, conflict, 'remote', '外部版本', conflict.remote);
+  }
+
+  private renderSide(parent: HTMLElement, conflict: MergeConflict, side: MergeSide, label: string, record: MediaData | null) {
+    const column = parent.createDiv({ cls: 'merge-conflict-side' });
+    column.toggleClass('is-selected', this.sides.get(conflict.id) === side);
+    column.createDiv({ cls: 'merge-conflict-side-title', text: label });
+
+    if (!record) {
+      column.createDiv({ cls: 'merge-conflict-deleted', text: '已删除此记录' });
+    } else {
+      // 删除冲突时显示整条记录的主要字段
+      const fields = conflict.fields.length > 0 ? conflict.fields : ['title', 'tags', 'description'];
+      const values = record as unknown as Record<string, unknown>;
+      for (const field of fields) {
+        const row = column.createDiv({ cls: 'merge-conflict-field' });
+        row.createSpan({ cls: 'merge-conflict-field-name', text: `${FIELD_LABELS[field] || field}: ` });
+        row.createSpan({ text: MergeConflictModal.formatValue(values[field]) });
+      }
+    }
+
+    column.addEventListener('click', () => {
+      this.sides.set(conflict.id, side);
+      parent.querySelectorAll('.merge-conflict-side').forEach(el => el.removeClass('is-selected'));
+      column.addClass('is-selected');
+    });
+  }
+
+  private chooseAll(side: MergeSide) {
+    this.conflicts.forEach(conflict => this.sides.set(conflict.id, side));
+    this.render();
+  }
+
+  private confirm() {
+    this.resolved = true;
+    const resolutions = this.conflicts.map(conflict => ({
+      conflict,
+      side: this.sides.get(conflict.id) || 'local'
+    }));
+    this.close();
+    this.onResolve(resolutions);
+  }
+
+  private static formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '（空）';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '（无）';
+    if (typeof value === 'object') {
+      return Object.entries(value as Record<string, unknown>)
+        .map(([key, item]) => `${key}=${MergeConflictModal.formatValue(item)}`)
+        .join('; ');
+    }
+    return String(value);
+  }
+}
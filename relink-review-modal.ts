@@ -0,0 +1,92 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { MediaData } from './image-data-model';
+import { RelinkCandidateGroup } from './media-fingerprint';
+
+// 用户确认的一组关联
+export interface RelinkChoice {
+  media: MediaData;
+  file: TFile;
+}
+
+/**
+ * 重新关联确认对话框
+ * 同一内容指纹对应多条失效记录或多个文件时，由用户为每条记录选择对应的文件
+ * 对话框关闭时总会调用 onResolve，取消时选择为空
+ */
+export class RelinkReviewModal extends Modal {
+  private groups: RelinkCandidateGroup[];
+  private onResolve: (choices: RelinkChoice[]) => void;
+  private selected: Map<string, string> = new Map(); // 记录ID -> 选中的文件路径
+  private choices: RelinkChoice[] = [];
+
+  constructor(app: App, groups: RelinkCandidateGroup[], onResolve: (choices: RelinkChoice[]) => void) {
+    super(app);
+    this.groups = groups;
+    this.onResolve = onResolve;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('确认重新关联的媒体文件');
+    contentEl.createEl('p', {
+      cls: 'relink-review-hint',
+      text: '以下记录的原文件已不存在，库中有多个内容相同的文件。请为每条记录选择对应的文件，未选择的记录保持不变。'
+    });
+
+    this.groups.forEach((group, index) => {
+      contentEl.createEl('h4', { text: `相同内容 ${index + 1}（${group.files.length} 个文件）` });
+
+      for (const media of group.orphans) {
+        new Setting(contentEl)
+          .setName(media.title || media.originalName)
+          .setDesc(`原路径: ${media.path}${media.tags.length > 0 ? ` · 标签: ${media.tags.join(', ')}` : ''}`)
+          .addDropdown(dropdown => {
+            dropdown.addOption('', '不关联');
+            for (const file of group.files) {
+              dropdown.addOption(file.path, file.path);
+            }
+            dropdown.onChange(value => {
+              if (value) {
+                this.selected.set(media.id, value);
+              } else {
+                this.selected.delete(media.id);
+              }
+            });
+          });
+      }
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('关联所选')
+        .setCta()
+        .onClick(() => this.confirm()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResolve(this.choices);
+  }
+
+  private confirm() {
+    const paths = Array.from(this.selected.values());
+    if (new Set(paths).size !== paths.length) {
+      new Notice('同一个文件只能关联一条记录');
+      return;
+    }
+
+    for (const group of this.groups) {
+      for (const media of group.orphans) {
+        const path = this.selected.get(media.id);
+        const file = group.files.find(f => f.path === path);
+        if (file) this.choices.push({ media, file });
+      }
+    }
+
+    this.close();
+  }
+}
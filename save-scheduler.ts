@@ -0,0 +1,261 @@
+/**
+ * 数据文件保存调度器
+ * 合并短时间内的多次保存请求，通过临时文件 + 重命名的方式原子写入，并维护滚动备份
+ */
+import { App } from 'obsidian';
+import { Logger } from './logger';
+import { SAVE_DEBOUNCE_DELAY, BACKUP_MIN_INTERVAL, MAX_PRE_MIGRATION_BACKUPS } from './constants';
+
+// 备份文件信息
+export interface BackupInfo {
+  path: string;          // 备份文件路径
+  name: string;          // 备份文件名
+  timestamp: number;     // 备份时间戳
+  kind: 'backup' | 'pre-migration'; // 普通滚动备份或迁移前备份
+}
+
+export interface SaveSchedulerOptions {
+  getPath: () => string;          // 数据文件路径（每次写入时读取，以响应设置变更）
+  serialize: () => string;        // 生成要写入的内容
+  getMaxBackups: () => number;    // 保留的滚动备份数量
+  delay?: number;                 // 合并保存的等待时间（毫秒）
+  beforeWrite?: (path: string) => Promise<void>;                  // 写入前检查，抛出异常时放弃本次写入
+  afterWrite?: (path: string, content: string) => Promise<void>;  // 写入完成后调用
+}
+
+/**
+ * 先写入临时文件并校验，再替换目标文件，避免写入中断导致文件被截断
+ * @param path - 目标文件路径
+ * @param content - 文件内容
+ */
+export async function writeFileAtomically(app: App, path: string, content: string): Promise<void> {
+  const tempPath = `${path}.tmp`;
+  const adapter = app.vault.adapter;
+
+  await adapter.write(tempPath, content);
+  const written = await adapter.read(tempPath);
+  if (written !== content) {
+    throw new Error(`临时文件校验失败: ${tempPath}`);
+  }
+
+  if (!(await adapter.exists(path))) {
+    await adapter.rename(tempPath, path);
+    return;
+  }
+
+  try {
+    await adapter.rename(tempPath, path);
+  } catch (error) {
+    // 部分平台不允许重命名到已存在的文件
+    await adapter.remove(path);
+    await adapter.rename(tempPath, path);
+  }
+}
+
+export class SaveScheduler {
+  private app: App;
+  private options: SaveSchedulerOptions;
+  private timer: number | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private waiters: Array<{ resolve: () => void; reject: (error: unknown) => void }> = [];
+  private lastBackupTime = 0;
+
+  constructor(app: App, options: SaveSchedulerOptions) {
+    this.app = app;
+    this.options = options;
+  }
+
+  /**
+   * 请求保存，短时间内的多次请求会合并为一次写入
+   * @returns 在包含本次修改的写入完成后 resolve
+   */
+  schedule(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+      if (this.timer !== null) {
+        window.clearTimeout(this.timer);
+      }
+      this.timer = window.setTimeout(() => {
+        this.timer = null;
+        this.runPendingWrite();
+      }, this.options.delay ?? SAVE_DEBOUNCE_DELAY);
+    });
+  }
+
+  /**
+   * 立即写入所有未完成的保存请求（例如插件卸载时）
+   */
+  flush(): Promise<void> {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+      return this.runPendingWrite();
+    }
+    return this.writeChain;
+  }
+
+  /**
+   * 在写入队列中执行任务，保证任务执行期间不会有写入进行
+   */
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeChain.then(task);
+    this.writeChain = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * 是否有尚未写入的保存请求
+   */
+  hasPendingWrite(): boolean {
+    return this.timer !== null;
+  }
+
+  private runPendingWrite(): Promise<void> {
+    const waiters = this.waiters;
+    this.waiters = [];
+
+    // 写入串行执行，避免两次写入相互覆盖
+    const write = this.writeChain.then(() => this.writeNow());
+    this.writeChain = write.catch(() => undefined);
+
+    write.then(
+      () => waiters.forEach(w => w.resolve()),
+      (error) => waiters.forEach(w => w.reject(error))
+    );
+    return write;
+  }
+
+  private async writeNow(): Promise<void> {
+    const path = this.options.getPath();
+    await this.options.beforeWrite?.(path);
+    const content = this.options.serialize();
+
+    // 按间隔为当前文件创建备份
+    if (await this.app.vault.adapter.exists(path)) {
+      const now = Date.now();
+      if (now - this.lastBackupTime >= BACKUP_MIN_INTERVAL) {
+        await this.createBackup(path, now);
+        this.lastBackupTime = now;
+      }
+    }
+
+    await writeFileAtomically(this.app, path, content);
+    await this.options.afterWrite?.(path, content);
+    Logger.debug(`数据文件已原子写入: ${path}`);
+  }
+
+  /**
+   * 上次写入在替换前中断时，用临时文件恢复数据文件
+   * @returns 是否进行了恢复
+   */
+  async recoverInterruptedWrite(): Promise<boolean> {
+    const path = this.options.getPath();
+    const tempPath = `${path}.tmp`;
+    const adapter = this.app.vault.adapter;
+
+    if (!(await adapter.exists(tempPath))) {
+      return false;
+    }
+
+    if (await adapter.exists(path)) {
+      // 正式文件完好，临时文件是未完成写入的残留
+      await adapter.remove(tempPath);
+      return false;
+    }
+
+    try {
+      JSON.parse(await adapter.read(tempPath));
+    } catch (error) {
+      Logger.warn(`临时文件内容不完整，已忽略: ${tempPath}`, error);
+      return false;
+    }
+
+    await adapter.rename(tempPath, path);
+    Logger.warn(`检测到中断的写入，已从临时文件恢复: ${path}`);
+    return true;
+  }
+
+  /**
+   * 为当前数据文件创建时间戳备份，并删除超出数量限制的旧备份
+   */
+  async createBackup(path: string = this.options.getPath(), time: number = Date.now()): Promise<string> {
+    const backupPath = `${SaveScheduler.getBasePath(path)}.backup-${SaveScheduler.formatTimestamp(time)}.json`;
+    await this.app.vault.adapter.copy(path, backupPath);
+    Logger.debug(`已创建数据备份: ${backupPath}`);
+
+    await this.pruneBackups(path);
+    return backupPath;
+  }
+
+  /**
+   * 列出数据文件旁的所有备份（最新的在前）
+   */
+  async listBackups(path: string = this.options.getPath()): Promise<BackupInfo[]> {
+    const dir = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+    const baseName = SaveScheduler.getBasePath(path).split('/').pop() || '';
+    const adapter = this.app.vault.adapter;
+
+    if (dir && !(await adapter.exists(dir))) {
+      return [];
+    }
+
+    const listed = await adapter.list(dir || '/');
+    const backups: BackupInfo[] = [];
+
+    for (const filePath of listed.files) {
+      const name = filePath.split('/').pop() || '';
+      if (!name.startsWith(`${baseName}.`) || !name.endsWith('.json')) continue;
+
+      let kind: BackupInfo['kind'] | null = null;
+      if (name.startsWith(`${baseName}.backup-`)) {
+        kind = 'backup';
+      } else if (name.startsWith(`${baseName}.pre-migration-`)) {
+        kind = 'pre-migration';
+      }
+      if (!kind) continue;
+
+      const stat = await adapter.stat(filePath);
+      backups.push({
+        path: filePath,
+        name,
+        timestamp: SaveScheduler.parseTimestamp(name) ?? stat?.mtime ?? 0,
+        kind
+      });
+    }
+
+    return backups.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * 删除超出数量限制的旧备份；滚动备份和迁移前备份分别保留最新的若干份
+   */
+  async pruneBackups(path: string = this.options.getPath()) {
+    const maxBackups = Math.max(0, this.options.getMaxBackups());
+    const backups = await this.listBackups(path);
+    const expired = [
+      ...backups.filter(b => b.kind === 'backup').slice(maxBackups),
+      ...backups.filter(b => b.kind === 'pre-migration').slice(MAX_PRE_MIGRATION_BACKUPS)
+    ];
+
+    for (const backup of expired) {
+      await this.app.vault.adapter.remove(backup.path);
+      Logger.debug(`已删除旧备份: ${backup.path}`);
+    }
+  }
+
+  private static getBasePath(path: string): string {
+    return path.endsWith('.json') ? path.slice(0, -'.json'.length) : path;
+  }
+
+  private static formatTimestamp(time: number): string {
+    return new Date(time).toISOString().replace(/[:.]/g, '-');
+  }
+
+  // 从文件名中解析 formatTimestamp 生成的时间戳
+  private static parseTimestamp(name: string): number | null {
+    const match = name.match(/(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/);
+    if (!match) return null;
+    const time = Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`);
+    return isNaN(time) ? null : time;
+  }
+}
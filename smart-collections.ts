@@ -0,0 +1,192 @@
+/**
+ * 智能收藏集
+ * 每个收藏集保存一组查询条件（标签的与/或/非、媒体类型、格式、文件夹、添加日期范围和自定义字段），
+ * 图库中选择收藏集即显示满足条件的媒体；子收藏集的记录同时满足所有上级收藏集的条件
+ */
+import { MediaData, CollectionQuery, SmartCollection, CustomFieldDefinition } from './image-data-model';
+import { CustomFields } from './custom-fields';
+import { TagHierarchy } from './tag-hierarchy';
+import { MediaSort } from './media-sort';
+
+// 收藏集树的节点
+export interface CollectionTreeNode {
+  collection: SmartCollection;
+  children: CollectionTreeNode[];
+}
+
+// 媒体类型的显示名称
+export const MEDIA_TYPE_NAMES: Record<MediaData['type'], string> = {
+  'image': '图片',
+  'video': '视频',
+  'audio': '音频'
+};
+
+export class SmartCollections {
+  static createQuery(query: Partial<CollectionQuery> = {}): CollectionQuery {
+    return {
+      allTags: [],
+      anyTags: [],
+      excludeTags: [],
+      types: [],
+      formats: [],
+      folder: '',
+      dateFrom: '',
+      dateTo: '',
+      fields: [],
+      ...query
+    };
+  }
+
+  static create(name: string, query: Partial<CollectionQuery> = {}, parentId?: string): SmartCollection {
+    return {
+      id: `collection_${crypto.randomUUID()}`,
+      name,
+      parentId,
+      query: SmartCollections.createQuery(query)
+    };
+  }
+
+  /**
+   * 新安装时的默认收藏集：按媒体类型
+   */
+  static createDefaults(): SmartCollection[] {
+    return (Object.keys(MEDIA_TYPE_NAMES) as MediaData['type'][]).map(type =>
+      SmartCollections.create(MEDIA_TYPE_NAMES[type], { types: [type] })
+    );
+  }
+
+  /**
+   * 将旧版的分类导航迁移为收藏集：每个分类对应一个按该标签（含子标签）筛选的收藏集
+   * 旧版分类同时匹配标题中包含分类名称的记录，迁移后只按标签匹配
+   */
+  static fromCategories(categories: string[]): SmartCollection[] {
+    return categories
+      .filter(category => category && category !== '全部图片' && category !== '全部媒体')
+      .map(category => SmartCollections.create(category, { allTags: [TagHierarchy.normalize(category)] }));
+  }
+
+  /**
+   * 记录是否满足单个查询（不含上级收藏集的条件）
+   */
+  static matchesQuery(record: MediaData, query: CollectionQuery, fieldDefinitions: CustomFieldDefinition[]): boolean {
+    const hasTag = (tag: string) => record.tags.some(item => TagHierarchy.isWithin(item, tag));
+    if (!query.allTags.every(hasTag)) return false;
+    if (query.anyTags.length > 0 && !query.anyTags.some(hasTag)) return false;
+    if (query.excludeTags.some(hasTag)) return false;
+
+    if (query.types.length > 0 && !query.types.includes(record.type)) return false;
+    if (query.formats.length > 0 && !query.formats.includes(record.format.toUpperCase())) return false;
+    if (query.folder && !record.path.startsWith(`${query.folder}/`)) return false;
+
+    // 按加入库的时间筛选，编辑记录不会改变其所属的收藏集
+    const date = MediaSort.getAddedAt(record).substring(0, 10);
+    if (query.dateFrom && (!date || date < query.dateFrom)) return false;
+    if (query.dateTo && (!date || date > query.dateTo)) return false;
+
+    return query.fields.every(filter => {
+      const definition = fieldDefinitions.find(field => field.key === filter.key);
+      // 字段定义已删除的条件不再限制
+      return !definition || CustomFields.matches(definition, record, filter);
+    });
+  }
+
+  /**
+   * 记录是否属于收藏集（同时满足所有上级收藏集的条件）
+   */
+  static matches(record: MediaData, collection: SmartCollection, collections: SmartCollection[], fieldDefinitions: CustomFieldDefinition[]): boolean {
+    return SmartCollections.getLineage(collection, collections)
+      .every(item => SmartCollections.matchesQuery(record, item.query, fieldDefinitions));
+  }
+
+  /**
+   * 收藏集自身及所有上级收藏集，从收藏集自身开始
+   */
+  static getLineage(collection: SmartCollection, collections: SmartCollection[]): SmartCollection[] {
+    const lineage: SmartCollection[] = [];
+    const visited = new Set<string>(); // 防止设置被手动修改后出现循环
+    let current: SmartCollection | undefined = collection;
+    while (current && !visited.has(current.id)) {
+      lineage.push(current);
+      visited.add(current.id);
+      const parentId: string | undefined = current.parentId;
+      current = parentId ? collections.find(item => item.id === parentId) : undefined;
+    }
+    return lineage;
+  }
+
+  /**
+   * 收藏集的所有下级收藏集ID（不含自身）
+   */
+  static getDescendantIds(id: string, collections: SmartCollection[]): Set<string> {
+    const descendants = new Set<string>();
+    let added = true;
+    while (added) {
+      added = false;
+      for (const collection of collections) {
+        if (collection.parentId && !descendants.has(collection.id) &&
+            (collection.parentId === id || descendants.has(collection.parentId))) {
+          descendants.add(collection.id);
+          added = true;
+        }
+      }
+    }
+    descendants.delete(id);
+    return descendants;
+  }
+
+  /**
+   * 按上级关系组织收藏集，上级不存在的收藏集作为顶层
+   */
+  static buildTree(collections: SmartCollection[]): CollectionTreeNode[] {
+    const ids = new Set(collections.map(collection => collection.id));
+    const build = (parentId: string | undefined, visited: Set<string>): CollectionTreeNode[] => collections
+      .filter(collection => !visited.has(collection.id) &&
+        (parentId === undefined ? !collection.parentId || !ids.has(collection.parentId) : collection.parentId === parentId))
+      .map(collection => ({
+        collection,
+        children: build(collection.id, new Set(visited).add(collection.id))
+      }));
+    return build(undefined, new Set());
+  }
+
+  /**
+   * 记录所属的全部收藏集ID；每个收藏集自身的条件只判断一次，供其下级收藏集复用
+   */
+  static getMemberships(record: MediaData, collections: SmartCollection[], fieldDefinitions: CustomFieldDefinition[]): string[] {
+    if (!record.path) return [];
+    const results = new Map<string, boolean>();
+    const matchesOwn = (collection: SmartCollection) => {
+      let result = results.get(collection.id);
+      if (result === undefined) {
+        result = SmartCollections.matchesQuery(record, collection.query, fieldDefinitions);
+        results.set(collection.id, result);
+      }
+      return result;
+    };
+    return collections
+      .filter(collection => SmartCollections.getLineage(collection, collections).every(matchesOwn))
+      .map(collection => collection.id);
+  }
+
+  /**
+   * 查询条件的文字说明，用于悬停提示
+   */
+  static describe(query: CollectionQuery, fieldDefinitions: CustomFieldDefinition[]): string {
+    const parts: string[] = [];
+    if (query.allTags.length > 0) parts.push(`标签: ${query.allTags.join(' 且 ')}`);
+    if (query.anyTags.length > 0) parts.push(`任一标签: ${query.anyTags.join(' 或 ')}`);
+    if (query.excludeTags.length > 0) parts.push(`排除标签: ${query.excludeTags.join('、')}`);
+    if (query.types.length > 0) parts.push(`类型: ${query.types.map(type => MEDIA_TYPE_NAMES[type]).join('、')}`);
+    if (query.formats.length > 0) parts.push(`格式: ${query.formats.join('、')}`);
+    if (query.folder) parts.push(`文件夹: ${query.folder}`);
+    if (query.dateFrom || query.dateTo) parts.push(`添加日期: ${query.dateFrom || '…'} ~ ${query.dateTo || '…'}`);
+    for (const filter of query.fields) {
+      const definition = fieldDefinitions.find(field => field.key === filter.key);
+      if (!definition) continue;
+      const value = definition.type === 'boolean' && filter.value ? (filter.value === 'true' ? '是' : '否') : filter.value;
+      const condition = filter.min || filter.max ? `${filter.min || '…'} ~ ${filter.max || '…'}` : (value || '有值');
+      parts.push(`${definition.name}: ${condition}`);
+    }
+    return parts.length > 0 ? parts.join('\n') : '没有条件（包含全部媒体）';
+  }
+}
@@ -0,0 +1,37 @@
+import { App, SuggestModal } from 'obsidian';
+import { StorageBackendType } from './image-data-model';
+import { STORAGE_BACKEND_NAMES } from './media-store';
+
+/**
+ * 存储方式选择对话框
+ * 列出可用的存储后端，选中后交由调用方迁移数据
+ */
+export class StorageBackendModal extends SuggestModal<StorageBackendType> {
+  private current: StorageBackendType;
+  private onChoose: (type: StorageBackendType) => void;
+
+  constructor(app: App, current: StorageBackendType, onChoose: (type: StorageBackendType) => void) {
+    super(app);
+    this.current = current;
+    this.onChoose = onChoose;
+    this.setPlaceholder('选择要迁移到的存储方式...');
+  }
+
+  getSuggestions(query: string): StorageBackendType[] {
+    return (Object.keys(STORAGE_BACKEND_NAMES) as StorageBackendType[])
+      .filter(type => type !== this.current)
+      .filter(type => STORAGE_BACKEND_NAMES[type].toLowerCase().includes(query.toLowerCase()));
+  }
+
+  renderSuggestion(type: StorageBackendType, el: HTMLElement) {
+    el.createEl('div', { text: STORAGE_BACKEND_NAMES[type] });
+    el.createEl('small', {
+      cls: 'backup-suggestion-info',
+      text: `当前: ${STORAGE_BACKEND_NAMES[this.current]}`
+    });
+  }
+
+  onChooseSuggestion(type: StorageBackendType) {
+    this.onChoose(type);
+  }
+}
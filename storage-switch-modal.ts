@@ -0,0 +1,54 @@
+import { App, Modal, Setting } from 'obsidian';
+import { StorageBackendType } from './image-data-model';
+import { STORAGE_BACKEND_NAMES } from './media-store';
+
+// 迁移数据、直接切换或取消
+export type StorageSwitchChoice = 'migrate' | 'switch' | 'cancel';
+
+/**
+ * 切换存储方式确认对话框
+ * 对话框关闭时总会调用 onChoose，直接关闭视为取消
+ */
+export class StorageSwitchModal extends Modal {
+  private target: StorageBackendType;
+  private onChoose: (choice: StorageSwitchChoice) => void;
+  private choice: StorageSwitchChoice = 'cancel';
+
+  constructor(app: App, target: StorageBackendType, onChoose: (choice: StorageSwitchChoice) => void) {
+    super(app);
+    this.target = target;
+    this.onChoose = onChoose;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const name = STORAGE_BACKEND_NAMES[this.target];
+    this.titleEl.setText(`切换到“${name}”`);
+    contentEl.addClass('storage-switch-modal');
+    contentEl.createEl('p', { text: `迁移会把当前标签数据写入“${name}”，原存储中的数据保留。` });
+    contentEl.createEl('p', { text: `直接切换会先保存当前修改，再从“${name}”读取已有数据；该存储中没有数据时图库将为空。` });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.choose('cancel')))
+      .addButton(button => button
+        .setButtonText('直接切换')
+        .setWarning()
+        .onClick(() => this.choose('switch')))
+      .addButton(button => button
+        .setButtonText('迁移')
+        .setCta()
+        .onClick(() => this.choose('migrate')));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onChoose(this.choice);
+  }
+
+  private choose(choice: StorageSwitchChoice) {
+    this.choice = choice;
+    this.close();
+  }
+}
@@ -0,0 +1,102 @@
+import { App, Modal, Setting, getIcon } from 'obsidian';
+import { TagRegistry, TagAppearance } from './tag-registry';
+import { TagHierarchy } from './tag-hierarchy';
+
+/**
+ * 标签外观对话框
+ * 编辑标签的颜色、图标和说明，并实时预览标签的显示效果
+ */
+export class TagAppearanceModal extends Modal {
+  private tag: string;
+  private registry: TagRegistry;
+  private appearance: TagAppearance;
+  private previewEl: HTMLElement;
+
+  constructor(app: App, tag: string, registry: TagRegistry) {
+    super(app);
+    this.tag = tag;
+    this.registry = registry;
+    // 只编辑标签自身的设置（不含从上级标签沿用的颜色和图标）
+    const definition = registry.getDefinition(tag);
+    this.appearance = { color: definition?.color, icon: definition?.icon, description: definition?.description };
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(`标签外观: ${this.tag}`);
+    contentEl.addClass('tag-appearance-modal');
+
+    const previewContainer = contentEl.createDiv({ cls: 'tag-appearance-preview' });
+    this.previewEl = previewContainer.createSpan({ cls: 'image-tag', text: this.tag });
+    this.updatePreview();
+
+    new Setting(contentEl)
+      .setName('颜色')
+      .setDesc('未设置时沿用上级标签的颜色')
+      .addColorPicker(picker => picker
+        .setValue(this.appearance.color || '#000000')
+        .onChange(value => {
+          this.appearance.color = value;
+          this.updatePreview();
+        }))
+      .addExtraButton(button => button
+        .setIcon('rotate-ccw')
+        .setTooltip('清除颜色')
+        .onClick(() => {
+          this.appearance.color = undefined;
+          this.updatePreview();
+        }));
+
+    const iconSetting = new Setting(contentEl)
+      .setName('图标')
+      .setDesc('Lucide 图标名称，例如 plane、camera、heart；未设置时沿用上级标签的图标')
+      .addText(text => text
+        .setPlaceholder('图标名称')
+        .setValue(this.appearance.icon || '')
+        .onChange(value => {
+          const icon = value.trim();
+          this.appearance.icon = icon || undefined;
+          iconSetting.descEl.toggleClass('mod-warning', !!icon && !getIcon(icon));
+          this.updatePreview();
+        }));
+
+    new Setting(contentEl)
+      .setName('说明')
+      .setDesc('悬停标签时显示')
+      .addTextArea(text => text
+        .setValue(this.appearance.description || '')
+        .onChange(value => {
+          this.appearance.description = value.trim() || undefined;
+          this.updatePreview();
+        }));
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText('保存')
+        .setCta()
+        .onClick(async () => {
+          const icon = this.appearance.icon && getIcon(this.appearance.icon) ? this.appearance.icon : undefined;
+          await this.registry.update(this.tag, { ...this.appearance, icon });
+          this.close();
+        }));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  // 预览：未设置的颜色和图标按上级标签显示
+  private updatePreview() {
+    const parent = TagHierarchy.getParent(this.tag);
+    const inherited: TagAppearance = parent ? this.registry.getAppearance(parent) : {};
+    const icon = this.appearance.icon && getIcon(this.appearance.icon) ? this.appearance.icon : undefined;
+    TagRegistry.applyAppearance(this.previewEl, {
+      color: this.appearance.color || inherited.color,
+      icon: icon || inherited.icon,
+      description: this.appearance.description
+    });
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * 层级标签
+ * 标签用 / 分隔层级（例如 travel/japan/tokyo），按父标签筛选时同时匹配所有子标签
+ */
+import { TAG_SUGGESTION_LIMIT } from './constants';
+
+export const TAG_SEPARATOR = '/';
+
+// 标签树的节点
+export interface TagTreeNode {
+  name: string;            // 当前层级的名称，例如 tokyo
+  path: string;            // 完整标签，例如 travel/japan/tokyo
+  count: number;           // 带有该标签或任一子标签的记录数（同一记录只计一次）
+  children: TagTreeNode[];
+}
+
+// 自动补全的候选项
+export interface TagSuggestion {
+  tag: string;
+  hasChildren: boolean;    // 是否还有下一级，选择后继续补全
+}
+
+export class TagHierarchy {
+  /**
+   * 规范化用户输入的标签：去除各层级首尾空白和多余的分隔符
+   */
+  static normalize(tag: string): string {
+    return tag.split(TAG_SEPARATOR)
+      .map(segment => segment.trim())
+      .filter(segment => segment.length > 0)
+      .join(TAG_SEPARATOR);
+  }
+
+  // 标签的最后一级名称
+  static getName(tag: string): string {
+    return tag.substring(tag.lastIndexOf(TAG_SEPARATOR) + 1);
+  }
+
+  // 父标签，顶层标签返回空字符串
+  static getParent(tag: string): string {
+    const index = tag.lastIndexOf(TAG_SEPARATOR);
+    return index === -1 ? '' : tag.substring(0, index);
+  }
+
+  /**
+   * 标签自身及所有上级标签，从顶层开始，例如 travel、travel/japan、travel/japan/tokyo
+   */
+  static getLineage(tag: string): string[] {
+    const segments = tag.split(TAG_SEPARATOR);
+    return segments.map((_, index) => segments.slice(0, index + 1).join(TAG_SEPARATOR));
+  }
+
+  /**
+   * 标签是否为指定标签本身或其子标签
+   */
+  static isWithin(tag: string, ancestor: string): boolean {
+    return tag === ancestor || tag.startsWith(ancestor + TAG_SEPARATOR);
+  }
+
+  /**
+   * 由标签及其记录构建标签树，父节点的计数包含所有子标签的记录
+   * @param tagIds - 标签 -> 带有该标签的记录ID
+   */
+  static buildTree(tagIds: Map<string, Set<string>>): TagTreeNode[] {
+    const rolledUp = new Map<string, Set<string>>();
+    for (const [tag, ids] of tagIds) {
+      for (const path of TagHierarchy.getLineage(tag)) {
+        let set = rolledUp.get(path);
+        if (!set) {
+          set = new Set();
+          rolledUp.set(path, set);
+        }
+        ids.forEach(id => set!.add(id));
+      }
+    }
+
+    const nodes = new Map<string, TagTreeNode>();
+    const roots: TagTreeNode[] = [];
+    // 路径按层级从浅到深处理，保证父节点先创建
+    const paths = Array.from(rolledUp.keys())
+      .sort((a, b) => a.split(TAG_SEPARATOR).length - b.split(TAG_SEPARATOR).length);
+    for (const path of paths) {
+      const node: TagTreeNode = {
+        name: TagHierarchy.getName(path),
+        path,
+        count: rolledUp.get(path)!.size,
+        children: []
+      };
+      nodes.set(path, node);
+      const parent = nodes.get(TagHierarchy.getParent(path));
+      (parent ? parent.children : roots).push(node);
+    }
+
+    TagHierarchy.sortNodes(roots);
+    return roots;
+  }
+
+  /**
+   * 按层级补全标签：输入 travel/ja 时给出 travel 下名称以 ja 开头的下一级标签，
+   * 其后附上任意层级名称包含输入内容的完整标签
+   * @param input - 正在输入的标签
+   * @param tags - 已有的全部标签（按使用次数排序）
+   */
+  static suggest(input: string, tags: string[], limit: number = TAG_SUGGESTION_LIMIT): TagSuggestion[] {
+    const text = input.trim().toLowerCase();
+    if (!text) return [];
+
+    const parent = TagHierarchy.getParent(text);
+    const fragment = TagHierarchy.getName(text);
+    const depth = parent ? parent.split(TAG_SEPARATOR).length + 1 : 1;
+    const suggestions = new Map<string, TagSuggestion>();
+
+    // 下一级标签
+    for (const tag of tags) {
+      const segments = tag.split(TAG_SEPARATOR);
+      if (segments.length < depth) continue;
+      const candidate = segments.slice(0, depth).join(TAG_SEPARATOR);
+      if (TagHierarchy.getParent(candidate).toLowerCase() !== parent) continue;
+      if (!TagHierarchy.getName(candidate).toLowerCase().startsWith(fragment)) continue;
+
+      const existing = suggestions.get(candidate);
+      const hasChildren = segments.length > depth;
+      if (existing) {
+        existing.hasChildren = existing.hasChildren || hasChildren;
+      } else {
+        suggestions.set(candidate, { tag: candidate, hasChildren });
+      }
+    }
+
+    // 名称包含输入内容的完整标签
+    for (const tag of tags) {
+      if (suggestions.size >= limit) break;
+      if (!suggestions.has(tag) && tag.toLowerCase().includes(text)) {
+        suggestions.set(tag, { tag, hasChildren: false });
+      }
+    }
+
+    return Array.from(suggestions.values())
+      .filter(suggestion => suggestion.tag.toLowerCase() !== text || suggestion.hasChildren)
+      .slice(0, limit);
+  }
+
+  /**
+   * 为输入框添加层级标签自动补全
+   * 选择有下一级的候选项时补全为“标签/”并继续提示；multiple 为 true 时只补全最后一个逗号之后的部分
+   * @param getTags - 返回当前已有的全部标签
+   */
+  static attachAutocomplete(
+    input: HTMLInputElement,
+    container: HTMLElement,
+    getTags: () => string[],
+    multiple: boolean = false
+  ) {
+    container.addClass('tag-autocomplete-anchor');
+    const list = container.createDiv({ cls: 'tag-suggestions-container' });
+    let suggestions: TagSuggestion[] = [];
+    let activeIndex = -1;
+
+    const getToken = () => multiple ? input.value.substring(input.value.lastIndexOf(',') + 1) : input.value;
+
+    const hide = () => {
+      suggestions = [];
+      activeIndex = -1;
+      list.removeClass('visible');
+      list.empty();
+    };
+
+    const render = () => {
+      list.empty();
+      suggestions.forEach((suggestion, index) => {
+        const item = list.createDiv({ cls: 'tag-suggestion-item' });
+        item.toggleClass('is-active', index === activeIndex);
+        item.createSpan({ text: suggestion.tag });
+        if (suggestion.hasChildren) {
+          item.createSpan({ cls: 'tag-suggestion-more', text: TAG_SEPARATOR });
+        }
+        // mousedown 先于输入框失去焦点触发
+        item.addEventListener('mousedown', (e) => {
+          e.preventDefault();
+          accept(suggestion);
+        });
+      });
+      list.toggleClass('visible', suggestions.length > 0);
+    };
+
+    const update = () => {
+      suggestions = TagHierarchy.suggest(getToken(), getTags());
+      activeIndex = -1;
+      render();
+    };
+
+    const accept = (suggestion: TagSuggestion) => {
+      const prefix = multiple ? input.value.substring(0, input.value.length - getToken().length) : '';
+      const separator = multiple && prefix ? ' ' : '';
+      const value = suggestion.hasChildren ? suggestion.tag + TAG_SEPARATOR : suggestion.tag;
+      input.value = prefix.replace(/\s+$/, '') + separator + value;
+      input.focus();
+      // 通知输入框的监听者（同时更新候选项），选择了最后一级标签时收起候选列表
+      input.dispatchEvent(new Event('input'));
+      if (!suggestion.hasChildren) {
+        hide();
+      }
+    };
+
+    input.addEventListener('input', update);
+    input.addEventListener('blur', hide);
+    input.addEventListener('keydown', (e) => {
+      if (suggestions.length === 0) return;
+
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        activeIndex = (activeIndex + step + suggestions.length) % suggestions.length;
+        render();
+      } else if (e.key === 'Tab' || (e.key === 'Enter' && activeIndex >= 0)) {
+        // 阻止默认行为，避免回车同时触发添加标签
+        e.preventDefault();
+        accept(suggestions[Math.max(activeIndex, 0)]);
+      } else if (e.key === 'Escape') {
+        e.stopPropagation();
+        hide();
+      } else if (e.key === 'Enter') {
+        // 未选择候选项时按原样提交输入
+        hide();
+      }
+    });
+  }
+
+  // 按记录数降序、名称升序排列各层级
+  private static sortNodes(nodes: TagTreeNode[]) {
+    nodes.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    nodes.forEach(node => TagHierarchy.sortNodes(node.children));
+  }
+}
@@ -0,0 +1,358 @@
+import { ItemView, WorkspaceLeaf, Notice, TFile, debounce, setIcon } from 'obsidian';
+import { ImageDataManager } from './image-data-model';
+import { ImageTaggingPlugin } from './utils';
+import { TagNameModal } from './tag-name-modal';
+import { ConfirmModal } from './confirm-modal';
+import { TagRegistry } from './tag-registry';
+import { TAG_MANAGER_VIEW_TYPE, TAG_PREVIEW_LIMIT } from './constants';
+
+// 标签列表的排序方式
+type TagSortMode = 'count' | 'name';
+
+/**
+ * 标签管理器
+ * 列出库中的所有标签及使用次数，可重命名、合并、拆分和删除标签，并预览受影响的媒体
+ * 每个操作通过数据管理器一次完成、只保存一次，并可撤销
+ */
+export class TagManagerView extends ItemView {
+  private plugin: ImageTaggingPlugin;
+  private imageDataManager: ImageDataManager;
+  private query = '';
+  private sortMode: TagSortMode = 'count';
+  private selected: Set<string> = new Set(); // 勾选的标签（用于合并）
+  private previewTag: string | null = null; // 正在预览的标签
+  private listEl: HTMLElement;
+  private previewEl: HTMLElement;
+  private mergeButton: HTMLButtonElement;
+  private scheduleRender = debounce(() => this.render(), 100);
+
+  constructor(leaf: WorkspaceLeaf, plugin: ImageTaggingPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+    this.imageDataManager = plugin.imageDataManager;
+  }
+
+  getViewType(): string {
+    return TAG_MANAGER_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return '标签管理';
+  }
+
+  getIcon(): string {
+    return 'tags';
+  }
+
+  async onOpen() {
+    this.createView();
+
+    // 标签计数随记录变化更新
+    for (const name of ['added', 'updated', 'removed', 'bulk'] as const) {
+      this.registerEvent(this.imageDataManager.on(name, () => this.scheduleRender()));
+    }
+
+    this.render();
+  }
+
+  async onClose() {
+    this.scheduleRender.cancel();
+  }
+
+  /**
+   * 缩略图缓存或设置变化后重新绘制预览
+   */
+  refreshPreviews() {
+    this.render();
+  }
+
+  /**
+   * 标签颜色、图标或说明变化后重新绘制列表
+   */
+  refreshTagAppearance() {
+    this.render();
+  }
+
+  private createView() {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('tag-manager-view');
+
+    const toolbar = container.createDiv({ cls: 'tag-manager-toolbar' });
+    const searchInput = toolbar.createEl('input', {
+      type: 'search',
+      cls: 'tag-manager-search',
+      placeholder: '搜索标签...'
+    });
+    searchInput.addEventListener('input', () => {
+      this.query = searchInput.value.trim().toLowerCase();
+      this.render();
+    });
+
+    const sortSelect = toolbar.createEl('select', { cls: 'dropdown' });
+    sortSelect.createEl('option', { value: 'count', text: '按使用次数' });
+    sortSelect.createEl('option', { value: 'name', text: '按名称' });
+    sortSelect.addEventListener('change', () => {
+      this.sortMode = sortSelect.value as TagSortMode;
+      this.render();
+    });
+
+    this.mergeButton = toolbar.createEl('button', { cls: 'tag-manager-merge-btn' });
+    this.mergeButton.addEventListener('click', () => this.promptMerge(Array.from(this.selected)));
+
+    const body = container.createDiv({ cls: 'tag-manager-body' });
+    this.listEl = body.createDiv({ cls: 'tag-manager-list' });
+    this.previewEl = body.createDiv({ cls: 'tag-manager-preview' });
+  }
+
+  private render() {
+    const allTags = new Set(this.imageDataManager.getAllTags().map(tagInfo => tagInfo.tag));
+    // 忽略已不存在的标签
+    this.selected.forEach(tag => {
+      if (!allTags.has(tag)) this.selected.delete(tag);
+    });
+    if (this.previewTag && !allTags.has(this.previewTag)) {
+      this.previewTag = null;
+    }
+
+    this.listEl.empty();
+    const tags = this.getTags();
+    if (tags.length === 0) {
+      this.listEl.createDiv({ cls: 'tag-manager-empty', text: this.query ? '没有匹配的标签' : '暂无标签数据' });
+    }
+    tags.forEach(tagInfo => this.renderRow(tagInfo.tag, tagInfo.count));
+
+    this.updateMergeButton();
+    this.renderPreview();
+  }
+
+  // 按搜索条件过滤并排序的标签
+  private getTags(): { tag: string; count: number }[] {
+    let tags = this.imageDataManager.getAllTags();
+    if (this.query) {
+      tags = tags.filter(tagInfo => tagInfo.tag.toLowerCase().includes(this.query));
+    }
+    if (this.sortMode === 'name') {
+      tags.sort((a, b) => a.tag.localeCompare(b.tag));
+    }
+    return tags;
+  }
+
+  private renderRow(tag: string, count: number) {
+    const row = this.listEl.createDiv({ cls: 'tag-manager-row' });
+    row.toggleClass('is-active', tag === this.previewTag);
+
+    const checkbox = row.createEl('input', { type: 'checkbox' });
+    checkbox.checked = this.selected.has(tag);
+    checkbox.addEventListener('click', (e) => e.stopPropagation());
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        this.selected.add(tag);
+      } else {
+        this.selected.delete(tag);
+      }
+      this.updateMergeButton();
+    });
+
+    const nameEl = row.createSpan({ cls: 'tag-manager-name', text: tag });
+    this.plugin.tagRegistry.decorate(nameEl, tag);
+    row.createSpan({ cls: 'tag-manager-count', text: String(count) });
+
+    const actions = row.createDiv({ cls: 'tag-manager-actions' });
+    this.createAction(actions, 'pencil', '重命名', () => this.promptRename(tag));
+    this.createAction(actions, 'split', '拆分', () => this.promptSplit(tag));
+    this.createAction(actions, 'trash', '删除', () => this.confirmDelete(tag, count));
+
+    row.addEventListener('contextmenu', (e) => this.plugin.showTagMenu(e, tag));
+
+    // 点击行预览带有该标签的媒体
+    row.addEventListener('click', () => {
+      this.previewTag = this.previewTag === tag ? null : tag;
+      this.render();
+    });
+  }
+
+  private createAction(container: HTMLElement, icon: string, label: string, onClick: () => void) {
+    const button = container.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+    setIcon(button, icon);
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+  }
+
+  private updateMergeButton() {
+    this.mergeButton.setText(this.selected.size > 0 ? `合并所选 (${this.selected.size})` : '合并所选');
+    this.mergeButton.disabled = this.selected.size < 2;
+  }
+
+  // 预览带有标签的媒体，并提示只带有子标签、重命名时也会修改的记录数
+  private renderPreview() {
+    this.previewEl.empty();
+    const tag = this.previewTag;
+    if (!tag) {
+      this.previewEl.createDiv({ cls: 'tag-manager-empty', text: '点击标签预览带有该标签的媒体' });
+      return;
+    }
+
+    const ids = this.imageDataManager.getTagRecordIds([tag], false);
+    const withDescendants = this.imageDataManager.getTagRecordIds([tag]).length;
+    this.previewEl.createEl('h4', { text: `${tag} (${ids.length})` });
+    if (withDescendants > ids.length) {
+      this.previewEl.createDiv({
+        cls: 'tag-manager-preview-note',
+        text: `另有 ${withDescendants - ids.length} 条记录只带有其子标签，重命名或合并时一并修改`
+      });
+    }
+
+    const list = this.previewEl.createDiv({ cls: 'tag-manager-preview-list' });
+    for (const id of ids.slice(0, TAG_PREVIEW_LIMIT)) {
+      const mediaData = this.imageDataManager.getImageData(id);
+      if (!mediaData) continue;
+
+      const item = list.createDiv({ cls: 'tag-manager-preview-item', attr: { title: mediaData.path } });
+      const thumbnail = item.createDiv({ cls: 'tag-manager-preview-thumbnail' });
+      if (mediaData.type === 'image') {
+        this.plugin.thumbnails.loadImage(thumbnail.createEl('img'), mediaData.path, this.plugin.settings.thumbnailSize);
+      } else if (mediaData.type === 'video') {
+        setIcon(thumbnail, 'film');
+        const { thumbnailSize, videoPosterTime } = this.plugin.settings;
+        this.plugin.thumbnails.getPoster(mediaData.path, thumbnailSize, videoPosterTime).then(poster => {
+          if (!poster) return;
+          thumbnail.empty();
+          thumbnail.createEl('img', { attr: { src: poster.url } });
+        });
+      } else {
+        setIcon(thumbnail, 'music');
+      }
+      item.createDiv({ cls: 'tag-manager-preview-title', text: mediaData.title || mediaData.originalName });
+
+      item.addEventListener('click', async () => {
+        const file = this.app.vault.getAbstractFileByPath(mediaData.path);
+        if (file instanceof TFile) {
+          await this.app.workspace.getLeaf(true).openFile(file);
+        }
+      });
+    }
+    if (ids.length > TAG_PREVIEW_LIMIT) {
+      list.createDiv({ cls: 'tag-manager-preview-note', text: `仅显示前 ${TAG_PREVIEW_LIMIT} 条` });
+    }
+  }
+
+  private promptRename(tag: string) {
+    new TagNameModal(this.app, {
+      title: `重命名标签“${tag}”`,
+      description: '子标签随之重命名；新名称已存在时合并到该标签',
+      value: tag,
+      submitText: '重命名',
+      getTags: () => this.getTagNames()
+    }, async (value) => {
+      const target = this.plugin.tagRegistry.resolve(value);
+      if (!target || target === tag) return;
+
+      const merged = this.imageDataManager.getTagCount(target) > 0;
+      const changed = await this.applyOperation(`重命名标签“${tag}”`, [tag], () => {
+        this.moveTagDefinitions([tag], target);
+        return this.imageDataManager.renameTags([tag], target);
+      });
+      this.replaceTagState([tag], target);
+      new Notice(merged
+        ? `已将“${tag}”合并到“${target}”，修改了 ${changed} 条记录`
+        : `已将“${tag}”重命名为“${target}”，修改了 ${changed} 条记录`);
+    }).open();
+  }
+
+  private promptMerge(tags: string[]) {
+    if (tags.length < 2) return;
+    new TagNameModal(this.app, {
+      title: `合并 ${tags.length} 个标签`,
+      description: `将 ${tags.join('、')} 合并为以下标签，子标签随之移动`,
+      value: tags[0],
+      submitText: '合并',
+      getTags: () => this.getTagNames()
+    }, async (value) => {
+      const target = this.plugin.tagRegistry.resolve(value);
+      if (!target) return;
+
+      const changed = await this.applyOperation('合并标签', tags, () => {
+        this.moveTagDefinitions(tags, target);
+        return this.imageDataManager.renameTags(tags, target);
+      });
+      this.replaceTagState(tags, target);
+      new Notice(`已将 ${tags.length} 个标签合并为“${target}”，修改了 ${changed} 条记录`);
+    }).open();
+  }
+
+  private promptSplit(tag: string) {
+    new TagNameModal(this.app, {
+      title: `拆分标签“${tag}”`,
+      description: '输入替换该标签的多个标签，用逗号分隔；子标签不受影响',
+      multiple: true,
+      submitText: '拆分',
+      getTags: () => this.getTagNames()
+    }, async (value) => {
+      const targets = value.split(',')
+        .map(item => this.plugin.tagRegistry.resolve(item))
+        .filter(item => item.length > 0);
+      if (targets.length === 0) return;
+
+      const changed = await this.applyOperation(`拆分标签“${tag}”`, [tag], () =>
+        this.imageDataManager.splitTag(tag, targets)
+      );
+      this.replaceTagState([tag], null);
+      new Notice(`已将“${tag}”拆分为 ${targets.join('、')}，修改了 ${changed} 条记录`);
+    }).open();
+  }
+
+  private confirmDelete(tag: string, count: number) {
+    new ConfirmModal(this.app, {
+      title: `删除标签“${tag}”`,
+      message: `从 ${count} 条记录中删除标签“${tag}”？子标签不受影响，删除后可撤销。`,
+      confirmText: '删除',
+      warning: true
+    }, async () => {
+      const changed = await this.applyOperation(`删除标签“${tag}”`, [tag], () =>
+        this.imageDataManager.deleteTag(tag)
+      );
+      this.replaceTagState([tag], null);
+      new Notice(`已从 ${changed} 条记录中删除标签“${tag}”`);
+    }).open();
+  }
+
+  /**
+   * 作为一次可撤销的编辑执行标签操作并保存一次
+   * @param tags - 操作涉及的标签（含子标签的记录都会被记录到编辑历史）
+   * @returns 修改的记录数
+   */
+  private async applyOperation(label: string, tags: string[], operation: () => number): Promise<number> {
+    const ids = this.imageDataManager.getTagRecordIds(tags);
+    let changed = 0;
+    // 重命名、合并时标签定义随之移动，撤销时一并恢复
+    const recorded = this.plugin.editHistory.run(label, ids, () => {
+      changed = operation();
+    }, true);
+    if (recorded) {
+      await this.plugin.saveDataToFile();
+    }
+    return changed;
+  }
+
+  // 标签的别名、颜色、图标和说明随标签移动，与记录一起保存
+  private moveTagDefinitions(tags: string[], target: string) {
+    const definitions = this.imageDataManager.getTagDefinitions();
+    this.imageDataManager.setTagDefinitions(TagRegistry.renameDefinitions(definitions, tags, target));
+  }
+
+  // 操作后更新勾选和预览状态
+  private replaceTagState(tags: string[], target: string | null) {
+    tags.forEach(tag => this.selected.delete(tag));
+    if (this.previewTag && tags.includes(this.previewTag)) {
+      this.previewTag = target;
+    }
+    this.render();
+  }
+
+  private getTagNames(): string[] {
+    return this.imageDataManager.getAllTags().map(tagInfo => tagInfo.tag);
+  }
+}
@@ -0,0 +1,66 @@
+import { App, Modal, Setting } from 'obsidian';
+import { TagHierarchy } from './tag-hierarchy';
+
+export interface TagNameModalOptions {
+  title: string;
+  description: string;
+  value?: string;           // 输入框的初始内容
+  multiple?: boolean;       // 是否输入多个用逗号分隔的标签
+  submitText: string;
+  getTags: () => string[];  // 自动补全使用的已有标签
+}
+
+/**
+ * 标签名称输入对话框
+ * 用于重命名、合并和拆分标签，输入时按层级自动补全
+ */
+export class TagNameModal extends Modal {
+  private options: TagNameModalOptions;
+  private onSubmit: (value: string) => void;
+
+  constructor(app: App, options: TagNameModalOptions, onSubmit: (value: string) => void) {
+    super(app);
+    this.options = options;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl, options } = this;
+    this.titleEl.setText(options.title);
+    contentEl.addClass('tag-name-modal');
+    contentEl.createEl('p', { cls: 'tag-name-modal-description', text: options.description });
+
+    const inputContainer = contentEl.createDiv({ cls: 'tag-name-modal-input' });
+    const input = inputContainer.createEl('input', { type: 'text', value: options.value || '' });
+    TagHierarchy.attachAutocomplete(input, inputContainer, options.getTags, options.multiple);
+    // 自动补全已处理的回车（选择候选项）不提交
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.defaultPrevented) {
+        e.preventDefault();
+        this.submit(input.value);
+      }
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('取消')
+        .onClick(() => this.close()))
+      .addButton(button => button
+        .setButtonText(options.submitText)
+        .setCta()
+        .onClick(() => this.submit(input.value)));
+
+    input.focus();
+    input.select();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private submit(value: string) {
+    if (!value.trim()) return;
+    this.close();
+    this.onSubmit(value);
+  }
+}
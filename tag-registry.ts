@@ -0,0 +1,226 @@
+/**
+ * 标签注册表
+ * 标准标签可以声明别名（例如 cat 的别名 cats、猫），输入别名时保存为标准标签，搜索别名时匹配标准标签
+ * 标签还可以设置颜色、图标和说明，用于图库卡片、媒体信息面板、侧边栏和批量标签对话框中的标签显示
+ */
+import { setIcon } from 'obsidian';
+import { TagDefinition } from './image-data-model';
+import { TagHierarchy } from './tag-hierarchy';
+import { Logger } from './logger';
+
+// 标签的显示外观
+export interface TagAppearance {
+  color?: string;
+  icon?: string;
+  description?: string;
+}
+
+// 可修改的标签定义字段
+export type TagDefinitionChanges = Partial<Omit<TagDefinition, 'tag'>>;
+
+export class TagRegistry {
+  private getDefinitions: () => TagDefinition[];
+  private saveDefinitions: (definitions: TagDefinition[]) => Promise<void>;
+  private aliasMap: Map<string, string> | null = null; // 小写别名 -> 标准标签（按需构建）
+  private definitionMap: Map<string, TagDefinition> | null = null; // 标准标签 -> 定义（按需构建）
+
+  constructor(getDefinitions: () => TagDefinition[], saveDefinitions: (definitions: TagDefinition[]) => Promise<void>) {
+    this.getDefinitions = getDefinitions;
+    this.saveDefinitions = saveDefinitions;
+  }
+
+  /**
+   * 标签定义修改后调用，下次使用时重新构建别名表
+   */
+  refresh() {
+    this.aliasMap = null;
+    this.definitionMap = null;
+  }
+
+  /**
+   * 将输入的标签转换为标准标签（不区分大小写）
+   * 别名的子标签转换为标准标签下的同名子标签，例如 cats/persian -> cat/persian
+   */
+  resolve(tag: string): string {
+    const normalized = TagHierarchy.normalize(tag);
+    const aliases = this.getAliasMap();
+    if (!normalized || aliases.size === 0) return normalized;
+
+    const lineage = TagHierarchy.getLineage(normalized);
+    for (let i = lineage.length - 1; i >= 0; i--) {
+      const canonical = aliases.get(lineage[i].toLowerCase());
+      if (canonical !== undefined) {
+        return canonical + normalized.substring(lineage[i].length);
+      }
+    }
+    return normalized;
+  }
+
+  /**
+   * 别名包含该片段的标准标签（片段应为小写）
+   */
+  findByAlias(fragment: string): string[] {
+    const tags = new Set<string>();
+    for (const [alias, canonical] of this.getAliasMap()) {
+      if (alias.includes(fragment)) tags.add(canonical);
+    }
+    return Array.from(tags);
+  }
+
+  getDefinition(tag: string): TagDefinition | undefined {
+    return this.getDefinitionMap().get(tag);
+  }
+
+  /**
+   * 标签的外观：颜色和图标未设置时沿用最近的上级标签，说明只取标签自身的
+   */
+  getAppearance(tag: string): TagAppearance {
+    const definitions = this.getDefinitionMap();
+    const appearance: TagAppearance = { description: definitions.get(tag)?.description };
+    for (const path of TagHierarchy.getLineage(tag).reverse()) {
+      const definition = definitions.get(path);
+      if (!definition) continue;
+      appearance.color = appearance.color || definition.color;
+      appearance.icon = appearance.icon || definition.icon;
+    }
+    return appearance;
+  }
+
+  /**
+   * 为标签元素设置颜色、图标和说明（悬停提示）
+   */
+  decorate(el: HTMLElement, tag: string) {
+    TagRegistry.applyAppearance(el, this.getAppearance(tag));
+  }
+
+  /**
+   * 修改标签定义并保存；定义不存在时创建，清空所有内容后删除
+   */
+  async update(tag: string, changes: TagDefinitionChanges) {
+    const definitions = [...this.getDefinitions()];
+    const index = definitions.findIndex(definition => definition.tag === tag);
+    const definition: TagDefinition = { ...(index >= 0 ? definitions[index] : { tag, aliases: [] }), ...changes };
+    for (const key of ['color', 'icon', 'description'] as const) {
+      if (!definition[key]) delete definition[key];
+    }
+
+    const isEmpty = definition.aliases.length === 0 && !definition.color && !definition.icon && !definition.description;
+    if (index >= 0) {
+      definitions.splice(index, 1, ...(isEmpty ? [] : [definition]));
+    } else if (!isEmpty) {
+      definitions.push(definition);
+    }
+
+    await this.saveDefinitions(definitions);
+    this.refresh();
+  }
+
+  /**
+   * 重命名或合并标签后移动标签定义（含子标签的定义）
+   * 目标标签已有定义时合并：别名取并集，颜色、图标和说明以目标已有的为准
+   * @returns 新的定义列表
+   */
+  static renameDefinitions(definitions: TagDefinition[], sources: string[], target: string): TagDefinition[] {
+    // 与 ImageDataManager.renameTags 一致，优先匹配更深的层级
+    const ordered = [...sources].sort((a, b) => b.length - a.length);
+    const result: TagDefinition[] = [];
+    const moved: TagDefinition[] = [];
+    for (const definition of definitions) {
+      const source = ordered.find(item => TagHierarchy.isWithin(definition.tag, item));
+      if (source === undefined) {
+        result.push(definition);
+      } else {
+        moved.push({ ...definition, tag: target + definition.tag.substring(source.length) });
+      }
+    }
+
+    for (const definition of moved) {
+      const index = result.findIndex(item => item.tag === definition.tag);
+      if (index < 0) {
+        result.push(definition);
+        continue;
+      }
+      const existing = result[index];
+      result[index] = {
+        ...definition,
+        ...existing,
+        aliases: Array.from(new Set([...existing.aliases, ...definition.aliases]))
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 按外观设置元素样式：颜色通过 CSS 变量 --tag-color / --tag-text-color 提供，图标插入到文字之前
+   */
+  static applyAppearance(el: HTMLElement, appearance: TagAppearance) {
+    el.toggleClass('has-tag-color', !!appearance.color);
+    if (appearance.color) {
+      el.style.setProperty('--tag-color', appearance.color);
+      el.style.setProperty('--tag-text-color', TagRegistry.getTextColor(appearance.color));
+    } else {
+      el.style.removeProperty('--tag-color');
+      el.style.removeProperty('--tag-text-color');
+    }
+
+    el.querySelector(':scope > .tag-icon')?.remove();
+    if (appearance.icon) {
+      const iconEl = createSpan({ cls: 'tag-icon' });
+      setIcon(iconEl, appearance.icon);
+      el.prepend(iconEl);
+    }
+
+    if (appearance.description) {
+      el.setAttribute('title', appearance.description);
+    } else {
+      el.removeAttribute('title');
+    }
+  }
+
+  // 按背景色亮度选择黑色或白色文字
+  private static getTextColor(color: string): string {
+    let hex = color.replace('#', '');
+    if (hex.length === 3) {
+      hex = hex.split('').map(char => char + char).join('');
+    }
+    const value = parseInt(hex, 16);
+    if (hex.length !== 6 || isNaN(value)) return 'white';
+
+    const r = (value >> 16) & 0xff;
+    const g = (value >> 8) & 0xff;
+    const b = value & 0xff;
+    return (0.299 * r + 0.587 * g + 0.114 * b) / 255 > 0.6 ? 'black' : 'white';
+  }
+
+  private getDefinitionMap(): Map<string, TagDefinition> {
+    if (!this.definitionMap) {
+      this.definitionMap = new Map(this.getDefinitions().map(definition => [definition.tag, definition]));
+    }
+    return this.definitionMap;
+  }
+
+  private getAliasMap(): Map<string, string> {
+    if (this.aliasMap) return this.aliasMap;
+
+    const aliasMap = new Map<string, string>();
+    for (const definition of this.getDefinitions()) {
+      const canonical = TagHierarchy.normalize(definition.tag);
+      if (!canonical) continue;
+
+      for (const alias of definition.aliases) {
+        const key = TagHierarchy.normalize(alias).toLowerCase();
+        if (!key || key === canonical.toLowerCase()) continue;
+
+        const existing = aliasMap.get(key);
+        if (existing !== undefined && existing !== canonical) {
+          Logger.warn(`标签别名“${alias}”同时属于“${existing}”和“${canonical}”，使用前者`);
+          continue;
+        }
+        aliasMap.set(key, canonical);
+      }
+    }
+
+    this.aliasMap = aliasMap;
+    return aliasMap;
+  }
+}
@@ -0,0 +1,540 @@
+/**
+ * 缩略图服务
+ * 用画布把图片缩小到指定尺寸，从视频中截取封面和悬停预览帧，保存在插件目录下的缓存文件夹中；
+ * 缓存文件按源文件路径、修改时间和大小命名，源文件被修改、重命名或删除时删除对应的缩略图；
+ * 缓存总大小超过上限时删除最久未使用的缩略图
+ */
+import { App, TFile, normalizePath } from 'obsidian';
+import { Logger } from './logger';
+import { getSafeImagePath } from './utils';
+import { THUMBNAIL_INDEX_FILE, THUMBNAIL_QUALITY, THUMBNAIL_CONCURRENCY, THUMBNAIL_INDEX_SAVE_DELAY, VIDEO_SCRUB_FRAMES, VIDEO_FRAME_TIMEOUT } from './constants';
+
+export interface ThumbnailServiceOptions {
+  getCacheFolder: () => string;      // 缓存文件夹（插件目录下）
+  getMaxCacheSize: () => number;     // 缓存总大小上限（字节）
+  isEnabled: () => boolean;          // 关闭时直接使用原图
+}
+
+// 视频封面
+export interface VideoPoster {
+  url: string;
+  width: number;        // 视频画面的原始宽高
+  height: number;
+  duration: number;     // 时长（秒）
+}
+
+// 视频的悬停预览帧，按时间顺序横向拼接在一张图片中
+export interface VideoFrames {
+  url: string;
+  count: number;
+  frameWidth: number;   // 单帧宽高（像素）
+  frameHeight: number;
+}
+
+// 缓存索引中的一项
+interface ThumbnailEntry {
+  source: string;       // 源文件路径
+  size: number;         // 缩略图最长边（像素）
+  bytes: number;        // 缩略图文件大小；0 表示不使用缩略图（原图不大于该尺寸或视频没有画面）
+  lastUsed: number;     // 最近使用时间，用于淘汰
+  width?: number;       // 视频画面的原始宽高、时长和拼接的帧数
+  height?: number;
+  duration?: number;
+  frames?: number;
+}
+
+// 生成结果；blob 为 null 表示不使用缩略图
+type RenderedThumbnail = { blob: Blob | null } & Pick<ThumbnailEntry, 'width' | 'height' | 'duration' | 'frames'>;
+
+interface ThumbnailIndex {
+  version: number;
+  entries: Record<string, ThumbnailEntry>;
+}
+
+// 可以缩小的位图格式；SVG 本身很小，GIF 缩小后会丢失动画，均使用原图
+const THUMBNAIL_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'bmp', 'avif'];
+
+// 可以截取画面的视频格式（需要 Obsidian 内置的浏览器能够解码）
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'webm', 'mov', 'mkv', 'ogv'];
+
+export class ThumbnailService {
+  private app: App;
+  private options: ThumbnailServiceOptions;
+  private entries: Map<string, ThumbnailEntry> = new Map();   // 缓存文件名 -> 索引项
+  private pending: Map<string, Promise<ThumbnailEntry | null>> = new Map();
+  private failed: Map<string, string> = new Map();   // 本次运行中生成或写入出错的缓存文件名 -> 源文件路径，不写入索引
+  private loading: Promise<void> | null = null;
+  private waiting: Array<() => void> = [];
+  private active = 0;
+  private saveTimer: number | null = null;
+  private generation = 0;   // 清空缓存后递增，丢弃清空前开始的生成结果
+
+  constructor(app: App, options: ThumbnailServiceOptions) {
+    this.app = app;
+    this.options = options;
+  }
+
+  static canGenerate(file: TFile): boolean {
+    return THUMBNAIL_EXTENSIONS.includes(file.extension.toLowerCase());
+  }
+
+  static canCaptureVideo(file: TFile): boolean {
+    return VIDEO_EXTENSIONS.includes(file.extension.toLowerCase());
+  }
+
+  /**
+   * 获取图片的显示地址：有缩略图时返回缩略图，否则（未启用、格式不支持、原图较小或生成失败）返回原图
+   * @param size - 缩略图最长边（像素）
+   */
+  async getUrl(path: string, size: number): Promise<string> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile) || !this.options.isEnabled() || !ThumbnailService.canGenerate(file)) {
+      return getSafeImagePath(this.app, path);
+    }
+    try {
+      const cachePath = await this.getThumbnailPath(file, size);
+      if (cachePath) return this.app.vault.adapter.getResourcePath(cachePath);
+    } catch (error) {
+      Logger.warn(`生成缩略图失败: ${path}`, error);
+    }
+    return getSafeImagePath(this.app, path);
+  }
+
+  /**
+   * 为 img 元素加载缩略图；加载完成前元素被复用（请求已改变或被取消）时不再设置地址
+   */
+  async loadImage(img: HTMLImageElement, path: string, size: number) {
+    const request = `${size}:${path}`;
+    img.dataset.thumbnailRequest = request;
+    const url = await this.getUrl(path, size);
+    if (img.dataset.thumbnailRequest === request) {
+      img.src = url;
+    }
+  }
+
+  /**
+   * 为 img 元素加载视频封面，规则与 loadImage 相同
+   * @returns 封面信息；无法截取或元素已被复用时返回 null
+   */
+  async loadPoster(img: HTMLImageElement, path: string, size: number, time: number): Promise<VideoPoster | null> {
+    const request = `${size}:${time}:${path}`;
+    img.dataset.thumbnailRequest = request;
+    const poster = await this.getPoster(path, size, time);
+    if (img.dataset.thumbnailRequest !== request || !poster) return null;
+    img.src = poster.url;
+    return poster;
+  }
+
+  // 取消 loadImage、loadPoster 中尚未完成的请求
+  cancelImage(img: HTMLImageElement) {
+    delete img.dataset.thumbnailRequest;
+  }
+
+  /**
+   * 缩略图在缓存中的路径；原图不大于该尺寸时返回 null
+   */
+  async getThumbnailPath(file: TFile, size: number): Promise<string | null> {
+    const name = this.getCacheName(file, `${size}`);
+    const entry = await this.getEntry(file, name, size, () => this.renderImage(file, size));
+    return entry && entry.bytes > 0 ? this.getCachePath(name) : null;
+  }
+
+  /**
+   * 视频封面：在指定时间点截取一帧（视频较短时取中间）
+   * 封面是卡片中视频的唯一预览，因此不受“使用缩略图”设置影响
+   * @param time - 截取的时间点（秒）
+   */
+  async getPoster(path: string, size: number, time: number): Promise<VideoPoster | null> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile) || !ThumbnailService.canCaptureVideo(file)) return null;
+    const name = this.getCacheName(file, `${size}-poster-${time}`);
+    const entry = await this.getVideoEntry(file, name, size, () => this.renderVideoFrames(file, size, duration => [Math.min(time, duration / 2)]));
+    if (!entry || entry.bytes === 0) return null;
+    return {
+      url: this.app.vault.adapter.getResourcePath(this.getCachePath(name)),
+      width: entry.width ?? 0,
+      height: entry.height ?? 0,
+      duration: entry.duration ?? 0
+    };
+  }
+
+  /**
+   * 视频的悬停预览帧：在整个时长内均匀截取若干帧
+   */
+  async getFrames(path: string, size: number): Promise<VideoFrames | null> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile) || !ThumbnailService.canCaptureVideo(file)) return null;
+    const name = this.getCacheName(file, `${size}-frames`);
+    const entry = await this.getVideoEntry(file, name, size, () => this.renderVideoFrames(file, size, duration =>
+      Array.from({ length: VIDEO_SCRUB_FRAMES }, (_, index) => duration * (index + 0.5) / VIDEO_SCRUB_FRAMES)));
+    if (!entry || entry.bytes === 0 || !entry.width || !entry.height) return null;
+    const frame = ThumbnailService.fit(entry.width, entry.height, size);
+    return {
+      url: this.app.vault.adapter.getResourcePath(this.getCachePath(name)),
+      count: entry.frames ?? 1,
+      frameWidth: frame.width,
+      frameHeight: frame.height
+    };
+  }
+
+  /**
+   * 读取或生成缓存项；同一缓存项同时只生成一次。生成或写入出错（超时、读取失败、磁盘写入失败等）时不写入缓存，
+   * 本次运行中不再重试，重新启动、源文件变化或重建缓存后再生成
+   * @returns 缓存项；生成出错、生成完成前缓存被清空或立即被淘汰时返回 null
+   */
+  private async getEntry(file: TFile, name: string, size: number, render: () => Promise<RenderedThumbnail>): Promise<ThumbnailEntry | null> {
+    await this.load();
+    const entry = this.entries.get(name);
+    if (entry && entry.source === file.path) {
+      entry.lastUsed = Date.now();
+      this.scheduleSave();
+      return entry;
+    }
+    if (this.failed.get(name) === file.path) return null;
+
+    let task = this.pending.get(name);
+    if (!task) {
+      task = this.runLimited(() => this.generate(file, name, size, render));
+      this.pending.set(name, task);
+      task.then(() => this.pending.delete(name), () => this.pending.delete(name));
+    }
+    return task;
+  }
+
+  // 视频封面和预览帧的调用方不等待结果的异常，出错时按无法截取处理
+  private async getVideoEntry(file: TFile, name: string, size: number, render: () => Promise<RenderedThumbnail>): Promise<ThumbnailEntry | null> {
+    try {
+      return await this.getEntry(file, name, size, render);
+    } catch (error) {
+      Logger.warn(`截取视频画面失败: ${file.path}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 删除源文件的所有缩略图（源文件被修改、重命名或删除时调用）
+   */
+  async invalidate(path: string) {
+    await this.load();
+    for (const [name, source] of this.failed) {
+      if (source === path) this.failed.delete(name);
+    }
+    const names = Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.source === path)
+      .map(([name]) => name);
+    if (names.length === 0) return;
+    await Promise.all(names.map(name => this.removeEntry(name)));
+    this.scheduleSave();
+  }
+
+  /**
+   * 清空缓存后重新生成图片缩略图和视频封面
+   * @param posterTime - 视频封面的时间点（秒）
+   * @returns 生成的缩略图数量
+   */
+  async rebuild(files: TFile[], size: number, posterTime: number, onProgress?: (done: number, total: number) => void): Promise<number> {
+    await this.clear();
+    const targets = files.filter(file => ThumbnailService.canGenerate(file) || ThumbnailService.canCaptureVideo(file));
+    let done = 0;
+    let created = 0;
+    // 分批生成，避免一次为整个库创建请求
+    for (let start = 0; start < targets.length; start += THUMBNAIL_CONCURRENCY) {
+      await Promise.all(targets.slice(start, start + THUMBNAIL_CONCURRENCY).map(async file => {
+        try {
+          const result = ThumbnailService.canGenerate(file)
+            ? await this.getThumbnailPath(file, size)
+            : await this.getPoster(file.path, size, posterTime);
+          if (result) created++;
+        } catch (error) {
+          Logger.warn(`生成缩略图失败: ${file.path}`, error);
+        }
+        onProgress?.(++done, targets.length);
+      }));
+    }
+    await this.flush();
+    return created;
+  }
+
+  // 删除所有缩略图
+  async clear() {
+    await this.load();
+    this.generation++;
+    const adapter = this.app.vault.adapter;
+    const folder = this.getFolder();
+    if (await adapter.exists(folder)) {
+      await adapter.rmdir(folder, true);
+    }
+    this.entries.clear();
+    this.failed.clear();
+    await this.flush();
+  }
+
+  // 缓存总大小（字节）
+  getCacheSize(): number {
+    let total = 0;
+    for (const entry of this.entries.values()) total += entry.bytes;
+    return total;
+  }
+
+  // 立即写入缓存索引
+  async flush() {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.loading) return;
+    const index: ThumbnailIndex = { version: 1, entries: Object.fromEntries(this.entries) };
+    try {
+      await this.ensureFolder();
+      await this.app.vault.adapter.write(this.getCachePath(THUMBNAIL_INDEX_FILE), JSON.stringify(index));
+    } catch (error) {
+      Logger.warn('保存缩略图索引失败:', error);
+    }
+  }
+
+  // 第一次使用时读取索引，并与缓存文件夹中实际存在的文件对照
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readIndex();
+    }
+    return this.loading;
+  }
+
+  private async readIndex() {
+    const adapter = this.app.vault.adapter;
+    const folder = this.getFolder();
+    try {
+      if (!(await adapter.exists(folder))) return;
+      const indexPath = this.getCachePath(THUMBNAIL_INDEX_FILE);
+      if (await adapter.exists(indexPath)) {
+        const index = JSON.parse(await adapter.read(indexPath)) as ThumbnailIndex;
+        for (const [name, entry] of Object.entries(index.entries || {})) {
+          this.entries.set(name, entry);
+        }
+      }
+
+      const listed = await adapter.list(folder);
+      const files = new Set(listed.files.map(path => path.substring(path.lastIndexOf('/') + 1)));
+      for (const [name, entry] of this.entries) {
+        if (entry.bytes > 0 && !files.has(name)) this.entries.delete(name);
+      }
+      // 删除索引中没有记录的缩略图（例如写入索引前被关闭）
+      for (const name of files) {
+        if (name !== THUMBNAIL_INDEX_FILE && !this.entries.has(name)) {
+          await adapter.remove(this.getCachePath(name));
+        }
+      }
+    } catch (error) {
+      Logger.warn('读取缩略图缓存失败，将重新生成:', error);
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * 生成缩略图并写入缓存；只有确定不需要缩略图的结果（原图不大于该尺寸、视频没有画面）记录为 bytes 为 0，
+   * 出错时只在本次运行中跳过
+   */
+  private async generate(file: TFile, name: string, size: number, render: () => Promise<RenderedThumbnail>): Promise<ThumbnailEntry | null> {
+    const generation = this.generation;
+    let rendered: RenderedThumbnail;
+    try {
+      rendered = await render();
+    } catch (error) {
+      Logger.warn(`生成缩略图失败: ${file.path}`, error);
+      if (generation === this.generation) this.failed.set(name, file.path);
+      return null;
+    }
+
+    if (generation !== this.generation) return null;
+    const { blob, ...metadata } = rendered;
+    if (blob) {
+      try {
+        await this.ensureFolder();
+        await this.app.vault.adapter.writeBinary(this.getCachePath(name), await blob.arrayBuffer());
+      } catch (error) {
+        Logger.warn(`写入缩略图失败: ${file.path}`, error);
+        if (generation === this.generation) this.failed.set(name, file.path);
+        return null;
+      }
+    }
+    const entry: ThumbnailEntry = { source: file.path, size, bytes: blob ? blob.size : 0, lastUsed: Date.now(), ...metadata };
+    this.entries.set(name, entry);
+    await this.evict();
+    this.scheduleSave();
+    return this.entries.has(name) ? entry : null;
+  }
+
+  // 解码原图并按最长边缩小
+  private async renderImage(file: TFile, size: number): Promise<RenderedThumbnail> {
+    const data = await this.app.vault.readBinary(file);
+    const bitmap = await createImageBitmap(new Blob([data]));
+    try {
+      if (Math.max(bitmap.width, bitmap.height) <= size) return { blob: null };
+      const { width, height } = ThumbnailService.fit(bitmap.width, bitmap.height, size);
+      const canvas = ThumbnailService.createCanvas(width, height);
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+      return { blob: await ThumbnailService.encode(canvas) };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * 在视频的若干时间点截取画面，按最长边缩小后横向拼接
+   * @param getTimes - 按视频时长（秒）计算截取的时间点
+   */
+  private async renderVideoFrames(file: TFile, size: number, getTimes: (duration: number) => number[]): Promise<RenderedThumbnail> {
+    const video = createEl('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = this.app.vault.getResourcePath(file);
+    try {
+      await ThumbnailService.waitFor(video, 'loadeddata');
+      const duration = isFinite(video.duration) ? video.duration : 0;
+      if (!video.videoWidth || !video.videoHeight) return { blob: null };   // 纯音频等没有画面的文件
+      const { width, height } = ThumbnailService.fit(video.videoWidth, video.videoHeight, size);
+      const times = getTimes(duration);
+      const canvas = ThumbnailService.createCanvas(width * times.length, height);
+      const context = canvas.getContext('2d');
+      for (let index = 0; index < times.length; index++) {
+        video.currentTime = times[index];
+        await ThumbnailService.waitFor(video, 'seeked');
+        context?.drawImage(video, index * width, 0, width, height);
+      }
+      return {
+        blob: await ThumbnailService.encode(canvas),
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration,
+        frames: times.length
+      };
+    } finally {
+      video.removeAttribute('src');
+      video.load();
+    }
+  }
+
+  // 等待视频事件，出错或超时时抛出异常
+  private static waitFor(video: HTMLVideoElement, event: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const finish = (error?: Error) => {
+        window.clearTimeout(timer);
+        video.removeEventListener(event, onEvent);
+        video.removeEventListener('error', onError);
+        if (error) reject(error); else resolve();
+      };
+      const onEvent = () => finish();
+      const onError = () => finish(new Error('无法解码视频'));
+      const timer = window.setTimeout(() => finish(new Error(`等待视频 ${event} 事件超时`)), VIDEO_FRAME_TIMEOUT);
+      video.addEventListener(event, onEvent);
+      video.addEventListener('error', onError);
+    });
+  }
+
+  // 按最长边缩小后的宽高（不放大）
+  private static fit(width: number, height: number, size: number): { width: number; height: number } {
+    const scale = Math.min(1, size / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+  }
+
+  private static createCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = createEl('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('无法创建画布');
+    context.imageSmoothingQuality = 'high';
+    return canvas;
+  }
+
+  private static async encode(canvas: HTMLCanvasElement): Promise<Blob> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', THUMBNAIL_QUALITY));
+    if (!blob) throw new Error('无法编码缩略图');
+    return blob;
+  }
+
+  // 缓存超过上限时按最近使用时间删除最旧的缩略图
+  private async evict() {
+    const limit = this.options.getMaxCacheSize();
+    let total = this.getCacheSize();
+    if (total <= limit) return;
+    const oldest = Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.bytes > 0)
+      .sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+    for (const [name, entry] of oldest) {
+      if (total <= limit) break;
+      total -= entry.bytes;
+      await this.removeEntry(name);
+    }
+  }
+
+  private async removeEntry(name: string) {
+    const entry = this.entries.get(name);
+    this.entries.delete(name);
+    if (!entry || entry.bytes === 0) return;
+    try {
+      await this.app.vault.adapter.remove(this.getCachePath(name));
+    } catch (error) {
+      Logger.debug(`删除缩略图失败: ${name}`, error);
+    }
+  }
+
+  // 限制同时解码的图片数量
+  private async runLimited<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= THUMBNAIL_CONCURRENCY) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer !== null) return;
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, THUMBNAIL_INDEX_SAVE_DELAY);
+  }
+
+  // 文件名由源文件路径、修改时间和大小决定，源文件变化后自然不再命中
+  // variant 区分同一文件的不同缩略图（尺寸、封面时间点、预览帧）
+  private getCacheName(file: TFile, variant: string): string {
+    const key = `${file.path}\n${file.stat.mtime}\n${file.stat.size}`;
+    return `${ThumbnailService.hash(key).toString(36)}-${file.stat.mtime.toString(36)}-${variant}.webp`;
+  }
+
+  private getFolder(): string {
+    return normalizePath(this.options.getCacheFolder());
+  }
+
+  private getCachePath(name: string): string {
+    return `${this.getFolder()}/${name}`;
+  }
+
+  // 逐级创建缓存文件夹
+  private async ensureFolder() {
+    const adapter = this.app.vault.adapter;
+    let current = '';
+    for (const part of this.getFolder().split('/')) {
+      current = current ? `${current}/${part}` : part;
+      if (!(await adapter.exists(current))) {
+        await adapter.mkdir(current);
+      }
+    }
+  }
+
+  // 32 位 FNV-1a 哈希
+  private static hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
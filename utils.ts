@@ -3,6 +3,11 @@ import { ImageDataManager, ImageTaggingSettings, MediaData } from './image-data-
 import { Logger } from './logger';
 import { ErrorHandler, ImageTaggingError } from './error-handler';
 import { ImageCacheManager } from './image-cache-manager';
+import { RelinkResult } from './media-fingerprint';
+import { MediaRecordFactory } from './media-record-factory';
+import { EditHistory } from './edit-history';
+import { TagRegistry } from './tag-registry';
+import { ThumbnailService } from './thumbnail-service';
 
 // 图片信息缓存
 interface CachedImageInfo {
@@ -78,35 +83,23 @@ export function getSafeImagePath(app: App, path: string | undefined | null): str
 export interface ImageTaggingPlugin {
   imageDataManager: ImageDataManager;
   settings: ImageTaggingSettings;
-  saveDataToFile(): Promise<void>;
+  recordFactory: MediaRecordFactory;
+  editHistory: EditHistory;
+  tagRegistry: TagRegistry;
+  thumbnails: ThumbnailService;
+  saveDataToFile(): Promise<boolean>;
   loadDataFromFile(): Promise<void>;
   saveSettings(): Promise<void>;
-}
-
-// 获取插件实例
-export function getImageTaggingPlugin(app: App): ImageTaggingPlugin | null {
-  try {
-    // 首先尝试标准方式获取
-    const plugins = (app as any).plugins as { [key: string]: ImageTaggingPlugin } | undefined;
-    if (plugins && plugins['image-tagging-obsidian']) {
-      return plugins['image-tagging-obsidian'];
-    }
-    
-    // 如果标准方式失败，尝试其他方式
-    // 检查插件是否在其他可能的位置
-    if ((app as any).plugins?.plugins) {
-      const allPlugins = (app as any).plugins.plugins;
-      if (allPlugins && allPlugins['image-tagging-obsidian']) {
-        return allPlugins['image-tagging-obsidian'] as ImageTaggingPlugin;
-      }
-    }
-    
-    // 如果仍然找不到，返回 null
-    return null;
-  } catch (error) {
-    console.error('获取插件实例时出错:', error);
-    return null;
-  }
+  relinkOrphanedRecords(files: TFile[]): Promise<RelinkResult>;
+  isAwaitingRelink(path: string): boolean;
+  getAwaitingRelinkIds(): ReadonlySet<string>;
+  undoEdit(): Promise<void>;
+  redoEdit(): Promise<void>;
+  openTagManager(): Promise<void>;
+  openAlbumView(albumId?: string): Promise<void>;
+  showAddToAlbumMenu(event: MouseEvent, mediaIds: string[]): void;
+  showTagMenu(event: MouseEvent, tag: string): void;
+  refreshCollections(): void;
 }
 
 /**
@@ -12,7 +12,7 @@ pkg.version = manifest.version;
 
 fs.writeFileSync('package.json', JSON.stringify(pkg, null, 2));
 
-// Also create versions.json if it doesn't exist
-const versions = {};
-versions[manifest.version] = 'version-bump-script';
+// Record the minimum app version for this release, keeping earlier entries
+const versions = fs.existsSync('versions.json') ? JSON.parse(fs.readFileSync('versions.json', 'utf8')) : {};
+versions[manifest.version] = manifest.minAppVersion;
 fs.writeFileSync('versions.json', JSON.stringify(versions, null, 2));
\ No newline at end of file
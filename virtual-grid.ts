@@ -0,0 +1,209 @@
+/**
+ * 虚拟滚动网格
+ * 只挂载可见区域及上下缓冲行中的单元格，移出的单元格回收后用于新进入的记录；
+ * 上下未挂载的行用网格的内边距占位，保持滚动条高度不变；单元格接近视口时才加载媒体
+ */
+import { Logger } from './logger';
+
+export interface VirtualGridOptions<T> {
+  getKey: (item: T) => string;
+  createCell: () => HTMLElement;                      // 新建空白单元格
+  renderCell: (cell: HTMLElement, item: T) => void;   // 将记录填入单元格（新挂载、复用或记录变化时）
+  loadCell?: (cell: HTMLElement) => void;             // 单元格接近视口时加载媒体
+  unloadCell?: (cell: HTMLElement) => void;           // 单元格移出或复用前释放媒体
+  minColumnWidth: number;                             // 与网格 CSS 中 minmax() 的最小宽度一致
+  gap: number;                                        // 与网格 CSS 中的 gap 一致
+  overscan?: number;                                  // 可见区域上下额外挂载的行数
+  loadMargin?: string;                                // 提前加载媒体的距离（IntersectionObserver 的 rootMargin）
+}
+
+// 回收池中最多保留的空闲单元格数
+const MAX_POOLED_CELLS = 200;
+
+export class VirtualGrid<T> {
+  private scrollEl: HTMLElement;
+  private gridEl: HTMLElement;
+  private options: VirtualGridOptions<T>;
+  private items: T[] = [];
+  private indexByKey: Map<string, number> = new Map();
+  private mounted: Map<string, { cell: HTMLElement; item: T }> = new Map();
+  private pool: HTMLElement[] = [];
+  private dirty: Set<string> = new Set();       // 需要重新填充的已挂载单元格
+  private loaded: WeakSet<HTMLElement> = new WeakSet();
+  private columns = 1;
+  private rowHeight = 0;                        // 行高（含间距），0 表示尚未测量
+  private frame: number | null = null;
+  private resizeObserver: ResizeObserver;
+  private intersectionObserver: IntersectionObserver;
+
+  constructor(scrollEl: HTMLElement, gridEl: HTMLElement, options: VirtualGridOptions<T>) {
+    this.scrollEl = scrollEl;
+    this.gridEl = gridEl;
+    this.options = options;
+
+    this.scrollEl.addEventListener('scroll', this.onScroll, { passive: true });
+    this.resizeObserver = new ResizeObserver(() => this.scheduleUpdate());
+    this.resizeObserver.observe(this.scrollEl);
+    this.intersectionObserver = new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        if (entry.isIntersecting) this.load(entry.target as HTMLElement);
+      }
+    }, { root: this.scrollEl, rootMargin: options.loadMargin ?? '200px 0px' });
+  }
+
+  /**
+   * 替换记录列表：仍在可见区域内的单元格原地保留，只挂载新进入的记录并调整顺序
+   */
+  setItems(items: T[]) {
+    this.items = items;
+    this.indexByKey = new Map(items.map((item, index) => [this.options.getKey(item), index]));
+    this.update();
+  }
+
+  getItems(): readonly T[] {
+    return this.items;
+  }
+
+  indexOf(key: string): number {
+    return this.indexByKey.get(key) ?? -1;
+  }
+
+  // 已挂载的单元格；记录不在可见区域时返回 undefined
+  getCell(key: string): HTMLElement | undefined {
+    return this.mounted.get(key)?.cell;
+  }
+
+  /**
+   * 标记记录已变化，已挂载的单元格在下次更新时重新填充
+   * @param keys - 省略时重新填充所有已挂载的单元格
+   */
+  invalidate(keys?: Iterable<string>) {
+    for (const key of keys ?? this.mounted.keys()) {
+      if (this.mounted.has(key)) this.dirty.add(key);
+    }
+    this.update();
+  }
+
+  destroy() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.scrollEl.removeEventListener('scroll', this.onScroll);
+    this.resizeObserver.disconnect();
+    this.intersectionObserver.disconnect();
+    this.mounted.clear();
+    this.pool = [];
+  }
+
+  private onScroll = () => this.scheduleUpdate();
+
+  private scheduleUpdate() {
+    if (this.frame !== null) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      this.update();
+    });
+  }
+
+  // 按滚动位置计算要挂载的范围，并同步单元格
+  private update() {
+    const { minColumnWidth, gap } = this.options;
+    const width = this.gridEl.clientWidth;
+    this.columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+    // 测量前按正方形卡片估算行高
+    const rowHeight = this.rowHeight || Math.max(minColumnWidth, (width - gap * (this.columns - 1)) / this.columns) + gap;
+
+    const rows = Math.ceil(this.items.length / this.columns);
+    const overscan = this.options.overscan ?? 2;
+    const offset = this.gridEl.getBoundingClientRect().top - this.scrollEl.getBoundingClientRect().top + this.scrollEl.scrollTop;
+    const top = this.scrollEl.scrollTop - offset;
+    const viewport = this.scrollEl.clientHeight;
+    const startRow = Math.min(rows, Math.max(0, Math.floor(top / rowHeight) - overscan));
+    const endRow = Math.min(rows, Math.max(startRow, Math.ceil((top + viewport) / rowHeight) + overscan));
+
+    this.gridEl.style.paddingTop = `${startRow * rowHeight}px`;
+    this.gridEl.style.paddingBottom = `${Math.max(0, (rows - endRow) * rowHeight - gap)}px`;
+    this.mountRange(startRow * this.columns, Math.min(this.items.length, endRow * this.columns));
+
+    // 按实际挂载的单元格测量行高，变化时重新计算范围
+    let measured = 0;
+    for (const { cell } of this.mounted.values()) {
+      measured = Math.max(measured, cell.offsetHeight);
+    }
+    if (measured > 0 && Math.abs(measured + gap - this.rowHeight) > 0.5) {
+      this.rowHeight = measured + gap;
+      this.scheduleUpdate();
+    }
+  }
+
+  private mountRange(start: number, end: number) {
+    const { getKey, renderCell } = this.options;
+    const cells: HTMLElement[] = [];
+    const next: Map<string, { cell: HTMLElement; item: T }> = new Map();
+
+    for (let index = start; index < end; index++) {
+      const item = this.items[index];
+      const key = getKey(item);
+      const existing = this.mounted.get(key);
+      let cell: HTMLElement;
+      if (existing) {
+        cell = existing.cell;
+        this.mounted.delete(key);
+        if (existing.item !== item || this.dirty.has(key)) {
+          this.render(cell, item);
+        }
+      } else {
+        cell = this.pool.pop() ?? this.options.createCell();
+        this.render(cell, item);
+      }
+      next.set(key, { cell, item });
+      cells.push(cell);
+    }
+
+    // 移出可见区域的单元格放回回收池
+    for (const { cell } of this.mounted.values()) {
+      this.release(cell);
+      cell.remove();
+      if (this.pool.length < MAX_POOLED_CELLS) this.pool.push(cell);
+    }
+    this.mounted = next;
+    this.dirty.clear();
+
+    // 只移动顺序不对的单元格
+    let child = this.gridEl.firstElementChild;
+    for (const cell of cells) {
+      if (cell === child) {
+        child = child.nextElementSibling;
+      } else {
+        this.gridEl.insertBefore(cell, child);
+      }
+    }
+    while (child) {
+      const extra = child;
+      child = child.nextElementSibling;
+      extra.remove();
+    }
+  }
+
+  private render(cell: HTMLElement, item: T) {
+    this.release(cell);
+    try {
+      this.options.renderCell(cell, item);
+    } catch (error) {
+      Logger.error('渲染网格单元格失败:', error);
+    }
+    this.intersectionObserver.observe(cell);
+  }
+
+  private load(cell: HTMLElement) {
+    this.intersectionObserver.unobserve(cell);
+    if (this.loaded.has(cell)) return;
+    this.loaded.add(cell);
+    this.options.loadCell?.(cell);
+  }
+
+  private release(cell: HTMLElement) {
+    this.intersectionObserver.unobserve(cell);
+    if (!this.loaded.has(cell)) return;
+    this.loaded.delete(cell);
+    this.options.unloadCell?.(cell);
+  }
+}